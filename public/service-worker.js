@@ -0,0 +1,70 @@
+/* eslint-disable no-restricted-globals */
+/**
+ * Caches the app shell so QBHub loads without a connection. Questions aren't
+ * cached here, the readers fall back to offline packs stored in IndexedDB.
+ */
+const CACHE_NAME = 'qbhub-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.json', '/favicon.ico'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)),
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      ),
+  );
+  self.clients.claim();
+});
+
+const cacheResponse = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (
+    request.method !== 'GET' ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith('/api')
+  ) {
+    return;
+  }
+
+  // pages are served from the network when possible, so deploys show up
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => cacheResponse('/index.html', response))
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // static assets are hashed, so the cached copy is always good to use
+  event.respondWith(
+    caches
+      .match(request)
+      .then(
+        (cached) =>
+          cached ??
+          fetch(request).then((response) => cacheResponse(request, response)),
+      ),
+  );
+});
@@ -0,0 +1,418 @@
+/**
+ * Reference server for QBHub multiplayer rooms, meant for running on a LAN.
+ * Implements the message schema in `src/types/multiplayer.ts` over WebSockets
+ * using only the Node standard library.
+ *
+ * Usage: node server/index.js [port]
+ * Tests: node --test server/
+ */
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.argv[2] || process.env.PORT || 3002);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const ANSWER_TIMEOUT = 10000; // time to answer after buzzing, in ms
+const DEAD_TIMEOUT = 5000; // time to buzz after the last word, in ms
+
+/**
+ * Encode a text frame, server frames are never masked.
+ */
+const encodeFrame = (data, opcode = 0x1) => {
+  const payload = Buffer.from(data);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Decode all complete frames in a buffer, returning the leftover bytes.
+ */
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const maskStart = offset + headerLength;
+    const mask = buffer.subarray(maskStart, maskStart + maskLength);
+    const payload = Buffer.from(
+      buffer.subarray(maskStart + maskLength, offset + frameLength),
+    );
+    if (masked) {
+      for (let i = 0; i < payload.length; i += 1) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ fin, opcode, payload });
+    offset += frameLength;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+/**
+ * Wrap an upgraded socket, calling `onMessage` with each parsed JSON message.
+ */
+const createConnection = (socket, onMessage, onClose) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+
+  const connection = {
+    send: (message) => {
+      if (!socket.destroyed) socket.write(encodeFrame(JSON.stringify(message)));
+    },
+  };
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffer, chunk]));
+    buffer = rest;
+    frames.forEach(({ fin, opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame('', 0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+        return;
+      }
+      if (opcode !== 0x1 && opcode !== 0x0) return;
+
+      fragments.push(payload);
+      if (!fin) return;
+
+      const data = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      try {
+        onMessage(connection, JSON.parse(data));
+      } catch (e) {
+        connection.send({ type: 'error', message: 'Invalid message.' });
+      }
+    });
+  });
+  socket.on('close', () => onClose(connection));
+  socket.on('error', () => socket.destroy());
+
+  return connection;
+};
+
+const rooms = new Map();
+
+const getPlayers = (room) =>
+  Array.from(room.players.values(), ({ player }) => player);
+
+const broadcast = (room, message) =>
+  room.players.forEach(({ connection }) => connection.send(message));
+
+const broadcastPlayers = (room) =>
+  broadcast(room, {
+    type: 'players',
+    hostId: room.hostId,
+    players: getPlayers(room),
+  });
+
+const clearTimers = (game) => {
+  clearTimeout(game.readTimer);
+  clearTimeout(game.deadTimer);
+  clearTimeout(game.answerTimer);
+};
+
+const isReadingFinished = (game) => game.visibleIndex >= game.words.length - 1;
+
+const endTossup = (room) => {
+  const { game } = room;
+  if (game == null) return;
+
+  clearTimers(game);
+  room.game = null;
+  getPlayers(room).forEach((player) => {
+    player.lockedOut = false;
+  });
+  broadcast(room, { type: 'tossupEnded', tossup: game.tossup });
+  broadcastPlayers(room);
+};
+
+const readNextWord = (room) => {
+  const { game } = room;
+  game.visibleIndex += 1;
+  broadcast(room, {
+    type: 'word',
+    index: game.visibleIndex,
+    word: game.words[game.visibleIndex],
+  });
+
+  if (isReadingFinished(game)) {
+    game.deadTimer = setTimeout(() => endTossup(room), DEAD_TIMEOUT);
+  } else {
+    game.readTimer = setTimeout(() => readNextWord(room), game.readingDelay);
+  }
+};
+
+const resumeReading = (room) => {
+  const { game } = room;
+  game.buzzerId = null;
+
+  const canBuzz = getPlayers(room).some((player) => !player.lockedOut);
+  if (!canBuzz) {
+    endTossup(room);
+  } else if (isReadingFinished(game)) {
+    game.deadTimer = setTimeout(() => endTossup(room), DEAD_TIMEOUT);
+  } else {
+    game.readTimer = setTimeout(() => readNextWord(room), game.readingDelay);
+  }
+};
+
+const rule = (room, ruling, answer) => {
+  const { game } = room;
+  const { player } = room.players.get(game.buzzerId);
+  clearTimeout(game.answerTimer);
+
+  if (ruling === 'prompt') {
+    broadcast(room, { type: 'prompted', playerId: player.id, answer });
+    game.answerTimer = setTimeout(
+      () => rule(room, 'incorrect', ''),
+      ANSWER_TIMEOUT,
+    );
+    return;
+  }
+
+  const isCorrect = ruling === 'correct';
+  let score;
+  if (isCorrect) score = game.buzzIndex <= game.powerIndex ? 15 : 10;
+  else score = game.buzzIndex === game.words.length - 1 ? 0 : -5;
+
+  player.score += score;
+  broadcast(room, {
+    type: 'ruled',
+    playerId: player.id,
+    answer,
+    isCorrect,
+    score,
+  });
+
+  if (isCorrect) {
+    endTossup(room);
+  } else {
+    // negs lock the player out, everyone else keeps listening
+    player.lockedOut = true;
+    broadcastPlayers(room);
+    resumeReading(room);
+  }
+};
+
+const handlers = {
+  join: (client, { room: roomName, name, team }) => {
+    if (client.room != null) return;
+    if (!roomName || !name) {
+      client.connection.send({
+        type: 'error',
+        message: 'A room and name are required.',
+      });
+      return;
+    }
+
+    if (!rooms.has(roomName)) {
+      rooms.set(roomName, { name: roomName, players: new Map(), game: null });
+    }
+    const room = rooms.get(roomName);
+    const player = {
+      id: crypto.randomBytes(8).toString('hex'),
+      name: String(name),
+      team: String(team || name),
+      score: 0,
+      lockedOut: false,
+    };
+    room.players.set(player.id, { player, connection: client.connection });
+    if (room.hostId == null) room.hostId = player.id;
+    client.room = room;
+    client.player = player;
+
+    client.connection.send({
+      type: 'joined',
+      playerId: player.id,
+      room: roomName,
+    });
+    broadcastPlayers(room);
+
+    // catch up on the tossup being read
+    if (room.game != null) {
+      const { game } = room;
+      client.connection.send({
+        type: 'tossupStarted',
+        wordCount: game.words.length,
+      });
+      game.words.slice(0, game.visibleIndex + 1).forEach((word, index) => {
+        client.connection.send({ type: 'word', index, word });
+      });
+      if (game.buzzerId != null) {
+        client.connection.send({
+          type: 'buzzed',
+          playerId: game.buzzerId,
+          buzzIndex: game.buzzIndex,
+        });
+      }
+    }
+  },
+  tossup: ({ room, player }, { tossup, words, powerIndex, readingDelay }) => {
+    if (room.hostId !== player.id || room.game != null) return;
+    if (!Array.isArray(words) || words.length === 0) return;
+
+    room.game = {
+      tossup,
+      words,
+      powerIndex: Number(powerIndex),
+      readingDelay: Math.max(Number(readingDelay) || 0, 25),
+      visibleIndex: -1,
+      buzzerId: null,
+      buzzIndex: -1,
+    };
+    broadcast(room, { type: 'tossupStarted', wordCount: words.length });
+    readNextWord(room);
+  },
+  buzz: ({ room, player }) => {
+    const { game } = room;
+    if (game == null || game.buzzerId != null || player.lockedOut) return;
+
+    clearTimers(game);
+    game.buzzerId = player.id;
+    game.buzzIndex = game.visibleIndex;
+    broadcast(room, {
+      type: 'buzzed',
+      playerId: player.id,
+      buzzIndex: game.buzzIndex,
+    });
+    game.answerTimer = setTimeout(
+      () => rule(room, 'incorrect', ''),
+      ANSWER_TIMEOUT,
+    );
+  },
+  answer: ({ room, player }, { answer }) => {
+    const { game } = room;
+    if (game == null || game.buzzerId !== player.id || game.answer != null) {
+      return;
+    }
+
+    // the answer timer stops once there's an answer, the host may take a while to rule
+    clearTimeout(game.answerTimer);
+    game.answer = String(answer);
+    room.players.get(room.hostId).connection.send({
+      type: 'judge',
+      playerId: player.id,
+      answer: game.answer,
+    });
+  },
+  ruling: ({ room, player }, { playerId, ruling }) => {
+    const { game } = room;
+    if (room.hostId !== player.id || game == null) return;
+    if (game.buzzerId !== playerId || game.answer == null) return;
+
+    const { answer } = game;
+    game.answer = null;
+    rule(room, ruling, answer);
+  },
+};
+
+const leave = ({ room, player }) => {
+  if (room == null) return;
+
+  room.players.delete(player.id);
+  if (room.players.size === 0) {
+    if (room.game != null) clearTimers(room.game);
+    rooms.delete(room.name);
+    return;
+  }
+
+  if (room.hostId === player.id) {
+    [room.hostId] = room.players.keys();
+    // hand an answer waiting for a ruling to the new host
+    const { game } = room;
+    if (game != null && game.answer != null && game.buzzerId !== player.id) {
+      room.players.get(room.hostId).connection.send({
+        type: 'judge',
+        playerId: game.buzzerId,
+        answer: game.answer,
+      });
+    }
+  }
+  if (room.game != null && room.game.buzzerId === player.id) {
+    clearTimeout(room.game.answerTimer);
+    room.game.answer = null;
+    resumeReading(room);
+  }
+  broadcastPlayers(room);
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('QBHub room server, connect with a WebSocket.');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || key == null) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(`${key}${WEBSOCKET_GUID}`)
+    .digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '\r\n',
+    ].join('\r\n'),
+  );
+
+  const client = { room: null, player: null, connection: null };
+  client.connection = createConnection(
+    socket,
+    (_, message) => {
+      const handler = handlers[message.type];
+      if (handler == null) return;
+      if (message.type !== 'join' && client.room == null) return;
+      handler(client, message);
+    },
+    () => leave(client),
+  );
+});
+
+// only listen when run directly, the tests drive the handlers
+if (require.main === module) {
+  server.listen(PORT, () => {
+    // eslint-disable-next-line no-console
+    console.log(`QBHub room server listening on port ${PORT}.`);
+  });
+}
+
+module.exports = { handlers, leave, ANSWER_TIMEOUT, DEAD_TIMEOUT };
@@ -0,0 +1,131 @@
+const assert = require('assert');
+const { afterEach, beforeEach, describe, mock, test } = require('node:test');
+const { handlers, leave, ANSWER_TIMEOUT, DEAD_TIMEOUT } = require('./index');
+
+const READING_DELAY = 100;
+const words = ['This', 'element', 'is', 'a', 'noble', 'gas.'].map(
+  (word, index) => ({ word, bold: index < 3 }),
+);
+
+// a client as the server sees it, recording the messages it's sent
+const createClient = () => {
+  const messages = [];
+  return {
+    room: null,
+    player: null,
+    connection: { send: (message) => messages.push(message) },
+    messages,
+    last: (type) => messages.filter((message) => message.type === type).pop(),
+  };
+};
+
+// read a number of words, one reading delay at a time
+const read = (count) => {
+  for (let i = 0; i < count; i += 1) mock.timers.tick(READING_DELAY);
+};
+
+let roomCount = 0;
+const startTossup = () => {
+  roomCount += 1;
+  const room = `room-${roomCount}`;
+  const host = createClient();
+  const player = createClient();
+  handlers.join(host, { room, name: 'Host' });
+  handlers.join(player, { room, name: 'Player' });
+  handlers.tossup(host, {
+    tossup: { answer: 'Neon' },
+    words,
+    powerIndex: 2,
+    readingDelay: READING_DELAY,
+  });
+  return { host, player };
+};
+
+describe('Room protocol', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  test('a correct answer before the power mark scores 15', () => {
+    const { host, player } = startTossup();
+    read(1);
+    handlers.buzz(player);
+    assert.deepStrictEqual(player.last('buzzed'), {
+      type: 'buzzed',
+      playerId: player.player.id,
+      buzzIndex: 1,
+    });
+
+    handlers.answer(player, { answer: 'neon' });
+    assert.deepStrictEqual(host.last('judge'), {
+      type: 'judge',
+      playerId: player.player.id,
+      answer: 'neon',
+    });
+
+    handlers.ruling(host, { playerId: player.player.id, ruling: 'correct' });
+    assert.strictEqual(player.last('ruled').score, 15);
+    assert.strictEqual(player.player.score, 15);
+    assert.ok(player.last('tossupEnded'));
+  });
+
+  test('answering stops the answer timer while the host rules', () => {
+    const { host, player } = startTossup();
+    read(3);
+    handlers.buzz(player);
+    handlers.answer(player, { answer: 'argon' });
+    mock.timers.tick(ANSWER_TIMEOUT * 2);
+    assert.strictEqual(player.last('ruled'), undefined);
+
+    handlers.ruling(host, { playerId: player.player.id, ruling: 'incorrect' });
+    assert.strictEqual(player.last('ruled').score, -5);
+    assert.strictEqual(player.player.lockedOut, true);
+  });
+
+  test('not answering in time is ruled incorrect', () => {
+    const { player } = startTossup();
+    read(5);
+    handlers.buzz(player);
+    mock.timers.tick(ANSWER_TIMEOUT);
+
+    // buzzing on the last word doesn't lose points
+    assert.deepStrictEqual(player.last('ruled'), {
+      type: 'ruled',
+      playerId: player.player.id,
+      answer: '',
+      isCorrect: false,
+      score: 0,
+    });
+  });
+
+  test('a prompt restarts the answer timer', () => {
+    const { host, player } = startTossup();
+    handlers.buzz(player);
+    handlers.answer(player, { answer: 'noble gas' });
+    handlers.ruling(host, { playerId: player.player.id, ruling: 'prompt' });
+    assert.ok(player.last('prompted'));
+
+    mock.timers.tick(ANSWER_TIMEOUT);
+    assert.strictEqual(player.last('ruled').isCorrect, false);
+  });
+
+  test('the tossup ends when nobody buzzes after the last word', () => {
+    const { player } = startTossup();
+    read(words.length - 1);
+    assert.strictEqual(player.last('word').index, words.length - 1);
+    assert.strictEqual(player.last('tossupEnded'), undefined);
+
+    mock.timers.tick(DEAD_TIMEOUT);
+    assert.ok(player.last('tossupEnded'));
+  });
+
+  test('a new host is asked to rule on a waiting answer', () => {
+    const { host, player } = startTossup();
+    handlers.buzz(player);
+    handlers.answer(player, { answer: 'neon' });
+    leave(host);
+
+    assert.strictEqual(player.last('judge').answer, 'neon');
+    handlers.ruling(player, { playerId: player.player.id, ruling: 'correct' });
+    assert.strictEqual(player.player.score, 15);
+  });
+});
@@ -14,6 +14,7 @@ import TossupHistoryModal from './components/TossupHistoryModal';
 import { open as openTossupHistory } from './components/TossupHistoryModal/tossupHistoryModalSlice';
 import { reset } from './FrequencyList/frequencyListSlice';
 import { useKeyboardShortcut } from './hooks/keyboard';
+import { useQuestionSettingsQuery } from './hooks/settings';
 import { useAppDispatch } from './redux/hooks';
 import SettingsModal from './Settings';
 import {
@@ -29,6 +30,8 @@ const App: React.FC<React.PropsWithChildren<unknown>> = () => {
   const questionSettings = useSelector(selectQuestionSettings);
   const [pageHeight, setPageHeight] = useState(window.innerHeight);
 
+  useQuestionSettingsQuery();
+
   // if question settings change, reset freq to initial state
   useEffect(() => {
     dispatch(reset());
@@ -52,7 +55,8 @@ const App: React.FC<React.PropsWithChildren<unknown>> = () => {
   useKeyboardShortcut('2', () => history.push(ROUTES.reader.bonus), predicate);
   useKeyboardShortcut('3', () => history.push(ROUTES.freq.root), predicate);
   useKeyboardShortcut('4', () => history.push(ROUTES.clues.search), predicate);
-  useKeyboardShortcut('5', () => history.push(ROUTES.about.root), predicate);
+  useKeyboardShortcut('5', () => history.push(ROUTES.stats.root), predicate);
+  useKeyboardShortcut('6', () => history.push(ROUTES.about.root), predicate);
   const isReaderActive = pathname.startsWith(ROUTES.reader.root);
   const isTossupReaderActive = pathname.startsWith(ROUTES.reader.tossup);
   const customPredicate = (e: KeyboardEvent) => predicate(e) && isReaderActive;
@@ -1,9 +1,10 @@
-import { Box } from '@chakra-ui/react';
+import { Box, Text } from '@chakra-ui/react';
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useSelector } from 'react-redux';
 import { elementScrollIntoView } from 'seamless-scroll-polyfill';
 import { useReader } from '../hooks/reader';
 import { useAppDispatch } from '../redux/hooks';
+import { selectIsTextHidden } from '../Settings/settingsSlice';
 import { getTossupWords, renderQuestion } from '../utils/reader';
 import {
   buzz,
@@ -12,6 +13,15 @@ import {
   setVisible,
 } from './bonusReaderSlice';
 
+const isJudged = (status: ReaderStatus) =>
+  [ReaderStatus.judged, ReaderStatus.partialJudged].includes(status);
+
+const Listening = () => (
+  <Text as="span" color="gray.500">
+    Listening...
+  </Text>
+);
+
 type LeadinProps = {
   setIsLeadinFinished: React.Dispatch<React.SetStateAction<boolean>>;
 };
@@ -25,6 +35,7 @@ const Leadin = ({ setIsLeadinFinished }: LeadinProps) => {
       bonus: { formattedLeadin },
     },
   } = useSelector(selectBonusReader);
+  const isTextHidden = useSelector(selectIsTextHidden);
   const dispatch = useAppDispatch();
 
   const words = useMemo(
@@ -84,7 +95,8 @@ const Leadin = ({ setIsLeadinFinished }: LeadinProps) => {
 
   return (
     <Box>
-      <b>BONUS:</b> {renderedQuestion}
+      <b>BONUS:</b>{' '}
+      {isTextHidden && !isJudged(status) ? <Listening /> : renderedQuestion}
     </Box>
   );
 };
@@ -100,6 +112,7 @@ const ActiveQuestion = () => {
       number,
     },
   } = useSelector(selectBonusReader);
+  const isTextHidden = useSelector(selectIsTextHidden);
   const dispatch = useAppDispatch();
 
   const hasLeadin = number === 1;
@@ -181,7 +194,7 @@ const ActiveQuestion = () => {
           <b>[10]</b>{' '}
         </>
       )}
-      {renderedQuestion}
+      {isTextHidden && !isJudged(status) ? <Listening /> : renderedQuestion}
     </>
   );
 };
@@ -0,0 +1,61 @@
+import { Box } from '@chakra-ui/react';
+import { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import ReaderOverride from '../components/reader/Override';
+import { useKeyboardShortcut } from '../hooks/keyboard';
+import { useAppDispatch } from '../redux/hooks';
+import { selectSettings } from '../Settings/settingsSlice';
+import {
+  overrideResult,
+  ReaderStatus,
+  selectBonusReader,
+} from './bonusReaderSlice';
+
+const Override: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    status,
+    current: { partResult, result },
+  } = useSelector(selectBonusReader);
+  const settings = useSelector(selectSettings);
+  const dispatch = useAppDispatch();
+
+  const override = useCallback(
+    (number: number) => dispatch(overrideResult(number)),
+    [dispatch],
+  );
+  useKeyboardShortcut(
+    'o',
+    () => override(partResult.number),
+    () =>
+      !settings.isOpen &&
+      [ReaderStatus.partialJudged, ReaderStatus.judged].includes(status),
+  );
+
+  // once the bonus is judged, any part can still be corrected
+  if (status === ReaderStatus.judged) {
+    return (
+      <Box>
+        {result.parts.map((part) => (
+          <ReaderOverride
+            key={part.number}
+            isCorrect={part.isCorrect}
+            overridden={part.overridden}
+            onOverride={() => override(part.number)}
+            label={`Part ${part.number}`}
+            hasShortcut={part.number === partResult.number}
+          />
+        ))}
+      </Box>
+    );
+  }
+
+  return (
+    <ReaderOverride
+      isCorrect={partResult.isCorrect}
+      overridden={partResult.overridden}
+      onOverride={() => override(partResult.number)}
+    />
+  );
+};
+
+export default Override;
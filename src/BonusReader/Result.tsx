@@ -2,6 +2,7 @@ import { useSelector } from 'react-redux';
 import ReaderResult from '../components/reader/Result';
 import { BonusScore } from '../types/bonus';
 import { random } from '../utils/array';
+import { getVerdictNotes } from '../utils/reader';
 import { ReaderStatus, selectBonusReader } from './bonusReaderSlice';
 
 const messages = {
@@ -24,6 +25,8 @@ const Result: React.FC<React.PropsWithChildren<unknown>> = () => {
     current: {
       result: { score },
       partResult,
+      prompts,
+      verdict,
     },
   } = useSelector(selectBonusReader);
 
@@ -38,7 +41,13 @@ const Result: React.FC<React.PropsWithChildren<unknown>> = () => {
   else if (score === BonusScore.ten) text = random(messages.ten);
   else text = random(messages.zero);
 
-  return <ReaderResult text={text} />;
+  const lastPrompt = prompts[prompts.length - 1];
+  const notes = getVerdictNotes(
+    verdict,
+    status === ReaderStatus.prompting ? lastPrompt : undefined,
+  );
+
+  return <ReaderResult text={text} notes={notes} />;
 };
 
 export default Result;
@@ -27,10 +27,15 @@ const buttonTexts = new Map([
 type UserInputProps = {
   progress: number;
   submit: (s: string) => void;
+  onNext?: () => void;
+  // answering by voice instead of typing
+  isListening?: boolean;
 };
 const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
   progress,
   submit,
+  onNext,
+  isListening = false,
 }) => {
   const {
     status,
@@ -57,7 +62,10 @@ const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
     dispatch(buzzAction());
   }, [dispatch]);
   const submitInput = useCallback(() => submit(input), [input, submit]);
-  const next = useCallback(() => dispatch(nextBonusAction()), [dispatch]);
+  const next = useCallback(() => {
+    if (onNext !== undefined) onNext();
+    else dispatch(nextBonusAction());
+  }, [dispatch, onNext]);
   const nextPart = useCallback(
     () => dispatch(nextBonusPartAction()),
     [dispatch],
@@ -110,7 +118,9 @@ const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
     <ReaderUserInput
       input={input}
       setInput={setInput}
-      placeholder={status === ReaderStatus.prompting ? 'Prompt:' : 'Answer:'}
+      placeholder={`${
+        status === ReaderStatus.prompting ? 'Prompt:' : 'Answer:'
+      }${isListening ? ' listening...' : ''}`}
       text={buttonTexts.get(status) ?? ''}
       onClick={onClick}
       submit={submitInput}
@@ -6,6 +6,7 @@ import Answer from '../components/reader/Answer';
 import ReaderQuestion from '../components/reader/Question';
 import UserAnswer from '../components/reader/UserAnswer';
 import { useAppDispatch } from '../redux/hooks';
+import { getApiErrorMessage } from '../utils/api';
 import { range } from '../utils/array';
 import { getTossupWords } from '../utils/reader';
 import ActiveQuestion from './ActiveQuestion';
@@ -16,15 +17,18 @@ import PreviousQuestion from './PreviousQuestion';
 const Container = () => {
   const {
     status,
+    error,
     current: { number, bonus, result, part, partResult },
   } = useSelector(selectBonusReader);
   const userAnswerRef = useRef(null);
   const dispatch = useAppDispatch();
 
   const showLoading = status === ReaderStatus.fetching;
-  const showEmpty = status === ReaderStatus.empty;
+  const showEmpty = [ReaderStatus.empty, ReaderStatus.error].includes(status);
   const emptyMessage =
-    'No bonuses found. Try checking your network connection or tweaking the search parameters.';
+    status === ReaderStatus.error && error !== null
+      ? getApiErrorMessage(error)
+      : 'No bonuses found. Try tweaking the search parameters.';
   const onEmpty = () => dispatch(nextBonus());
 
   const leadinOffset = useMemo(
@@ -1,5 +1,8 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from '../redux/store';
+import { newSession, resumeSession } from '../Sessions/sessionsSlice';
+import { AnswerPrompt } from '../types/answerline';
+import { ApiError } from '../types/api';
 import { Bonus, BonusPart, BonusPartResult, BonusResult } from '../types/bonus';
 import {
   Category,
@@ -7,8 +10,18 @@ import {
   Subcategory,
   Tournament,
 } from '../types/questions';
+import { JudgeVerdict } from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
+import { QUEUE_BATCH_SIZE, WEIGHTED_POOL_SIZE } from '../utils/constants';
 import * as fetchUtils from '../utils/fetch';
-import { getBonusScore } from '../utils/reader';
+import { getBonusResultsScore, restoreCurrentSession } from '../utils/history';
+import { answerPrompt, getBonusScore } from '../utils/reader';
+import { getBonusKey } from '../utils/review';
+import {
+  getCategoryCounts,
+  getSelectedWeights,
+  sampleByWeight,
+} from '../utils/weights';
 
 export enum ReaderStatus {
   idle,
@@ -19,13 +32,23 @@ export enum ReaderStatus {
   prompting,
   judged,
   empty,
+  error,
+}
+
+export enum BonusReaderMode {
+  practice,
+  packet,
 }
 
 type BonusReaderState = {
   status: ReaderStatus;
+  mode: BonusReaderMode;
   bonuses: Bonus[];
+  // fetched bonuses left out of the queue, kept for the next refill
+  pool: Bonus[];
   results: BonusResult[];
   score: number;
+  error: ApiError | null;
   current: {
     number: number;
     part: BonusPart;
@@ -34,14 +57,22 @@ type BonusReaderState = {
     result: BonusResult;
     buzzIndex: number;
     visibleIndex: number;
+    // prompts on the current part
+    prompts: AnswerPrompt[];
+    // explains the last ruling on the current part, prompts included
+    verdict: JudgeVerdict | null;
   };
 };
 
+const { bonusResults } = restoreCurrentSession();
 const initialState: BonusReaderState = {
   status: ReaderStatus.idle,
+  mode: BonusReaderMode.practice,
   bonuses: [],
-  results: [],
-  score: 0,
+  pool: [],
+  results: bonusResults,
+  score: getBonusResultsScore(bonusResults),
+  error: null,
   current: {
     number: 1,
     part: {} as BonusPart,
@@ -54,18 +85,54 @@ const initialState: BonusReaderState = {
     },
     buzzIndex: -1,
     visibleIndex: -1,
+    prompts: [],
+    verdict: null,
   },
 };
 
 export const fetchBonuses = createAsyncThunk<
-  Bonus[],
+  { bonuses: Bonus[]; pool: Bonus[] },
   undefined,
-  { state: RootState }
->('bonusReader/fetchBonuses', async (_, { getState }) => {
-  const { settings } = getState();
-  const bonuses = await fetchUtils.fetchBonuses(settings);
-  return bonuses;
-});
+  { state: RootState; rejectValue: ApiError }
+>(
+  'bonusReader/fetchBonuses',
+  async (_, { getState, signal, rejectWithValue }) => {
+    const { settings, bonusReader } = getState();
+
+    // in packet mode, the queue only holds the packet's bonuses
+    if (bonusReader.mode === BonusReaderMode.packet) {
+      return { bonuses: [], pool: bonusReader.pool };
+    }
+
+    // only fetch enough to top the pool back up
+    let fetched: Bonus[] = [];
+    if (bonusReader.pool.length < WEIGHTED_POOL_SIZE) {
+      const result = await fetchUtils.fetchBonuses(
+        { ...settings, limit: WEIGHTED_POOL_SIZE - bonusReader.pool.length },
+        signal,
+      );
+      if (isApiError(result)) return rejectWithValue(result);
+      fetched = getResultData(result, []);
+    }
+
+    // sample the queue to follow the category weights over the session
+    const seen = getCategoryCounts([
+      ...bonusReader.results.map(({ bonus }) => bonus),
+      ...bonusReader.bonuses,
+    ]);
+    const candidates = [...bonusReader.pool, ...fetched];
+    const sample = sampleByWeight(
+      candidates,
+      getSelectedWeights(settings.categoryWeights, settings.categories),
+      QUEUE_BATCH_SIZE,
+      seen,
+    );
+    return {
+      bonuses: sample,
+      pool: candidates.filter((bn) => !sample.includes(bn)),
+    };
+  },
+);
 
 export const nextBonus = createAsyncThunk<
   void,
@@ -90,6 +157,7 @@ export const nextBonus = createAsyncThunk<
         ReaderStatus.idle,
         ReaderStatus.judged,
         ReaderStatus.empty,
+        ReaderStatus.error,
       ].includes(bonusReader.status);
     },
   },
@@ -105,55 +173,155 @@ const bonusReaderSlice = createSlice({
         state.current.buzzIndex = state.current.visibleIndex;
       }
     },
-    prompt: (state) => {
+    prompt: (
+      state,
+      action: PayloadAction<
+        Omit<AnswerPrompt, 'response'> & { verdict: JudgeVerdict }
+      >,
+    ) => {
       if (
         [ReaderStatus.answering, ReaderStatus.prompting].includes(state.status)
       ) {
+        const { verdict, ...newPrompt } = action.payload;
         state.status = ReaderStatus.prompting;
+        state.current.verdict = verdict;
+        answerPrompt(state.current.prompts, newPrompt.userAnswer);
+        state.current.prompts.push({ ...newPrompt, response: null });
       }
     },
     setVisible: (state, action: PayloadAction<number>) => {
       state.current.visibleIndex = action.payload;
     },
+    // stop a question midway, e.g. once a drill is over
+    stopReading: (state) => {
+      if (
+        [
+          ReaderStatus.reading,
+          ReaderStatus.answering,
+          ReaderStatus.prompting,
+          ReaderStatus.partialJudged,
+        ].includes(state.status)
+      ) {
+        state.status = ReaderStatus.idle;
+      }
+    },
+    setMode: (state, action: PayloadAction<BonusReaderMode>) => {
+      if (state.mode === action.payload) return;
+
+      // drop bonuses queued for the previous mode
+      state.mode = action.payload;
+      state.bonuses = [];
+      state.status = ReaderStatus.idle;
+    },
+    loadPacket: (state, action: PayloadAction<Bonus[]>) => {
+      state.mode = BonusReaderMode.packet;
+      state.bonuses = action.payload;
+      state.status = ReaderStatus.idle;
+    },
     nextBonusPart: (state) => {
       state.current.buzzIndex = initialState.current.buzzIndex;
       state.current.visibleIndex = initialState.current.visibleIndex;
       state.current.partResult = initialState.current.partResult;
+      state.current.prompts = [];
+      state.current.verdict = null;
       state.current.number += 1;
       state.current.part = state.current.bonus.parts[state.current.number - 1];
       state.status = ReaderStatus.reading;
     },
-    submitAnswer: (
-      state,
-      action: PayloadAction<{
+    submitAnswer: {
+      reducer: (
+        state,
+        action: PayloadAction<{
+          isCorrect: boolean;
+          userAnswer: string;
+          verdict: JudgeVerdict | null;
+          judgedAt: number;
+        }>,
+      ) => {
+        if (
+          state.status === ReaderStatus.answering ||
+          state.status === ReaderStatus.prompting
+        ) {
+          state.status = ReaderStatus.partialJudged;
+          state.current.verdict = action.payload.verdict;
+          answerPrompt(state.current.prompts, action.payload.userAnswer);
+
+          const { judgedAt, ...payload } = action.payload;
+          const partResult = {
+            ...payload,
+            buzzIndex: state.current.buzzIndex,
+            number: state.current.number,
+            overridden: false,
+            prompts: state.current.prompts,
+          };
+          state.current.partResult = partResult;
+          state.current.result.parts.push(partResult);
+
+          if (state.current.number === 3) {
+            const score = getBonusScore(state.current.result.parts);
+            state.current.result.score = score;
+            state.current.result.judgedAt = judgedAt;
+            state.score += score;
+            state.results.unshift(state.current.result);
+            state.status = ReaderStatus.judged;
+          }
+        }
+      },
+      prepare: (payload: {
         isCorrect: boolean;
         userAnswer: string;
-      }>,
-    ) => {
+        verdict: JudgeVerdict | null;
+      }) => ({
+        payload: { ...payload, judgedAt: Date.now() },
+      }),
+    },
+    overrideResult: (state, action: PayloadAction<number>) => {
       if (
-        state.status === ReaderStatus.answering ||
-        state.status === ReaderStatus.prompting
-      ) {
-        state.status = ReaderStatus.partialJudged;
+        ![ReaderStatus.partialJudged, ReaderStatus.judged].includes(
+          state.status,
+        )
+      )
+        return;
+
+      const part = state.current.result.parts.find(
+        ({ number }) => number === action.payload,
+      );
+      if (part === undefined) return;
+
+      // once judged, the result being overridden has to be the one in the history
+      const { judgedAt } = state.current.result;
+      const index = state.results.findIndex(
+        (result) => judgedAt !== undefined && result.judgedAt === judgedAt,
+      );
+      if (state.status === ReaderStatus.judged && index === -1) return;
 
-        const partResult = {
-          ...action.payload,
-          buzzIndex: state.current.buzzIndex,
-          number: state.current.number,
-        };
+      // flip the judge's decision on the part, overriding twice restores the original
+      const partResult = {
+        ...part,
+        isCorrect: !part.isCorrect,
+        overridden: !part.overridden,
+      };
+      const parts = state.current.result.parts.map((result) =>
+        result.number === partResult.number ? partResult : result,
+      );
+      if (state.current.partResult.number === partResult.number) {
         state.current.partResult = partResult;
-        state.current.result.parts.push(partResult);
-
-        if (state.current.number === 3) {
-          const score = getBonusScore(state.current.result.parts);
-          state.current.result.score = score;
-          state.score += score;
-          state.results.unshift(state.current.result);
-          state.status = ReaderStatus.judged;
-        }
+      }
+      state.current.result = { ...state.current.result, parts };
+
+      if (state.status === ReaderStatus.judged) {
+        const score = getBonusScore(parts);
+        state.score += score - state.current.result.score;
+        state.current.result.score = score;
+        state.results[index] = state.current.result;
       }
     },
     filterBonusesByCategory: (state, action: PayloadAction<Category[]>) => {
+      state.pool = state.pool.filter((bn) =>
+        action.payload.includes(bn.category),
+      );
+      if (state.mode === BonusReaderMode.packet) return;
+
       state.bonuses = state.bonuses.filter((bn) =>
         action.payload.includes(bn.category),
       );
@@ -162,6 +330,11 @@ const bonusReaderSlice = createSlice({
       state,
       action: PayloadAction<Subcategory[]>,
     ) => {
+      state.pool = state.pool.filter((bn) =>
+        action.payload.includes(bn.subcategory),
+      );
+      if (state.mode === BonusReaderMode.packet) return;
+
       state.bonuses = state.bonuses.filter((bn) =>
         action.payload.includes(bn.subcategory),
       );
@@ -170,23 +343,57 @@ const bonusReaderSlice = createSlice({
       state,
       action: PayloadAction<Difficulty[]>,
     ) => {
+      state.pool = state.pool.filter((bn) =>
+        action.payload.includes(bn.difficulty),
+      );
+      if (state.mode === BonusReaderMode.packet) return;
+
       state.bonuses = state.bonuses.filter((bn) =>
         action.payload.includes(bn.difficulty),
       );
     },
     filterBonusesByTournament: (state, action: PayloadAction<Tournament[]>) => {
+      state.pool = state.pool.filter((bn) =>
+        action.payload.includes(bn.tournament),
+      );
+      if (state.mode === BonusReaderMode.packet) return;
+
       state.bonuses = state.bonuses.filter((bn) =>
         action.payload.includes(bn.tournament),
       );
     },
     filterBonusesByFromYear: (state, action: PayloadAction<number>) => {
+      state.pool = state.pool.filter((bn) => bn.year >= action.payload);
+      if (state.mode === BonusReaderMode.packet) return;
+
       state.bonuses = state.bonuses.filter((bn) => bn.year >= action.payload);
     },
   },
   extraReducers: (builder) => {
-    builder.addCase(fetchBonuses.fulfilled, (state, action) => {
-      state.bonuses.push(...action.payload);
-    });
+    builder
+      .addCase(fetchBonuses.fulfilled, (state, action) => {
+        // a concurrent refill may have queued the same pool bonuses
+        const queued = new Set(state.bonuses.map((bn) => getBonusKey(bn)));
+        state.bonuses.push(
+          ...action.payload.bonuses.filter(
+            (bn) => !queued.has(getBonusKey(bn)),
+          ),
+        );
+        state.pool = action.payload.pool;
+        state.error = null;
+      })
+      .addCase(fetchBonuses.rejected, (state, action) => {
+        state.error = action.payload ?? null;
+      });
+    builder
+      .addCase(newSession, (state) => {
+        state.results = [];
+        state.score = 0;
+      })
+      .addCase(resumeSession, (state, action) => {
+        state.results = action.payload.bonusResults;
+        state.score = getBonusResultsScore(state.results);
+      });
     builder
       .addCase(nextBonus.pending, (state) => {
         state.status = ReaderStatus.fetching;
@@ -209,6 +416,9 @@ const bonusReaderSlice = createSlice({
 
           state.status = ReaderStatus.reading;
         }
+      })
+      .addCase(nextBonus.rejected, (state) => {
+        state.status = ReaderStatus.error;
       });
   },
 });
@@ -216,8 +426,12 @@ export const {
   buzz,
   prompt,
   setVisible,
+  stopReading,
+  setMode,
+  loadPacket,
   submitAnswer,
   nextBonusPart,
+  overrideResult,
   filterBonusesByCategory,
   filterBonusesBySubcategory,
   filterBonusesByDifficulties,
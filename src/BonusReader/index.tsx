@@ -2,10 +2,17 @@ import { Flex } from '@chakra-ui/react';
 import { useCallback, useEffect, useState } from 'react';
 import { useSelector } from 'react-redux';
 import Progress from '../components/reader/Progress';
+import { useVoiceAnswer } from '../hooks/reader';
 import { useAppDispatch } from '../redux/hooks';
-import { JudgeResult } from '../types/tossups';
+import {
+  selectAnswerTimes,
+  selectJudgeOptions,
+} from '../Settings/settingsSlice';
+import { AnswerTimer } from '../types/settings';
+import { JudgeResult, JudgeVerdict } from '../types/tossups';
 import logger from '../utils/logger';
-import { Judge, normalizeAnswer } from '../utils/reader';
+import { Judge } from '../utils/reader';
+import { getAnswerDuration } from '../utils/settings';
 import {
   prompt,
   ReaderStatus,
@@ -14,12 +21,20 @@ import {
   submitAnswer,
 } from './bonusReaderSlice';
 import Info from './Info';
+import Override from './Override';
 import Result from './Result';
 import Score from './Score';
 import UserInput from './UserInput';
 import Viewer from './Viewer';
 
-const BonusReader: React.FC<React.PropsWithChildren<unknown>> = () => {
+type BonusReaderProps = {
+  // replaces moving to the next bonus, e.g. to read a tossup in between
+  onNext?: () => void;
+};
+
+const BonusReader: React.FC<React.PropsWithChildren<BonusReaderProps>> = ({
+  onNext,
+}) => {
   const [progress, setProgress] = useState(100);
   const [judge, setJudge] = useState<Judge>();
   const {
@@ -27,34 +42,37 @@ const BonusReader: React.FC<React.PropsWithChildren<unknown>> = () => {
     current: { part },
   } = useSelector(selectBonusReader);
   const isAnswering = useSelector(selectIsAnswering);
+  const judgeOptions = useSelector(selectJudgeOptions);
+  const answerTimes = useSelector(selectAnswerTimes);
   const dispatch = useAppDispatch();
 
   // reset judge and progress on new tossup
   useEffect(() => {
     if (status === ReaderStatus.reading) {
-      setJudge(new Judge(part.formattedAnswer));
+      setJudge(new Judge(part.formattedAnswer, judgeOptions));
       setProgress(100);
     }
-  }, [part.formattedAnswer, status]);
-
-  // process a user's answer when submitting
-  const submit = useCallback(
-    (input: string) => {
-      if (judge === undefined || !isAnswering) return;
+  }, [judgeOptions, part.formattedAnswer, status]);
 
-      // judge the user answer
-      const userAnswer = normalizeAnswer(input);
-      logger.info(`User submitted "${userAnswer}".`);
-      const judgeResult = judge.judge(userAnswer);
-
-      // either prompt on answer or mark it as correct/incorrect
-      if (judgeResult === JudgeResult.prompt) {
+  // either prompt on the answer or mark it as correct/incorrect
+  const onJudged = useCallback(
+    (verdict: JudgeVerdict) => {
+      const { result, userAnswer } = verdict;
+      if (result === JudgeResult.prompt) {
         // prompt on answer
         logger.info(`Prompting on "${userAnswer}".`);
-        dispatch(prompt());
+        dispatch(
+          prompt({
+            userAnswer,
+            answer: verdict.prompt?.answer ?? userAnswer,
+            question: verdict.prompt?.question ?? null,
+            verdict,
+          }),
+        );
+        setProgress(100);
       } else {
         // submit answer
-        const isCorrect = judgeResult === JudgeResult.correct;
+        const isCorrect = result === JudgeResult.correct;
         logger.info(
           `User answer "${userAnswer}" is ${
             isCorrect ? 'correct' : 'incorrect'
@@ -64,17 +82,36 @@ const BonusReader: React.FC<React.PropsWithChildren<unknown>> = () => {
           submitAnswer({
             isCorrect,
             userAnswer,
+            verdict,
           }),
         );
       }
     },
-    [dispatch, isAnswering, judge],
+    [dispatch],
   );
 
+  // process a user's answer when submitting
+  const submit = useCallback(
+    (input: string) => {
+      if (judge === undefined || !isAnswering) return;
+
+      // judge the user answer
+      logger.info(`User submitted "${input}".`);
+      onJudged(judge.judge(input));
+    },
+    [isAnswering, judge, onJudged],
+  );
+
+  // or answer by voice, if enabled
+  const isListening = useVoiceAnswer(judge, isAnswering, onJudged);
+
   const renderInfo = () =>
-    ![ReaderStatus.idle, ReaderStatus.fetching, ReaderStatus.empty].includes(
-      status,
-    ) && <Info />;
+    ![
+      ReaderStatus.idle,
+      ReaderStatus.fetching,
+      ReaderStatus.empty,
+      ReaderStatus.error,
+    ].includes(status) && <Info />;
   const renderViewer = () => status !== ReaderStatus.idle && <Viewer />;
   const renderResult = () =>
     [
@@ -82,20 +119,38 @@ const BonusReader: React.FC<React.PropsWithChildren<unknown>> = () => {
       ReaderStatus.partialJudged,
       ReaderStatus.judged,
     ].includes(status) && <Result />;
+  const renderOverride = () =>
+    [ReaderStatus.partialJudged, ReaderStatus.judged].includes(status) && (
+      <Override />
+    );
   const renderProgress = () =>
     isAnswering && (
       <Progress
         progress={progress}
         setProgress={setProgress}
         shouldTick={isAnswering}
+        duration={getAnswerDuration(
+          answerTimes[
+            status === ReaderStatus.prompting
+              ? AnswerTimer.prompt
+              : AnswerTimer.bonus
+          ],
+        )}
       />
     );
   const renderInput = () =>
-    status !== ReaderStatus.empty && (
-      <UserInput progress={progress} submit={submit} />
+    ![ReaderStatus.empty, ReaderStatus.error].includes(status) && (
+      <UserInput
+        progress={progress}
+        submit={submit}
+        onNext={onNext}
+        isListening={isListening}
+      />
     );
   const renderScore = () =>
-    ![ReaderStatus.idle, ReaderStatus.empty].includes(status) && <Score />;
+    ![ReaderStatus.idle, ReaderStatus.empty, ReaderStatus.error].includes(
+      status,
+    ) && <Score />;
 
   return (
     <Flex
@@ -109,6 +164,7 @@ const BonusReader: React.FC<React.PropsWithChildren<unknown>> = () => {
       {renderInfo()}
       {renderViewer()}
       {renderResult()}
+      {renderOverride()}
       {renderProgress()}
       {renderInput()}
       {renderScore()}
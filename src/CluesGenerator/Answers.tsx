@@ -1,8 +1,10 @@
+import { RepeatIcon } from '@chakra-ui/icons';
 import {
   Box,
   CircularProgress,
   Container,
   Heading,
+  IconButton,
   Link,
   Text,
 } from '@chakra-ui/react';
@@ -11,6 +13,7 @@ import { useSelector } from 'react-redux';
 import { Link as RouterLink, useParams } from 'react-router-dom';
 import { KeyValueTable } from '../components/tables';
 import { useAppDispatch } from '../redux/hooks';
+import { getApiErrorMessage } from '../utils/api';
 import { ROUTES } from '../utils/routes';
 import {
   CluesGeneratorStatus,
@@ -28,16 +31,22 @@ const answersFields = [
 ] as const;
 
 const Answers: React.FC<React.PropsWithChildren<unknown>> = () => {
-  const { answers, status } = useSelector(selectCluesGenerator);
+  const { answers, status, error } = useSelector(selectCluesGenerator);
   const dispatch = useAppDispatch();
   const { answer: answerParam } = useParams<{ answer: string }>();
 
   useLayoutEffect(() => {
     dispatch(resetStatus());
     dispatch(setQuery(answerParam));
-    dispatch(fetchAnswers(answerParam));
+    const promise = dispatch(fetchAnswers(answerParam));
+    return () => promise.abort();
   }, [answerParam, dispatch]);
 
+  const retry = () => {
+    dispatch(resetStatus());
+    dispatch(fetchAnswers(answerParam));
+  };
+
   const createLink = (answer: string) => (
     <Link
       as={RouterLink}
@@ -49,6 +58,21 @@ const Answers: React.FC<React.PropsWithChildren<unknown>> = () => {
   );
 
   const render = () => {
+    if (status === CluesGeneratorStatus.error && error !== null) {
+      return (
+        <>
+          <Container bg="gray.100" p={4} borderRadius="md" mb={4}>
+            <Text>{getApiErrorMessage(error)}</Text>
+          </Container>
+          <IconButton
+            aria-label="Try Again"
+            icon={<RepeatIcon />}
+            onClick={retry}
+          />
+        </>
+      );
+    }
+
     if (status !== CluesGeneratorStatus.loaded) {
       return <CircularProgress isIndeterminate color="cyan" />;
     }
@@ -65,8 +89,7 @@ const Answers: React.FC<React.PropsWithChildren<unknown>> = () => {
           >
             <Text maxH="100%">
               No answerlines matching <strong>{answerParam}</strong>. Try
-              checking your network connection or tweaking the search
-              parameters.
+              tweaking the search parameters.
             </Text>
           </Container>
           <SearchButton
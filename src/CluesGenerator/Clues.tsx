@@ -1,10 +1,11 @@
-import { DownloadIcon } from '@chakra-ui/icons';
+import { DownloadIcon, RepeatIcon } from '@chakra-ui/icons';
 import {
   Box,
   CircularProgress,
   Container,
   Flex,
   Heading,
+  IconButton,
   Text,
   Tooltip,
 } from '@chakra-ui/react';
@@ -14,6 +15,7 @@ import { FileDownloadButton } from '../components/buttons';
 import { KeyValueTable } from '../components/tables';
 import { useAppDispatch, useAppSelector } from '../redux/hooks';
 import { Clue } from '../types/tossups';
+import { getApiErrorMessage } from '../utils/api';
 import { toCSV, toJSON } from '../utils/array';
 import { ROUTES } from '../utils/routes';
 import BackButton from './BackButton';
@@ -32,7 +34,8 @@ const cluesFields = [
 ] as const;
 
 const Clues: React.FC<React.PropsWithChildren<unknown>> = () => {
-  const { status, clues, currentQuery } = useAppSelector(selectCluesGenerator);
+  const { status, clues, currentQuery, error } =
+    useAppSelector(selectCluesGenerator);
   const dispatch = useAppDispatch();
   const { answer } = useParams<{ answer: string }>();
   const [CSVLink, setCSVLink] = useState('');
@@ -65,9 +68,15 @@ const Clues: React.FC<React.PropsWithChildren<unknown>> = () => {
   useLayoutEffect(() => {
     dispatch(resetStatus());
     dispatch(selectAnswer(answer));
-    dispatch(fetchClues(answer));
+    const promise = dispatch(fetchClues(answer));
+    return () => promise.abort();
   }, [dispatch, answer]);
 
+  const retry = () => {
+    dispatch(resetStatus());
+    dispatch(fetchClues(answer));
+  };
+
   const renderTooltip = (clue: Clue) => {
     const startIndex = clue.sentence.indexOf(clue.clue);
     if (startIndex === -1) {
@@ -109,6 +118,21 @@ const Clues: React.FC<React.PropsWithChildren<unknown>> = () => {
   );
 
   const render = () => {
+    if (status === CluesGeneratorStatus.error && error !== null) {
+      return (
+        <>
+          <Container bg="gray.100" p={4} borderRadius="md" mb={4}>
+            <Text>{getApiErrorMessage(error)}</Text>
+          </Container>
+          <IconButton
+            aria-label="Try Again"
+            icon={<RepeatIcon />}
+            onClick={retry}
+          />
+        </>
+      );
+    }
+
     if (status !== CluesGeneratorStatus.loaded) {
       return <CircularProgress isIndeterminate color="cyan" />;
     }
@@ -117,8 +141,8 @@ const Clues: React.FC<React.PropsWithChildren<unknown>> = () => {
       return (
         <Container bg="gray.100" p={4} borderRadius="md">
           <Text>
-            No clues found for <strong>{answer}</strong>. Try checking your
-            network connection or tweaking the search parameters.
+            No clues found for <strong>{answer}</strong>. Try tweaking the
+            search parameters.
           </Text>
         </Container>
       );
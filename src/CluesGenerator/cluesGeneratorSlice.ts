@@ -1,6 +1,8 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from '../redux/store';
+import { ApiError } from '../types/api';
 import { Answer, Clue } from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
 import * as fetchUtils from '../utils/fetch';
 
 const FETCH_LIMIT = 200;
@@ -9,6 +11,7 @@ export enum CluesGeneratorStatus {
   initial,
   loading,
   loaded,
+  error,
 }
 
 type CluesGeneratorSlice = {
@@ -17,6 +20,7 @@ type CluesGeneratorSlice = {
   answers: Answer[];
   selectedAnswer: string;
   currentQuery: string;
+  error: ApiError | null;
 };
 
 const initialState: CluesGeneratorSlice = {
@@ -25,19 +29,21 @@ const initialState: CluesGeneratorSlice = {
   answers: [],
   selectedAnswer: '',
   currentQuery: '',
+  error: null,
 };
 
 export const fetchAnswers = createAsyncThunk<
   Answer[],
   string,
-  { state: RootState }
+  { state: RootState; rejectValue: ApiError }
 >(
   'cluesGenerator/fetchAnswers',
-  async (answer, { getState }) => {
+  async (answer, { getState, signal, rejectWithValue }) => {
     const { settings } = getState();
     const fetchParams = { ...settings, answer, limit: FETCH_LIMIT };
-    const answers = await fetchUtils.fetchAnswers(fetchParams);
-    return answers;
+    const result = await fetchUtils.fetchAnswers(fetchParams, signal);
+    if (isApiError(result)) return rejectWithValue(result);
+    return getResultData(result, []);
   },
   {
     condition: (_, { getState }) => {
@@ -51,14 +57,15 @@ export const fetchAnswers = createAsyncThunk<
 export const fetchClues = createAsyncThunk<
   Clue[],
   string,
-  { state: RootState }
+  { state: RootState; rejectValue: ApiError }
 >(
   'cluesGenerator/fetchClues',
-  async (answer, { getState }) => {
+  async (answer, { getState, signal, rejectWithValue }) => {
     const { settings } = getState();
     const fetchParams = { ...settings, answer, limit: FETCH_LIMIT };
-    const clues = await fetchUtils.fetchClues(fetchParams);
-    return clues;
+    const result = await fetchUtils.fetchClues(fetchParams, signal);
+    if (isApiError(result)) return rejectWithValue(result);
+    return getResultData(result, []);
   },
   {
     condition: (_, { getState }) => {
@@ -76,6 +83,7 @@ const cluesGeneratorSlice = createSlice({
   reducers: {
     resetStatus: (state) => {
       state.status = CluesGeneratorStatus.initial;
+      state.error = null;
     },
     selectAnswer: (state, action: PayloadAction<string>) => {
       state.selectedAnswer = action.payload;
@@ -92,6 +100,13 @@ const cluesGeneratorSlice = createSlice({
       .addCase(fetchAnswers.fulfilled, (state, action) => {
         state.status = CluesGeneratorStatus.loaded;
         state.answers = action.payload;
+      })
+      .addCase(fetchAnswers.rejected, (state, action) => {
+        // an aborted request has already been replaced by a newer one
+        if (action.meta.aborted) return;
+
+        state.status = CluesGeneratorStatus.error;
+        state.error = action.payload ?? null;
       });
     builder
       .addCase(fetchClues.pending, (state) => {
@@ -100,6 +115,12 @@ const cluesGeneratorSlice = createSlice({
       .addCase(fetchClues.fulfilled, (state, action) => {
         state.status = CluesGeneratorStatus.loaded;
         state.clues = action.payload;
+      })
+      .addCase(fetchClues.rejected, (state, action) => {
+        if (action.meta.aborted) return;
+
+        state.status = CluesGeneratorStatus.error;
+        state.error = action.payload ?? null;
       });
   },
 });
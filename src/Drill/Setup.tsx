@@ -0,0 +1,82 @@
+import {
+  Button,
+  Flex,
+  Heading,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Select,
+  Text,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { DrillLimit, DrillType } from '../types/drill';
+import { MAX_DRILL_AMOUNT } from '../utils/constants';
+import { selectDrill, startDrill } from './drillSlice';
+
+const Setup: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const drill = useSelector(selectDrill);
+  const dispatch = useAppDispatch();
+  const [type, setType] = useState(drill.type);
+  const [limit, setLimit] = useState(drill.limit);
+  const [amount, setAmount] = useState(drill.amount);
+
+  const start = () => dispatch(startDrill({ type, limit, amount }));
+
+  return (
+    <Flex direction="column" gap={4}>
+      <Heading size="lg">Timed Drill</Heading>
+      <Text>
+        Questions follow the current settings and advance automatically, the
+        drill ends after a number of questions or minutes.
+      </Text>
+      <Select
+        aria-label="Question type"
+        value={type}
+        onChange={(e) => setType(Number(e.currentTarget.value))}
+      >
+        <option value={DrillType.tossups}>Tossups</option>
+        <option value={DrillType.bonuses}>Bonuses</option>
+      </Select>
+      <Flex gap={4}>
+        <NumberInput
+          aria-label="Amount"
+          min={1}
+          max={MAX_DRILL_AMOUNT}
+          value={amount}
+          onChange={(_, value) => !Number.isNaN(value) && setAmount(value)}
+          flex={1}
+        >
+          <NumberInputField />
+          <NumberInputStepper>
+            <NumberIncrementStepper />
+            <NumberDecrementStepper />
+          </NumberInputStepper>
+        </NumberInput>
+        <Select
+          aria-label="Limit"
+          value={limit}
+          onChange={(e) => setLimit(Number(e.currentTarget.value))}
+          flex={1}
+        >
+          <option value={DrillLimit.count}>
+            {type === DrillType.tossups ? 'Tossups' : 'Bonuses'}
+          </option>
+          <option value={DrillLimit.time}>Minutes</option>
+        </Select>
+      </Flex>
+      <Button
+        colorScheme="cyan"
+        onClick={start}
+        disabled={amount < 1 || amount > MAX_DRILL_AMOUNT}
+      >
+        Start Drill
+      </Button>
+    </Flex>
+  );
+};
+
+export default Setup;
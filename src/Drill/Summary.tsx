@@ -0,0 +1,55 @@
+import {
+  Heading,
+  Stat,
+  StatGroup,
+  StatLabel,
+  StatNumber,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { DrillType } from '../types/drill';
+import { getDrillSummary } from '../utils/drill';
+import { formatDuration } from '../utils/number';
+import { selectDrill } from './drillSlice';
+
+const percent = (n: number) => `${(100 * n).toFixed(0)}%`;
+
+/**
+ * End-of-drill summary of points, speed and accuracy.
+ */
+const Summary: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const drill = useSelector(selectDrill);
+  const summary = getDrillSummary(drill);
+  const isTossups = drill.type === DrillType.tossups;
+
+  const stats = [
+    { label: isTossups ? 'Tossups' : 'Bonuses', value: summary.questions },
+    { label: 'Points', value: summary.points },
+    {
+      label: isTossups ? 'PPTU' : 'PPB',
+      value: summary.pointsPerQuestion.toFixed(2),
+    },
+    { label: 'Accuracy', value: percent(summary.accuracy) },
+    { label: 'Per Minute', value: summary.questionsPerMinute.toFixed(1) },
+    ...(summary.buzzPosition !== null
+      ? [{ label: 'Buzz', value: percent(summary.buzzPosition) }]
+      : []),
+  ];
+
+  return (
+    <>
+      <Heading size="md" mb={4}>
+        Drill finished in {formatDuration(drill.finishedAt - drill.startedAt)}
+      </Heading>
+      <StatGroup mb={4} gap={4}>
+        {stats.map(({ label, value }) => (
+          <Stat key={label}>
+            <StatLabel>{label}</StatLabel>
+            <StatNumber>{value}</StatNumber>
+          </Stat>
+        ))}
+      </StatGroup>
+    </>
+  );
+};
+
+export default Summary;
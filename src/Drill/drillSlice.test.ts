@@ -0,0 +1,121 @@
+import {
+  buzz as buzzBonus,
+  ReaderStatus as BonusReaderStatus,
+} from '../BonusReader/bonusReaderSlice';
+import { store } from '../redux/store';
+import {
+  buzz as buzzTossup,
+  ReaderStatus as TossupReaderStatus,
+} from '../TossupReader/tossupReaderSlice';
+import { ApiResultStatus } from '../types/api';
+import { Bonus } from '../types/bonus';
+import { DrillLimit, DrillType } from '../types/drill';
+import { Category } from '../types/questions';
+import { Tossup } from '../types/tossups';
+import * as fetchUtils from '../utils/fetch';
+import {
+  advance,
+  DrillStatus,
+  endDrill,
+  finishDrill,
+  startDrill,
+} from './drillSlice';
+
+jest.mock('../utils/fetch');
+const { fetchTossups, fetchBonuses } = fetchUtils as jest.Mocked<
+  typeof fetchUtils
+>;
+
+const tossup = {
+  text: 'This element is a noble gas.',
+  formattedText: 'This element is a noble gas.',
+  answer: 'neon',
+  formattedAnswer: '<strong>neon</strong>',
+  normalizedAnswer: 'neon',
+  category: Category.Science,
+} as Tossup;
+const bonus = {
+  leadin: 'Name these noble gases.',
+  formattedLeadin: 'Name these noble gases.',
+  category: Category.Science,
+  parts: [],
+} as unknown as Bonus;
+
+// let the question fetched on starting the drill arrive
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Drill', () => {
+  beforeEach(() => {
+    fetchTossups.mockResolvedValue({
+      status: ApiResultStatus.ok,
+      data: [tossup],
+    });
+    fetchBonuses.mockResolvedValue({
+      status: ApiResultStatus.ok,
+      data: [bonus],
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.dispatch(endDrill());
+  });
+
+  test('finishing a drill stops the tossup being answered', async () => {
+    await store.dispatch(
+      startDrill({
+        type: DrillType.tossups,
+        limit: DrillLimit.count,
+        amount: 5,
+      }),
+    );
+    await flush();
+    store.dispatch(buzzTossup());
+    expect(store.getState().tossupReader.status).toBe(
+      TossupReaderStatus.answering,
+    );
+
+    await store.dispatch(finishDrill());
+    expect(store.getState().drill.status).toBe(DrillStatus.finished);
+    expect(store.getState().tossupReader.status).toBe(TossupReaderStatus.idle);
+  });
+
+  test('running out of time stops the tossup being read', async () => {
+    await store.dispatch(
+      startDrill({
+        type: DrillType.tossups,
+        limit: DrillLimit.time,
+        amount: 1,
+      }),
+    );
+    await flush();
+    expect(store.getState().tossupReader.status).toBe(
+      TossupReaderStatus.reading,
+    );
+
+    const { startedAt } = store.getState().drill;
+    jest.spyOn(Date, 'now').mockReturnValue(startedAt + 60 * 1000);
+    await store.dispatch(advance());
+    expect(store.getState().drill.status).toBe(DrillStatus.finished);
+    expect(store.getState().tossupReader.status).toBe(TossupReaderStatus.idle);
+  });
+
+  test('ending a bonus drill stops the bonus being answered', async () => {
+    await store.dispatch(
+      startDrill({
+        type: DrillType.bonuses,
+        limit: DrillLimit.count,
+        amount: 5,
+      }),
+    );
+    await flush();
+    store.dispatch(buzzBonus());
+    expect(store.getState().bonusReader.status).toBe(
+      BonusReaderStatus.answering,
+    );
+
+    await store.dispatch(endDrill());
+    expect(store.getState().drill.status).toBe(DrillStatus.idle);
+    expect(store.getState().bonusReader.status).toBe(BonusReaderStatus.idle);
+  });
+});
@@ -0,0 +1,213 @@
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import {
+  BonusReaderMode,
+  nextBonus,
+  ReaderStatus as BonusReaderStatus,
+  setMode as setBonusReaderMode,
+  stopReading as stopBonusReading,
+} from '../BonusReader/bonusReaderSlice';
+import type { RootState } from '../redux/store';
+import {
+  nextTossup,
+  ReaderStatus as TossupReaderStatus,
+  setMode as setTossupReaderMode,
+  stopReading as stopTossupReading,
+  TossupReaderMode,
+} from '../TossupReader/tossupReaderSlice';
+import { BonusResult } from '../types/bonus';
+import { DrillLimit, DrillType } from '../types/drill';
+import { TossupResult } from '../types/tossups';
+import { isDrillOver } from '../utils/drill';
+
+export enum DrillStatus {
+  idle,
+  running,
+  finished,
+}
+
+type DrillState = {
+  status: DrillStatus;
+  type: DrillType;
+  limit: DrillLimit;
+  // question count or minutes, depending on the limit
+  amount: number;
+  startedAt: number;
+  finishedAt: number;
+  tossupResults: TossupResult[];
+  bonusResults: BonusResult[];
+};
+
+const initialState: DrillState = {
+  status: DrillStatus.idle,
+  type: DrillType.tossups,
+  limit: DrillLimit.count,
+  amount: 20,
+  startedAt: 0,
+  finishedAt: 0,
+  tossupResults: [],
+  bonusResults: [],
+};
+
+const drillSlice = createSlice({
+  name: 'drill',
+  initialState,
+  reducers: {
+    start: {
+      reducer: (
+        state,
+        action: PayloadAction<{
+          type: DrillType;
+          limit: DrillLimit;
+          amount: number;
+          startedAt: number;
+        }>,
+      ) => ({
+        ...initialState,
+        ...action.payload,
+        status: DrillStatus.running,
+      }),
+      prepare: (payload: {
+        type: DrillType;
+        limit: DrillLimit;
+        amount: number;
+      }) => ({ payload: { ...payload, startedAt: Date.now() } }),
+    },
+    recordTossup: (state, action: PayloadAction<TossupResult>) => {
+      state.tossupResults.push(action.payload);
+    },
+    recordBonus: (state, action: PayloadAction<BonusResult>) => {
+      state.bonusResults.push(action.payload);
+    },
+    finish: {
+      reducer: (state, action: PayloadAction<number>) => {
+        if (state.status !== DrillStatus.running) return;
+
+        state.status = DrillStatus.finished;
+        state.finishedAt = action.payload;
+      },
+      prepare: () => ({ payload: Date.now() }),
+    },
+    end: (state) => ({
+      ...initialState,
+      type: state.type,
+      limit: state.limit,
+      amount: state.amount,
+    }),
+  },
+  extraReducers: (builder) => {
+    // switching either reader to another mode abandons the drill
+    builder
+      .addCase(setTossupReaderMode, (state, action) => {
+        if (
+          state.status === DrillStatus.running &&
+          action.payload !== TossupReaderMode.practice
+        ) {
+          state.status = DrillStatus.idle;
+        }
+      })
+      .addCase(setBonusReaderMode, (state, action) => {
+        if (
+          state.status === DrillStatus.running &&
+          action.payload !== BonusReaderMode.practice
+        ) {
+          state.status = DrillStatus.idle;
+        }
+      });
+  },
+});
+
+const { start, finish, end, recordTossup, recordBonus } = drillSlice.actions;
+
+export const startDrill = createAsyncThunk<
+  void,
+  { type: DrillType; limit: DrillLimit; amount: number },
+  { state: RootState }
+>('drill/startDrill', async (params, { dispatch }) => {
+  dispatch(start(params));
+  if (params.type === DrillType.tossups) {
+    dispatch(setTossupReaderMode(TossupReaderMode.practice));
+    dispatch(nextTossup());
+  } else {
+    dispatch(setBonusReaderMode(BonusReaderMode.practice));
+    dispatch(nextBonus());
+  }
+});
+
+/**
+ * Finish the drill and show its summary, the question being read is left
+ * unanswered.
+ */
+export const finishDrill = createAsyncThunk<
+  void,
+  undefined,
+  { state: RootState }
+>(
+  'drill/finishDrill',
+  async (_, { dispatch, getState }) => {
+    dispatch(finish());
+    dispatch(
+      getState().drill.type === DrillType.tossups
+        ? stopTossupReading()
+        : stopBonusReading(),
+    );
+  },
+  {
+    condition: (_, { getState }) =>
+      getState().drill.status === DrillStatus.running,
+  },
+);
+
+/**
+ * Abandon the drill, or leave its summary, keeping the drill settings.
+ */
+export const endDrill = createAsyncThunk<void, undefined, { state: RootState }>(
+  'drill/endDrill',
+  async (_, { dispatch, getState }) => {
+    const { type } = getState().drill;
+    dispatch(end());
+    dispatch(
+      type === DrillType.tossups ? stopTossupReading() : stopBonusReading(),
+    );
+  },
+);
+
+/**
+ * Record the judged question and move on, the drill ends once its question
+ * count or time runs out.
+ */
+export const advance = createAsyncThunk<void, undefined, { state: RootState }>(
+  'drill/advance',
+  async (_, { dispatch, getState }) => {
+    const { drill, tossupReader, bonusReader } = getState();
+    const isTossups = drill.type === DrillType.tossups;
+
+    // a result is only recorded once, even if advancing twice
+    if (
+      isTossups &&
+      tossupReader.status === TossupReaderStatus.judged &&
+      !drill.tossupResults.includes(tossupReader.current.result)
+    ) {
+      dispatch(recordTossup(tossupReader.current.result));
+    } else if (
+      !isTossups &&
+      bonusReader.status === BonusReaderStatus.judged &&
+      !drill.bonusResults.includes(bonusReader.current.result)
+    ) {
+      dispatch(recordBonus(bonusReader.current.result));
+    }
+
+    if (isDrillOver(getState().drill, Date.now())) {
+      dispatch(finishDrill());
+    } else {
+      dispatch(isTossups ? nextTossup() : nextBonus());
+    }
+  },
+  {
+    condition: (_, { getState }) =>
+      getState().drill.status === DrillStatus.running,
+  },
+);
+
+export const selectDrill = (state: RootState) => state.drill;
+
+export default drillSlice.reducer;
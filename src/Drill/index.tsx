@@ -0,0 +1,152 @@
+import { Button, Flex, Heading } from '@chakra-ui/react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import BonusReader from '../BonusReader';
+import {
+  nextBonusPart,
+  ReaderStatus as BonusReaderStatus,
+  selectBonusReader,
+} from '../BonusReader/bonusReaderSlice';
+import Progress from '../components/reader/Progress';
+import { useAppDispatch } from '../redux/hooks';
+import TossupReader from '../TossupReader';
+import {
+  ReaderStatus as TossupReaderStatus,
+  selectTossupReader,
+} from '../TossupReader/tossupReaderSlice';
+import { DrillLimit, DrillType } from '../types/drill';
+import { DRILL_ADVANCE_DELAY } from '../utils/constants';
+import { getDrillProgress, getRemainingTime } from '../utils/drill';
+import { formatDuration } from '../utils/number';
+import {
+  advance,
+  DrillStatus,
+  endDrill,
+  finishDrill,
+  selectDrill,
+} from './drillSlice';
+import Setup from './Setup';
+import Summary from './Summary';
+
+const Drill = () => {
+  const drill = useSelector(selectDrill);
+  const { status: tossupStatus } = useSelector(selectTossupReader);
+  const { status: bonusStatus } = useSelector(selectBonusReader);
+  const dispatch = useAppDispatch();
+  const [now, setNow] = useState(Date.now());
+  const [progress, setProgress] = useState(100);
+  const statusRef = useRef(drill.status);
+  statusRef.current = drill.status;
+
+  const isRunning = drill.status === DrillStatus.running;
+  const isTossups = drill.type === DrillType.tossups;
+  const isJudged = isTossups
+    ? tossupStatus === TossupReaderStatus.judged
+    : bonusStatus === BonusReaderStatus.judged;
+  const isPartJudged =
+    !isTossups && bonusStatus === BonusReaderStatus.partialJudged;
+
+  const next = useCallback(() => dispatch(advance()), [dispatch]);
+  const finish = () => dispatch(finishDrill());
+  const end = () => dispatch(endDrill());
+
+  // abandon the drill when navigating away
+  useEffect(
+    () => () => {
+      if (statusRef.current === DrillStatus.running) dispatch(endDrill());
+    },
+    [dispatch],
+  );
+
+  // tick the clock while the drill is running
+  useEffect(() => {
+    if (!isRunning) return undefined;
+
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(id);
+  }, [isRunning]);
+
+  // count down what's left of the drill
+  useEffect(() => {
+    setProgress(100 * (1 - getDrillProgress(drill, now)));
+  }, [drill, now]);
+
+  // end the drill as soon as time runs out, even mid-question
+  useEffect(() => {
+    if (isRunning && drill.limit === DrillLimit.time && progress <= 0) {
+      dispatch(advance());
+    }
+  }, [dispatch, drill.limit, isRunning, progress]);
+
+  // advance automatically after showing the result for a moment
+  useEffect(() => {
+    if (!isRunning || (!isJudged && !isPartJudged)) return undefined;
+
+    const id = window.setTimeout(
+      () => dispatch(isJudged ? advance() : nextBonusPart()),
+      DRILL_ADVANCE_DELAY,
+    );
+    return () => window.clearTimeout(id);
+  }, [dispatch, isJudged, isPartJudged, isRunning]);
+
+  if (drill.status === DrillStatus.finished) {
+    return (
+      <Flex
+        direction="column"
+        w="100%"
+        maxH="100%"
+        maxW="3xl"
+        overflow="auto"
+        p={1}
+      >
+        <Summary />
+        <Button colorScheme="cyan" onClick={end}>
+          New Drill
+        </Button>
+      </Flex>
+    );
+  }
+
+  if (isRunning) {
+    const label = isTossups ? 'Tossup' : 'Bonus';
+    const count = isTossups
+      ? drill.tossupResults.length
+      : drill.bonusResults.length;
+    return (
+      <Flex direction="column" w="100%" maxH="100%" maxW="3xl" align="center">
+        <Flex justify="space-between" align="center" w="100%" mb={2}>
+          <Heading size="md">
+            {drill.limit === DrillLimit.count
+              ? `${label} ${Math.min(count + 1, drill.amount)} of ${
+                  drill.amount
+                }`
+              : `${formatDuration(getRemainingTime(drill, now))} left`}
+          </Heading>
+          <Button size="sm" onClick={finish}>
+            End Drill
+          </Button>
+        </Flex>
+        <Flex direction="column" w="100%">
+          <Progress
+            progress={progress}
+            setProgress={setProgress}
+            shouldTick={false}
+          />
+        </Flex>
+        {isTossups ? (
+          <TossupReader onNext={next} />
+        ) : (
+          <BonusReader onNext={next} />
+        )}
+      </Flex>
+    );
+  }
+
+  return (
+    <Flex direction="column" w="100%" maxW="md" p={1}>
+      <Setup />
+    </Flex>
+  );
+};
+
+export default Drill;
@@ -1,6 +1,8 @@
 import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
 import type { RootState } from '../redux/store';
+import { ApiError } from '../types/api';
 import { Answer } from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
 import * as fetchUtils from '../utils/fetch';
 import logger from '../utils/logger';
 
@@ -16,6 +18,7 @@ export enum FreqStatus {
   initial, // the initial state when results and page are empty
   idle,
   loading,
+  error,
 }
 
 type FrequencyListState = {
@@ -24,6 +27,7 @@ type FrequencyListState = {
   results: Answer[];
   page: Answer[];
   offset: number;
+  error: ApiError | null;
 };
 
 const initialState: FrequencyListState = {
@@ -32,19 +36,21 @@ const initialState: FrequencyListState = {
   results: [],
   page: [],
   offset: 0,
+  error: null,
 };
 
 export const fetchPages = createAsyncThunk<
   Answer[],
   number,
-  { state: RootState }
+  { state: RootState; rejectValue: ApiError }
 >(
   'frequencyList/fetchPages',
-  async (offset, { getState }) => {
+  async (offset, { getState, signal, rejectWithValue }) => {
     const { settings } = getState();
     const fetchParams = { ...settings, limit: FETCH_LIMIT, offset };
-    const freq = await fetchUtils.fetchFreq(fetchParams);
-    return freq;
+    const result = await fetchUtils.fetchFreq(fetchParams, signal);
+    if (isApiError(result)) return rejectWithValue(result);
+    return getResultData(result, []);
   },
   {
     condition: (_, { getState }) => {
@@ -89,12 +95,14 @@ const frequencyListSlice = createSlice({
       state.offset = 0;
       state.page = [];
       state.results = [];
+      state.error = null;
     },
   },
   extraReducers: (builder) => {
     builder
       .addCase(fetchPages.pending, (state) => {
         state.fetchStatus = FreqFetchStatus.active;
+        state.error = null;
       })
       .addCase(fetchPages.fulfilled, (state, action) => {
         state.results.push(...action.payload);
@@ -104,6 +112,16 @@ const frequencyListSlice = createSlice({
         );
         state.fetchStatus = FreqFetchStatus.idle;
         state.status = FreqStatus.idle;
+      })
+      .addCase(fetchPages.rejected, (state, action) => {
+        state.fetchStatus = FreqFetchStatus.idle;
+        if (action.payload === undefined) return;
+
+        state.error = action.payload;
+        // a failed prefetch can be retried when the page is needed
+        if (state.status === FreqStatus.initial) {
+          state.status = FreqStatus.error;
+        }
       });
     builder
       .addCase(nextPage.pending, (state) => {
@@ -118,6 +136,10 @@ const frequencyListSlice = createSlice({
         state.status = FreqStatus.idle;
       })
       .addCase(nextPage.rejected, (state) => {
+        if (state.error !== null) {
+          state.status = FreqStatus.error;
+          return;
+        }
         state.offset += PAGE_SIZE;
         state.page = state.results.slice(
           state.offset,
@@ -1,8 +1,11 @@
+import { RepeatIcon } from '@chakra-ui/icons';
 import {
   Button,
   Center,
   CircularProgress,
+  Container,
   Flex,
+  IconButton,
   Link,
   Text,
 } from '@chakra-ui/react';
@@ -14,6 +17,7 @@ import { useKeyboardShortcut } from '../hooks/keyboard';
 import { useAppDispatch } from '../redux/hooks';
 import { selectSettings } from '../Settings/settingsSlice';
 import { Answer } from '../types/tossups';
+import { getApiErrorMessage } from '../utils/api';
 import { ROUTES } from '../utils/routes';
 import {
   fetchPages,
@@ -21,6 +25,7 @@ import {
   nextPage,
   PAGE_SIZE,
   prevPage,
+  reset,
   selectFrequencyList,
 } from './frequencyListSlice';
 
@@ -30,7 +35,8 @@ const freqFields = [
 ] as const;
 
 const FrequencyList: React.FC<React.PropsWithChildren<unknown>> = () => {
-  const { page, offset, status } = useSelector(selectFrequencyList);
+  const { page, offset, status, results, error } =
+    useSelector(selectFrequencyList);
   const settings = useSelector(selectSettings);
   const dispatch = useAppDispatch();
 
@@ -53,12 +59,29 @@ const FrequencyList: React.FC<React.PropsWithChildren<unknown>> = () => {
     [dispatch, status, page],
   );
 
+  // retry the first fetch from scratch, otherwise retry the page
+  const retry = () => dispatch(results.length === 0 ? reset() : nextPage());
+
   useKeyboardShortcut('p', prev, () => !settings.isOpen);
   useKeyboardShortcut('n', next, () => !settings.isOpen);
   useKeyboardShortcut('ArrowLeft', prev, () => !settings.isOpen);
   useKeyboardShortcut('ArrowRight', next, () => !settings.isOpen);
 
   const renderTable = () => {
+    if (status === FreqStatus.error && error !== null) {
+      return (
+        <Flex flexDir="column" align="center">
+          <Container bg="gray.100" p={4} borderRadius="md" mb={4}>
+            {getApiErrorMessage(error)}
+          </Container>
+          <IconButton
+            aria-label="Try Again"
+            icon={<RepeatIcon />}
+            onClick={retry}
+          />
+        </Flex>
+      );
+    }
     if (status !== FreqStatus.idle) {
       return <CircularProgress isIndeterminate color="cyan" />;
     }
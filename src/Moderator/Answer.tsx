@@ -0,0 +1,58 @@
+import { Container, Text } from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import ReaderAnswer from '../components/reader/Answer';
+import { ClauseType } from '../types/answerline';
+import { describeClause, parseAnswerline } from '../utils/reader';
+import { selectModerator } from './moderatorSlice';
+
+const Answer: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    current: {
+      row: {
+        tossup: { formattedAnswer, normalizedAnswer },
+      },
+    },
+  } = useSelector(selectModerator);
+
+  const { clauses } = useMemo(
+    () => parseAnswerline(formattedAnswer),
+    [formattedAnswer],
+  );
+  const getDescriptions = (types: ClauseType[]) =>
+    clauses.filter(({ type }) => types.includes(type)).map(describeClause);
+  const acceptableAnswers = getDescriptions([ClauseType.accept]);
+  const promptableAnswers = getDescriptions([
+    ClauseType.prompt,
+    ClauseType.directedPrompt,
+  ]);
+  const rejectedAnswers = getDescriptions([ClauseType.reject]);
+
+  return (
+    <Container
+      maxW="container.md"
+      bg="gray.100"
+      w="100%"
+      mb={4}
+      p={4}
+      borderRadius="md"
+    >
+      <ReaderAnswer text={formattedAnswer} query={normalizedAnswer} />
+      <Text mt={2}>
+        <b>Accept:</b> {acceptableAnswers.join('; ')}
+      </Text>
+      {promptableAnswers.length > 0 && (
+        <Text>
+          <b>Prompt:</b> {promptableAnswers.join('; ')}
+        </Text>
+      )}
+      {rejectedAnswers.length > 0 && (
+        <Text>
+          <b>Reject:</b> {rejectedAnswers.join('; ')}
+        </Text>
+      )}
+    </Container>
+  );
+};
+
+export default Answer;
@@ -0,0 +1,27 @@
+import { useSelector } from 'react-redux';
+import ReaderInfo from '../components/reader/Info';
+import {
+  Category,
+  Difficulty,
+  Subcategory,
+  Tournament,
+} from '../types/questions';
+import { selectModerator } from './moderatorSlice';
+
+const Info: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    current: {
+      row: {
+        tossup: { tournament, category, subcategory, difficulty },
+      },
+    },
+  } = useSelector(selectModerator);
+
+  const text = subcategory
+    ? `${Tournament[tournament]} / ${Difficulty[difficulty]} / ${Category[category]} / ${Subcategory[subcategory]}`
+    : `${Tournament[tournament]} / ${Difficulty[difficulty]} / ${Category[category]}`;
+
+  return <ReaderInfo text={text} />;
+};
+
+export default Info;
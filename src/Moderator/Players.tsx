@@ -0,0 +1,124 @@
+import { CloseIcon } from '@chakra-ui/icons';
+import {
+  Button,
+  ButtonGroup,
+  Flex,
+  IconButton,
+  Input,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Tr,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { TossupScore } from '../types/tossups';
+import {
+  addPlayer,
+  ModeratorStatus,
+  recordBuzz,
+  removePlayer,
+  selectModerator,
+  undoBuzz,
+} from './moderatorSlice';
+
+const outcomes = [
+  { label: '+15', score: TossupScore.power, colorScheme: 'cyan' },
+  { label: '+10', score: TossupScore.ten, colorScheme: 'green' },
+  { label: '-5', score: TossupScore.neg, colorScheme: 'red' },
+];
+
+/**
+ * Roster of players, each with buttons to record the outcome of their buzz.
+ */
+const Players: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    status,
+    players,
+    current: { row, buzzIndex },
+  } = useSelector(selectModerator);
+  const dispatch = useAppDispatch();
+  const [name, setName] = useState('');
+  const [team, setTeam] = useState('');
+
+  const canRecord = status === ModeratorStatus.reading;
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name === '') return;
+
+    dispatch(addPlayer({ name, team: team || name }));
+    setName('');
+  };
+
+  return (
+    <>
+      <Text mb={2} color="gray.500">
+        {buzzIndex === -1
+          ? 'Click a word to mark where the buzz came, otherwise it is recorded at the end.'
+          : `Buzz marked on word ${buzzIndex + 1}.`}
+      </Text>
+      <Table size="sm" mb={2}>
+        <Tbody>
+          {players.map((player) => (
+            <Tr key={player.id}>
+              <Td>
+                {player.name} ({player.team})
+              </Td>
+              <Td isNumeric>
+                <ButtonGroup size="sm" isDisabled={!canRecord}>
+                  {outcomes.map(({ label, score, colorScheme }) => (
+                    <Button
+                      key={label}
+                      colorScheme={colorScheme}
+                      onClick={() =>
+                        dispatch(recordBuzz({ playerId: player.id, score }))
+                      }
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </ButtonGroup>
+                <IconButton
+                  aria-label="Remove player"
+                  icon={<CloseIcon />}
+                  size="sm"
+                  variant="ghost"
+                  ml={2}
+                  onClick={() => dispatch(removePlayer(player.id))}
+                />
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+      <Flex as="form" gap={2} mb={4} onSubmit={add}>
+        <Input
+          aria-label="Player name"
+          placeholder="Player"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+        />
+        <Input
+          aria-label="Team"
+          placeholder="Team (optional)"
+          value={team}
+          onChange={(e) => setTeam(e.currentTarget.value)}
+        />
+        <Button type="submit" flexShrink={0}>
+          Add Player
+        </Button>
+        <Button
+          flexShrink={0}
+          isDisabled={row.buzzes.length === 0}
+          onClick={() => dispatch(undoBuzz())}
+        >
+          Undo Buzz
+        </Button>
+      </Flex>
+    </>
+  );
+};
+
+export default Players;
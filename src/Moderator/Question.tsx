@@ -0,0 +1,84 @@
+import { Badge, Text } from '@chakra-ui/react';
+import { Fragment } from 'react';
+import { useSelector } from 'react-redux';
+import ReaderQuestion from '../components/reader/Question';
+import { useAppDispatch } from '../redux/hooks';
+import { getApiErrorMessage } from '../utils/api';
+import { parseHTMLString } from '../utils/string';
+import {
+  ModeratorStatus,
+  nextTossup,
+  selectModerator,
+  setBuzzIndex,
+} from './moderatorSlice';
+
+/**
+ * The full tossup with the power mark, clicking a word marks the buzz position.
+ */
+const Question = () => {
+  const {
+    current: { tossupWords, powerIndex, buzzIndex, row },
+  } = useSelector(selectModerator);
+  const dispatch = useAppDispatch();
+
+  const buzzedIndices = new Set(row.buzzes.map((buzz) => buzz.buzzIndex));
+  const select = (i: number) =>
+    dispatch(setBuzzIndex(i === buzzIndex ? -1 : i));
+
+  const getBackground = (i: number) => {
+    if (i === buzzIndex) return 'cyan.200';
+    if (buzzedIndices.has(i)) return 'gray.300';
+    return undefined;
+  };
+
+  return (
+    <>
+      {tossupWords.map((w, i) => (
+        // eslint-disable-next-line react/no-array-index-key
+        <Fragment key={`${w.word}${i}`}>
+          <Text
+            as="span"
+            display="inline-block"
+            whiteSpace="break-spaces"
+            cursor="pointer"
+            borderRadius="sm"
+            bg={getBackground(i)}
+            fontWeight={w.bold ? 'bold' : 'normal'}
+            onClick={() => select(i)}
+          >
+            {parseHTMLString(w.word)}{' '}
+          </Text>
+          {i === powerIndex && (
+            <Badge colorScheme="cyan" alignSelf="center" mr={1}>
+              (*)
+            </Badge>
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+};
+
+const Container = () => {
+  const { status, error } = useSelector(selectModerator);
+  const dispatch = useAppDispatch();
+
+  return (
+    <ReaderQuestion
+      showLoading={status === ModeratorStatus.fetching}
+      showEmpty={[ModeratorStatus.empty, ModeratorStatus.error].includes(
+        status,
+      )}
+      emptyMessage={
+        status === ModeratorStatus.error && error !== null
+          ? getApiErrorMessage(error)
+          : 'No tossups found. Try tweaking the search parameters.'
+      }
+      onEmpty={() => dispatch(nextTossup())}
+    >
+      <Question />
+    </ReaderQuestion>
+  );
+};
+
+export default Container;
@@ -0,0 +1,112 @@
+/* eslint-disable react/no-array-index-key */
+import {
+  Box,
+  Heading,
+  Table,
+  Tbody,
+  Td,
+  Tfoot,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { getMatchScores, getTeamBuzzes, getTeams } from '../utils/scoresheet';
+import { selectModerator, selectScoresheet } from './moderatorSlice';
+
+const lineHeaders = ['15', '10', '-5', 'Points'];
+
+/**
+ * Tossup-by-tossup team scores with player and team totals.
+ */
+const Scoresheet: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { players } = useSelector(selectModerator);
+  const rows = useSelector(selectScoresheet);
+
+  const teams = useMemo(() => getTeams(players), [players]);
+  const scores = useMemo(() => getMatchScores(players, rows), [players, rows]);
+
+  const getPlayerName = (id: string) =>
+    players.find((player) => player.id === id)?.name ?? '';
+
+  return (
+    <Box overflow="auto">
+      <Heading size="md" mb={2}>
+        Scoresheet
+      </Heading>
+      <Table size="sm" mb={4}>
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>Answer</Th>
+            {teams.map((team) => (
+              <Th key={team} isNumeric>
+                {team}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map(({ tossup, buzzes }, i) => (
+            <Tr key={i}>
+              <Td>{i + 1}</Td>
+              <Td>{tossup.answer}</Td>
+              {teams.map((team) => {
+                const teamBuzzes = getTeamBuzzes(buzzes, players, team);
+                return (
+                  <Td key={team} isNumeric>
+                    {teamBuzzes
+                      .map(
+                        ({ playerId, score }) =>
+                          `${getPlayerName(playerId)} ${score}`,
+                      )
+                      .join(', ')}
+                  </Td>
+                );
+              })}
+            </Tr>
+          ))}
+        </Tbody>
+        <Tfoot>
+          <Tr>
+            <Th />
+            <Th>Total</Th>
+            {scores.teams.map(({ team, line }) => (
+              <Th key={team} isNumeric>
+                {line.points}
+              </Th>
+            ))}
+          </Tr>
+        </Tfoot>
+      </Table>
+      <Table size="sm" mb={4}>
+        <Thead>
+          <Tr>
+            <Th>Player</Th>
+            <Th>Team</Th>
+            {lineHeaders.map((header) => (
+              <Th key={header} isNumeric>
+                {header}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {scores.players.map(({ player, line }) => (
+            <Tr key={player.id}>
+              <Td>{player.name}</Td>
+              <Td>{player.team}</Td>
+              <Td isNumeric>{line.powers}</Td>
+              <Td isNumeric>{line.tens}</Td>
+              <Td isNumeric>{line.negs}</Td>
+              <Td isNumeric>{line.points}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default Scoresheet;
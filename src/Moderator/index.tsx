@@ -0,0 +1,59 @@
+import { Button, Flex } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { TealButton } from '../components/buttons';
+import { useKeyboardShortcut } from '../hooks/keyboard';
+import { useAppDispatch } from '../redux/hooks';
+import { selectSettings } from '../Settings/settingsSlice';
+import Answer from './Answer';
+import Info from './Info';
+import {
+  ModeratorStatus,
+  newMatch,
+  nextTossup as nextTossupAction,
+  selectModerator,
+} from './moderatorSlice';
+import Players from './Players';
+import Question from './Question';
+import Scoresheet from './Scoresheet';
+
+const Moderator = () => {
+  const { status } = useSelector(selectModerator);
+  const settings = useSelector(selectSettings);
+  const dispatch = useAppDispatch();
+
+  const nextTossup = () => dispatch(nextTossupAction());
+  useKeyboardShortcut('n', nextTossup, (e) => {
+    const isTyping = (e.target as HTMLElement).tagName === 'INPUT';
+    return !settings.isOpen && !isTyping;
+  });
+
+  const isReading = status === ModeratorStatus.reading;
+  const renderInfo = () => isReading && <Info />;
+  const renderAnswer = () => isReading && <Answer />;
+  const renderQuestion = () => status !== ModeratorStatus.idle && <Question />;
+
+  return (
+    <Flex
+      direction="column"
+      w="100%"
+      maxH="100%"
+      maxW="3xl"
+      overflow="auto"
+      p={1}
+    >
+      {renderInfo()}
+      {renderQuestion()}
+      {renderAnswer()}
+      <Players />
+      <Flex justify="center" gap={2} mb={4}>
+        <TealButton onClick={nextTossup}>
+          {status === ModeratorStatus.idle ? 'Start Tossups' : 'Next'}
+        </TealButton>
+        <Button onClick={() => dispatch(newMatch())}>New Match</Button>
+      </Flex>
+      <Scoresheet />
+    </Flex>
+  );
+};
+
+export default Moderator;
@@ -0,0 +1,198 @@
+import {
+  createAsyncThunk,
+  createSelector,
+  createSlice,
+  PayloadAction,
+} from '@reduxjs/toolkit';
+import type { RootState } from '../redux/store';
+import { ApiError } from '../types/api';
+import { MatchPlayer, ScoresheetRow } from '../types/moderator';
+import { Tossup, TossupScore, TossupWord } from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
+import * as fetchUtils from '../utils/fetch';
+import { getPowerIndex, getTossupWords } from '../utils/reader';
+
+export enum ModeratorStatus {
+  idle,
+  fetching,
+  reading,
+  empty,
+  error,
+}
+
+type ModeratorState = {
+  status: ModeratorStatus;
+  tossups: Tossup[];
+  error: ApiError | null;
+  players: MatchPlayer[];
+  scoresheet: ScoresheetRow[];
+  current: {
+    row: ScoresheetRow;
+    tossupWords: TossupWord[];
+    powerIndex: number;
+    buzzIndex: number;
+  };
+};
+
+const initialState: ModeratorState = {
+  status: ModeratorStatus.idle,
+  tossups: [],
+  error: null,
+  players: [],
+  scoresheet: [],
+  current: {
+    row: { tossup: {} as Tossup, buzzes: [] },
+    tossupWords: [],
+    powerIndex: -1,
+    buzzIndex: -1,
+  },
+};
+
+export const fetchTossups = createAsyncThunk<
+  Tossup[],
+  undefined,
+  { state: RootState; rejectValue: ApiError }
+>('moderator/fetchTossups', async (_, { getState, rejectWithValue }) => {
+  const { settings } = getState();
+  const result = await fetchUtils.fetchTossups(settings);
+  if (isApiError(result)) return rejectWithValue(result);
+  return getResultData(result, []);
+});
+
+export const nextTossup = createAsyncThunk<
+  void,
+  undefined,
+  { state: RootState }
+>(
+  'moderator/nextTossup',
+  async (_, { dispatch, getState }) => {
+    const { moderator } = getState();
+    // if tossup cache is low, fetch more
+    // if tossup cache is empty, keep the action pending
+    if (moderator.tossups.length === 0) {
+      await dispatch(fetchTossups()).unwrap();
+    } else if (moderator.tossups.length < 5) {
+      dispatch(fetchTossups());
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { moderator } = getState();
+      return moderator.status !== ModeratorStatus.fetching;
+    },
+  },
+);
+
+const moderatorSlice = createSlice({
+  name: 'moderator',
+  initialState,
+  reducers: {
+    addPlayer: {
+      reducer: (state, action: PayloadAction<MatchPlayer>) => {
+        state.players.push(action.payload);
+      },
+      prepare: (payload: { name: string; team: string }) => ({
+        payload: {
+          ...payload,
+          id: `${Date.now().toString(36)}${Math.random()
+            .toString(36)
+            .slice(2, 8)}`,
+        },
+      }),
+    },
+    removePlayer: (state, action: PayloadAction<string>) => {
+      // players with buzzes stay on the scoresheet
+      const hasBuzzed = [...state.scoresheet, state.current.row].some((row) =>
+        row.buzzes.some(({ playerId }) => playerId === action.payload),
+      );
+      if (!hasBuzzed) {
+        state.players = state.players.filter(({ id }) => id !== action.payload);
+      }
+    },
+    setBuzzIndex: (state, action: PayloadAction<number>) => {
+      state.current.buzzIndex = action.payload;
+    },
+    recordBuzz: (
+      state,
+      action: PayloadAction<{ playerId: string; score: TossupScore }>,
+    ) => {
+      if (state.status !== ModeratorStatus.reading) return;
+
+      // buzzes without a selected word are at the end of the tossup
+      const { buzzIndex, tossupWords } = state.current;
+      state.current.row.buzzes.push({
+        ...action.payload,
+        buzzIndex: buzzIndex === -1 ? tossupWords.length - 1 : buzzIndex,
+      });
+      state.current.buzzIndex = -1;
+    },
+    undoBuzz: (state) => {
+      state.current.row.buzzes.pop();
+    },
+    newMatch: (state) => {
+      state.scoresheet = [];
+      state.current.row.buzzes = [];
+      state.current.buzzIndex = -1;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTossups.fulfilled, (state, action) => {
+        state.tossups.push(...action.payload);
+        state.error = null;
+      })
+      .addCase(fetchTossups.rejected, (state, action) => {
+        state.error = action.payload ?? null;
+      });
+    builder
+      .addCase(nextTossup.pending, (state) => {
+        // record the tossup being moderated before moving on
+        if (state.status === ModeratorStatus.reading) {
+          state.scoresheet.push(state.current.row);
+        }
+        state.status = ModeratorStatus.fetching;
+      })
+      .addCase(nextTossup.fulfilled, (state) => {
+        if (state.tossups.length === 0) {
+          state.status = ModeratorStatus.empty;
+        } else {
+          const [tossup] = state.tossups;
+          state.current = {
+            ...initialState.current,
+            row: { tossup, buzzes: [] },
+            tossupWords: getTossupWords(tossup.formattedText),
+          };
+          state.current.powerIndex = getPowerIndex(state.current.tossupWords);
+          state.tossups.shift();
+          state.status = ModeratorStatus.reading;
+        }
+      })
+      .addCase(nextTossup.rejected, (state) => {
+        state.status = ModeratorStatus.error;
+      });
+  },
+});
+
+export const {
+  addPlayer,
+  removePlayer,
+  setBuzzIndex,
+  recordBuzz,
+  undoBuzz,
+  newMatch,
+} = moderatorSlice.actions;
+
+export const selectModerator = (state: RootState) => state.moderator;
+
+/**
+ * All scored tossups in the match, including the one being moderated.
+ */
+export const selectScoresheet = createSelector(
+  [selectModerator],
+  ({ status, scoresheet, current }) =>
+    status === ModeratorStatus.reading
+      ? [...scoresheet, current.row]
+      : scoresheet,
+);
+
+export default moderatorSlice.reducer;
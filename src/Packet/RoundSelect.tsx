@@ -0,0 +1,93 @@
+import { RepeatIcon } from '@chakra-ui/icons';
+import {
+  Button,
+  Flex,
+  Heading,
+  IconButton,
+  Select,
+  Text,
+} from '@chakra-ui/react';
+import { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { Tournament } from '../types/questions';
+import { getApiErrorMessage } from '../utils/api';
+import {
+  MAX_PACKET_ROUND,
+  TOURNAMENTS,
+  TOURNAMENT_MAP,
+} from '../utils/constants';
+import { PacketStatus, selectPacket, startRound } from './packetSlice';
+
+const rounds = Array.from({ length: MAX_PACKET_ROUND }, (_, i) => i + 1);
+
+const RoundSelect: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    status,
+    tournament: lastTournament,
+    round: lastRound,
+    error,
+  } = useSelector(selectPacket);
+  const dispatch = useAppDispatch();
+  const [tournament, setTournament] = useState(
+    lastTournament ?? TOURNAMENTS[0],
+  );
+  const [round, setRound] = useState(lastRound);
+
+  const start = () => dispatch(startRound({ tournament, round }));
+
+  return (
+    <Flex direction="column" gap={4}>
+      <Heading size="lg">Play a Round</Heading>
+      <Text>Read a packet in order, each tossup is followed by its bonus.</Text>
+      <Select
+        aria-label="Tournament"
+        value={tournament}
+        onChange={(e) =>
+          setTournament(Number(e.currentTarget.value) as Tournament)
+        }
+      >
+        {TOURNAMENTS.map((key) => (
+          <option key={key} value={key}>
+            {TOURNAMENT_MAP[key].name}
+          </option>
+        ))}
+      </Select>
+      <Select
+        aria-label="Round"
+        value={round}
+        onChange={(e) => setRound(Number(e.currentTarget.value))}
+      >
+        {rounds.map((r) => (
+          <option key={r} value={r}>
+            Round {r}
+          </option>
+        ))}
+      </Select>
+      {status === PacketStatus.empty && (
+        <Text color="red.500">
+          No questions found for this round. Try picking another round.
+        </Text>
+      )}
+      {status === PacketStatus.error && error !== null && (
+        <Flex align="center" gap={2}>
+          <Text color="red.500">{getApiErrorMessage(error)}</Text>
+          <IconButton
+            aria-label="Try Again"
+            icon={<RepeatIcon />}
+            onClick={start}
+          />
+        </Flex>
+      )}
+      <Button
+        colorScheme="cyan"
+        onClick={start}
+        isLoading={status === PacketStatus.fetching}
+      >
+        Start Round
+      </Button>
+    </Flex>
+  );
+};
+
+export default RoundSelect;
@@ -0,0 +1,90 @@
+/* eslint-disable react/no-array-index-key */
+import {
+  Heading,
+  Stat,
+  StatGroup,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { TOURNAMENT_MAP } from '../utils/constants';
+import { getBonusResultsScore, getTossupResultsScore } from '../utils/history';
+import { ratio } from '../utils/number';
+import { selectPacket } from './packetSlice';
+
+const headers = ['#', 'Answer', 'Tossup', 'Bonus', 'Total'];
+
+/**
+ * End-of-round scoresheet with a running total.
+ */
+const Scoresheet: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { tournament, round, tossupResults, bonusResults } =
+    useSelector(selectPacket);
+
+  const tossupPoints = getTossupResultsScore(tossupResults);
+  const bonusPoints = getBonusResultsScore(bonusResults);
+  const stats = [
+    { label: 'Points', value: tossupPoints + bonusPoints },
+    {
+      label: 'PPTU',
+      value: ratio(tossupPoints, tossupResults.length).toFixed(2),
+    },
+    { label: 'PPB', value: ratio(bonusPoints, bonusResults.length).toFixed(2) },
+  ];
+
+  let total = 0;
+  const rows = tossupResults.map((result, i) => {
+    const bonusScore = bonusResults[i]?.score;
+    total += result.score + (bonusScore ?? 0);
+    return {
+      answer: result.tossup.answer,
+      tossupScore: result.score,
+      bonusScore,
+      total,
+    };
+  });
+
+  return (
+    <>
+      <Heading size="md" mb={4}>
+        {tournament !== null && TOURNAMENT_MAP[tournament].name}, Round {round}
+      </Heading>
+      <StatGroup mb={4}>
+        {stats.map(({ label, value }) => (
+          <Stat key={label}>
+            <StatLabel>{label}</StatLabel>
+            <StatNumber>{value}</StatNumber>
+          </Stat>
+        ))}
+      </StatGroup>
+      <Table size="sm" mb={4}>
+        <Thead>
+          <Tr>
+            {headers.map((header) => (
+              <Th key={header}>{header}</Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map((row, i) => (
+            <Tr key={i}>
+              <Td>{i + 1}</Td>
+              <Td>{row.answer}</Td>
+              <Td>{row.tossupScore}</Td>
+              <Td>{row.bonusScore ?? '-'}</Td>
+              <Td>{row.total}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </>
+  );
+};
+
+export default Scoresheet;
@@ -0,0 +1,82 @@
+import { Button, Flex, Heading } from '@chakra-ui/react';
+import { useCallback, useEffect, useRef } from 'react';
+import { useSelector } from 'react-redux';
+import BonusReader from '../BonusReader';
+import { useAppDispatch } from '../redux/hooks';
+import TossupReader from '../TossupReader';
+import { advance, endRound, PacketStatus, selectPacket } from './packetSlice';
+import RoundSelect from './RoundSelect';
+import Scoresheet from './Scoresheet';
+
+const Packet = () => {
+  const { status, index, tossupCount } = useSelector(selectPacket);
+  const dispatch = useAppDispatch();
+  const statusRef = useRef(status);
+  statusRef.current = status;
+
+  const next = useCallback(() => dispatch(advance()), [dispatch]);
+  const end = () => dispatch(endRound());
+
+  // abandon the round when navigating away
+  useEffect(
+    () => () => {
+      if (
+        [
+          PacketStatus.tossup,
+          PacketStatus.bonus,
+          PacketStatus.finished,
+        ].includes(statusRef.current)
+      ) {
+        dispatch(endRound());
+      }
+    },
+    [dispatch],
+  );
+
+  if (status === PacketStatus.finished) {
+    return (
+      <Flex
+        direction="column"
+        w="100%"
+        maxH="100%"
+        maxW="3xl"
+        overflow="auto"
+        p={1}
+      >
+        <Scoresheet />
+        <Button colorScheme="cyan" onClick={end}>
+          New Round
+        </Button>
+      </Flex>
+    );
+  }
+
+  if (status === PacketStatus.tossup || status === PacketStatus.bonus) {
+    const isTossup = status === PacketStatus.tossup;
+    return (
+      <Flex direction="column" w="100%" maxH="100%" maxW="3xl" align="center">
+        <Flex justify="space-between" align="center" w="100%" mb={4}>
+          <Heading size="md">
+            {isTossup ? 'Tossup' : 'Bonus'} {index + 1} of {tossupCount}
+          </Heading>
+          <Button size="sm" onClick={end}>
+            End Round
+          </Button>
+        </Flex>
+        {isTossup ? (
+          <TossupReader onNext={next} />
+        ) : (
+          <BonusReader onNext={next} />
+        )}
+      </Flex>
+    );
+  }
+
+  return (
+    <Flex direction="column" w="100%" maxW="md" p={1}>
+      <RoundSelect />
+    </Flex>
+  );
+};
+
+export default Packet;
@@ -0,0 +1,206 @@
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import {
+  BonusReaderMode,
+  loadPacket as loadBonuses,
+  nextBonus,
+  setMode as setBonusReaderMode,
+} from '../BonusReader/bonusReaderSlice';
+import type { AppDispatch, RootState } from '../redux/store';
+import {
+  loadPacket as loadTossups,
+  nextTossup,
+  setMode as setTossupReaderMode,
+  TossupReaderMode,
+} from '../TossupReader/tossupReaderSlice';
+import { ApiError } from '../types/api';
+import { Bonus, BonusResult } from '../types/bonus';
+import { Tournament } from '../types/questions';
+import { Tossup, TossupResult } from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
+import { PACKET_TOSSUP_COUNT } from '../utils/constants';
+import * as fetchUtils from '../utils/fetch';
+
+export enum PacketStatus {
+  idle,
+  fetching,
+  tossup,
+  bonus,
+  finished,
+  empty,
+  error,
+}
+
+type PacketState = {
+  status: PacketStatus;
+  tournament: Tournament | null;
+  round: number;
+  tossupCount: number;
+  bonusCount: number;
+  // 0-indexed position of the current tossup/bonus pair
+  index: number;
+  tossupResults: TossupResult[];
+  bonusResults: BonusResult[];
+  error: ApiError | null;
+};
+
+const initialState: PacketState = {
+  status: PacketStatus.idle,
+  tournament: null,
+  round: 1,
+  tossupCount: 0,
+  bonusCount: 0,
+  index: 0,
+  tossupResults: [],
+  bonusResults: [],
+  error: null,
+};
+
+/**
+ * Sort questions into packet order, questions are returned in no particular
+ * order by the API.
+ */
+const sortByNumber = <T extends { number?: number }>(questions: T[]) =>
+  [...questions].sort(
+    (a, b) => (a.number ?? Infinity) - (b.number ?? Infinity),
+  );
+
+export const startRound = createAsyncThunk<
+  { tossups: Tossup[]; bonuses: Bonus[] },
+  { tournament: Tournament; round: number },
+  { state: RootState; rejectValue: ApiError }
+>(
+  'packet/startRound',
+  async ({ tournament, round }, { dispatch, rejectWithValue }) => {
+    const params = {
+      tournaments: [tournament],
+      fromYear: 0,
+      round,
+      limit: PACKET_TOSSUP_COUNT,
+    };
+    const [tossups, bonuses] = await Promise.all([
+      fetchUtils.fetchTossups(params),
+      fetchUtils.fetchBonuses(params),
+    ]);
+    if (isApiError(tossups)) return rejectWithValue(tossups);
+    if (isApiError(bonuses)) return rejectWithValue(bonuses);
+
+    const packet = {
+      tossups: sortByNumber(getResultData(tossups, [])).slice(
+        0,
+        PACKET_TOSSUP_COUNT,
+      ),
+      bonuses: sortByNumber(getResultData(bonuses, [])).slice(
+        0,
+        PACKET_TOSSUP_COUNT,
+      ),
+    };
+
+    // hand the packet over to the readers
+    if (packet.tossups.length > 0) {
+      dispatch(loadTossups(packet.tossups));
+      dispatch(loadBonuses(packet.bonuses));
+      dispatch(nextTossup());
+    }
+    return packet;
+  },
+);
+
+const packetSlice = createSlice({
+  name: 'packet',
+  initialState,
+  reducers: {
+    recordTossup: (state, action: PayloadAction<TossupResult>) => {
+      state.tossupResults.push(action.payload);
+      if (state.index < state.bonusCount) {
+        state.status = PacketStatus.bonus;
+      } else if (state.index + 1 < state.tossupCount) {
+        state.index += 1;
+      } else {
+        state.status = PacketStatus.finished;
+      }
+    },
+    recordBonus: (state, action: PayloadAction<BonusResult>) => {
+      state.bonusResults.push(action.payload);
+      if (state.index + 1 < state.tossupCount) {
+        state.index += 1;
+        state.status = PacketStatus.tossup;
+      } else {
+        state.status = PacketStatus.finished;
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(startRound.pending, (state, action) => ({
+        ...initialState,
+        status: PacketStatus.fetching,
+        tournament: action.meta.arg.tournament,
+        round: action.meta.arg.round,
+      }))
+      .addCase(startRound.fulfilled, (state, action) => {
+        const { tossups, bonuses } = action.payload;
+        state.tossupCount = tossups.length;
+        state.bonusCount = bonuses.length;
+        state.status =
+          tossups.length > 0 ? PacketStatus.tossup : PacketStatus.empty;
+      })
+      .addCase(startRound.rejected, (state, action) => {
+        state.status = PacketStatus.error;
+        state.error = action.payload ?? null;
+      });
+    // leaving packet mode in either reader ends the round
+    builder
+      .addCase(setTossupReaderMode, (state, action) => {
+        if (action.payload !== TossupReaderMode.packet) return initialState;
+        return state;
+      })
+      .addCase(setBonusReaderMode, (state, action) => {
+        if (action.payload !== BonusReaderMode.packet) return initialState;
+        return state;
+      });
+  },
+});
+
+const { recordTossup, recordBonus } = packetSlice.actions;
+
+/**
+ * Move to the next step of the round: each tossup is followed by its bonus.
+ */
+export const advance = createAsyncThunk<void, undefined, { state: RootState }>(
+  'packet/advance',
+  async (_, { dispatch, getState }) => {
+    const { packet, tossupReader, bonusReader } = getState();
+
+    if (packet.status === PacketStatus.tossup) {
+      dispatch(recordTossup(tossupReader.current.result));
+      if (packet.index < packet.bonusCount) {
+        dispatch(nextBonus());
+        return;
+      }
+    } else {
+      dispatch(recordBonus(bonusReader.current.result));
+    }
+
+    if (packet.index + 1 < packet.tossupCount) {
+      dispatch(nextTossup());
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { packet } = getState();
+      return [PacketStatus.tossup, PacketStatus.bonus].includes(packet.status);
+    },
+  },
+);
+
+/**
+ * End the round, returning both readers to practice mode.
+ */
+export const endRound = () => (dispatch: AppDispatch) => {
+  dispatch(setTossupReaderMode(TossupReaderMode.practice));
+  dispatch(setBonusReaderMode(BonusReaderMode.practice));
+};
+
+export const selectPacket = (state: RootState) => state.packet;
+
+export default packetSlice.reducer;
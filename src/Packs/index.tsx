@@ -0,0 +1,175 @@
+import {
+  Button,
+  ButtonGroup,
+  Flex,
+  Heading,
+  Input,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { PackParams } from '../types/packs';
+import { getApiErrorMessage } from '../utils/api';
+import {
+  CATEGORY_MAP,
+  DIFFICULTY_MAP,
+  SUBCATEGORY_MAP,
+  TOURNAMENT_MAP,
+} from '../utils/constants';
+import { formatBytes } from '../utils/number';
+import {
+  deletePack,
+  downloadPack,
+  loadPacks,
+  PacksStatus,
+  refreshPack,
+  selectPacks,
+} from './packsSlice';
+
+const headers = [
+  'Pack',
+  'Filters',
+  'Tossups',
+  'Bonuses',
+  'Size',
+  'Downloaded',
+  '',
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe a pack's filters, e.g. 'Literature, Science / Hard College / 2015+'.
+ */
+const describeParams = ({
+  categories,
+  subcategories,
+  difficulties,
+  tournaments,
+  fromYear,
+}: PackParams) =>
+  [
+    categories.map((c) => CATEGORY_MAP[c].name).join(', '),
+    subcategories.map((s) => SUBCATEGORY_MAP[s].name).join(', '),
+    difficulties.map((d) => DIFFICULTY_MAP[d].name).join(', '),
+    tournaments.map((t) => TOURNAMENT_MAP[t].name).join(', '),
+    `${fromYear}+`,
+  ]
+    .filter(Boolean)
+    .join(' / ');
+
+const describeAge = (downloadedAt: number) => {
+  const days = Math.floor((Date.now() - downloadedAt) / DAY);
+  if (days === 0) return 'Today';
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+};
+
+const Packs: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { status, packs, error } = useSelector(selectPacks);
+  const dispatch = useAppDispatch();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    dispatch(loadPacks());
+  }, [dispatch]);
+
+  const isDownloading = status === PacksStatus.downloading;
+  const download = (e: React.FormEvent) => {
+    e.preventDefault();
+    dispatch(downloadPack({ name: name || new Date().toLocaleString() }));
+    setName('');
+  };
+
+  return (
+    <Flex
+      direction="column"
+      w="100%"
+      maxH="100%"
+      maxW="5xl"
+      overflow="auto"
+      p={1}
+    >
+      <Heading size="lg" mb={2}>
+        Offline Packs
+      </Heading>
+      <Text mb={4}>
+        Packs hold questions matching your current settings, the readers use
+        them whenever QBHub can&apos;t be reached.
+      </Text>
+      <Flex as="form" gap={2} mb={2} onSubmit={download}>
+        <Input
+          aria-label="Pack name"
+          placeholder="Pack name (optional)"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+        />
+        <Button
+          type="submit"
+          colorScheme="cyan"
+          flexShrink={0}
+          isLoading={isDownloading}
+        >
+          Download Pack
+        </Button>
+      </Flex>
+      {status === PacksStatus.error && (
+        <Text color="red.500" mb={2}>
+          {error !== null
+            ? getApiErrorMessage(error)
+            : 'The pack could not be saved.'}
+        </Text>
+      )}
+      <Table size="sm" mt={2}>
+        <Thead>
+          <Tr>
+            {headers.map((header) => (
+              <Th key={header}>{header}</Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {packs.map((pack) => (
+            <Tr key={pack.id}>
+              <Td>{pack.name}</Td>
+              <Td>{describeParams(pack.params)}</Td>
+              <Td isNumeric>{pack.tossupCount}</Td>
+              <Td isNumeric>{pack.bonusCount}</Td>
+              <Td>{formatBytes(pack.size)}</Td>
+              <Td>{describeAge(pack.downloadedAt)}</Td>
+              <Td>
+                <ButtonGroup size="sm">
+                  <Button
+                    isDisabled={isDownloading}
+                    onClick={() => dispatch(refreshPack(pack))}
+                  >
+                    Refresh
+                  </Button>
+                  <Button
+                    colorScheme="red"
+                    onClick={() => dispatch(deletePack(pack.id))}
+                  >
+                    Delete
+                  </Button>
+                </ButtonGroup>
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+      {packs.length === 0 && status !== PacksStatus.loading && (
+        <Text mt={4} color="gray.500">
+          No packs downloaded yet.
+        </Text>
+      )}
+    </Flex>
+  );
+};
+
+export default Packs;
@@ -0,0 +1,132 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import type { RootState } from '../redux/store';
+import { selectQuestionSettings } from '../Settings/settingsSlice';
+import { ApiError } from '../types/api';
+import { PackInfo } from '../types/packs';
+import { getResultData, isApiError } from '../utils/api';
+import * as fetchUtils from '../utils/fetch';
+import {
+  createPack,
+  deletePack as deletePackFromDB,
+  getPackInfo,
+  restorePacks,
+  savePack,
+} from '../utils/packs';
+
+export enum PacksStatus {
+  idle,
+  loading,
+  downloading,
+  error,
+}
+
+type PacksState = {
+  status: PacksStatus;
+  packs: PackInfo[];
+  error: ApiError | null;
+};
+
+const initialState: PacksState = {
+  status: PacksStatus.idle,
+  packs: [],
+  error: null,
+};
+
+export const loadPacks = createAsyncThunk('packs/loadPacks', async () => {
+  const packs = await restorePacks();
+  return packs.map(getPackInfo);
+});
+
+export const downloadPack = createAsyncThunk<
+  PackInfo,
+  { name: string },
+  { state: RootState; rejectValue: ApiError }
+>('packs/downloadPack', async ({ name }, { getState, rejectWithValue }) => {
+  const params = selectQuestionSettings(getState());
+  const result = await fetchUtils.fetchPack(params);
+  if (isApiError(result)) return rejectWithValue(result);
+
+  const { tossups, bonuses } = getResultData(result, {
+    tossups: [],
+    bonuses: [],
+  });
+  const pack = createPack(name, params, tossups, bonuses);
+  await savePack(pack);
+  return getPackInfo(pack);
+});
+
+export const refreshPack = createAsyncThunk<
+  PackInfo,
+  PackInfo,
+  { rejectValue: ApiError }
+>('packs/refreshPack', async ({ id, name, params }, { rejectWithValue }) => {
+  const result = await fetchUtils.fetchPack(params);
+  if (isApiError(result)) return rejectWithValue(result);
+
+  const { tossups, bonuses } = getResultData(result, {
+    tossups: [],
+    bonuses: [],
+  });
+  const pack = createPack(name, params, tossups, bonuses, id);
+  await savePack(pack);
+  return getPackInfo(pack);
+});
+
+export const deletePack = createAsyncThunk(
+  'packs/deletePack',
+  async (id: string) => {
+    await deletePackFromDB(id);
+    return id;
+  },
+);
+
+const packsSlice = createSlice({
+  name: 'packs',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadPacks.pending, (state) => {
+        state.status = PacksStatus.loading;
+      })
+      .addCase(loadPacks.fulfilled, (state, action) => {
+        state.status = PacksStatus.idle;
+        state.packs = action.payload;
+      });
+    builder
+      .addCase(downloadPack.pending, (state) => {
+        state.status = PacksStatus.downloading;
+        state.error = null;
+      })
+      .addCase(downloadPack.fulfilled, (state, action) => {
+        state.status = PacksStatus.idle;
+        state.packs.push(action.payload);
+      })
+      .addCase(downloadPack.rejected, (state, action) => {
+        state.status = PacksStatus.error;
+        state.error = action.payload ?? null;
+      });
+    builder
+      .addCase(refreshPack.pending, (state) => {
+        state.status = PacksStatus.downloading;
+        state.error = null;
+      })
+      .addCase(refreshPack.fulfilled, (state, action) => {
+        state.status = PacksStatus.idle;
+        state.packs = state.packs.map((pack) =>
+          pack.id === action.payload.id ? action.payload : pack,
+        );
+      })
+      .addCase(refreshPack.rejected, (state, action) => {
+        state.status = PacksStatus.error;
+        state.error = action.payload ?? null;
+      });
+    builder.addCase(deletePack.fulfilled, (state, action) => {
+      state.packs = state.packs.filter(({ id }) => id !== action.payload);
+    });
+  },
+});
+
+export const selectPacks = (state: RootState) => state.packs;
+
+export default packsSlice.reducer;
@@ -0,0 +1,89 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState, Subscription } from '../redux/store';
+import { ReviewItem } from '../types/review';
+import { TossupResult } from '../types/tossups';
+import {
+  getRecallQuality,
+  getTossupKey,
+  restoreReviewQueue,
+  saveReviewQueue,
+  schedule,
+} from '../utils/review';
+
+type ReviewState = {
+  items: ReviewItem[];
+};
+
+const initialState: ReviewState = {
+  items: restoreReviewQueue(),
+};
+
+const reviewSlice = createSlice({
+  name: 'review',
+  initialState,
+  reducers: {
+    reviewTossup: (
+      state,
+      action: PayloadAction<{ result: TossupResult; now: number }>,
+    ) => {
+      const {
+        result: { tossup, score, isCorrect, judgedAt },
+        now,
+      } = action.payload;
+      const key = getTossupKey(tossup);
+      const quality = getRecallQuality(score);
+      const item = state.items.find((i) => i.key === key);
+
+      // a re-judgement (e.g. an override) replaces the schedule of the original judgement
+      if (item !== undefined && item.judgedAt === judgedAt) {
+        if (item.previous === null && isCorrect) {
+          state.items = state.items.filter((i) => i.key !== key);
+        } else {
+          Object.assign(
+            item,
+            schedule(item.previous ?? undefined, quality, now),
+          );
+        }
+        return;
+      }
+
+      if (item !== undefined) {
+        const { repetitions, interval, easeFactor, due } = item;
+        item.previous = { repetitions, interval, easeFactor, due };
+        item.judgedAt = judgedAt;
+        Object.assign(item, schedule(item, quality, now));
+      } else if (!isCorrect) {
+        // only missed tossups enter the queue
+        state.items.push({
+          key,
+          tossup,
+          judgedAt,
+          previous: null,
+          ...schedule(undefined, quality, now),
+        });
+      }
+    },
+  },
+});
+const { reviewTossup } = reviewSlice.actions;
+
+export const selectReview = (state: RootState) => state.review;
+const selectReviewItems = (state: RootState) => state.review.items;
+const selectCurrentTossupResult = (state: RootState) =>
+  state.tossupReader.current.result;
+
+export const reviewItemsSubscription: Subscription<ReviewItem[]> = [
+  selectReviewItems,
+  (items: ReviewItem[]) => saveReviewQueue(items),
+];
+export const tossupResultSubscription: Subscription<TossupResult> = [
+  selectCurrentTossupResult,
+  (result: TossupResult, dispatch: AppDispatch) => {
+    // the current result is empty until the first tossup is judged
+    if (result.tossup === undefined) return;
+
+    dispatch(reviewTossup({ result, now: Date.now() }));
+  },
+];
+
+export default reviewSlice.reducer;
@@ -0,0 +1,28 @@
+import { Container } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import ReaderAnswer from '../components/reader/Answer';
+import { selectRoom } from './roomSlice';
+
+const Answer: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { tossup } = useSelector(selectRoom);
+
+  if (tossup === null) return null;
+
+  return (
+    <Container
+      maxW="container.md"
+      bg="gray.100"
+      w="100%"
+      mb={4}
+      p={4}
+      borderRadius="md"
+    >
+      <ReaderAnswer
+        text={tossup.formattedAnswer}
+        query={tossup.normalizedAnswer}
+      />
+    </Container>
+  );
+};
+
+export default Answer;
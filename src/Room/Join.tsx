@@ -0,0 +1,75 @@
+import { Button, Flex, Heading, Input, Text } from '@chakra-ui/react';
+import { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { ROOM_SERVER_PORT } from '../utils/constants';
+import { RoomStatus, selectRoom } from './roomSlice';
+
+type JoinProps = {
+  join: (params: {
+    url: string;
+    room: string;
+    name: string;
+    team: string;
+  }) => void;
+};
+
+const Join: React.FC<React.PropsWithChildren<JoinProps>> = ({ join }) => {
+  const { status, error } = useSelector(selectRoom);
+  const [url, setUrl] = useState(
+    `ws://${window.location.hostname}:${ROOM_SERVER_PORT}`,
+  );
+  const [room, setRoom] = useState('');
+  const [name, setName] = useState('');
+  const [team, setTeam] = useState('');
+
+  const canJoin = url !== '' && room !== '' && name !== '';
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canJoin) join({ url, room, name, team: team || name });
+  };
+
+  return (
+    <Flex as="form" direction="column" gap={4} onSubmit={submit}>
+      <Heading size="lg">Join a Room</Heading>
+      <Text>
+        The first player to join a room hosts it, picking tossups with their
+        settings and judging everyone&apos;s answers.
+      </Text>
+      <Input
+        aria-label="Server"
+        placeholder="Server"
+        value={url}
+        onChange={(e) => setUrl(e.currentTarget.value)}
+      />
+      <Input
+        aria-label="Room"
+        placeholder="Room"
+        value={room}
+        onChange={(e) => setRoom(e.currentTarget.value)}
+      />
+      <Input
+        aria-label="Name"
+        placeholder="Name"
+        value={name}
+        onChange={(e) => setName(e.currentTarget.value)}
+      />
+      <Input
+        aria-label="Team"
+        placeholder="Team (optional)"
+        value={team}
+        onChange={(e) => setTeam(e.currentTarget.value)}
+      />
+      {error !== '' && <Text color="red.500">{error}</Text>}
+      <Button
+        type="submit"
+        colorScheme="cyan"
+        isDisabled={!canJoin}
+        isLoading={status === RoomStatus.connecting}
+      >
+        Join
+      </Button>
+    </Flex>
+  );
+};
+
+export default Join;
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useSelector } from 'react-redux';
+import { elementScrollIntoView } from 'seamless-scroll-polyfill';
+import ReaderQuestion from '../components/reader/Question';
+import { getTossupWords, renderQuestion } from '../utils/reader';
+import { selectRoom } from './roomSlice';
+
+const Question = () => {
+  const visibleRef = useRef<HTMLParagraphElement>(null);
+  const { words, buzz, tossup } = useSelector(selectRoom);
+
+  // only the words read so far are known until the tossup is revealed
+  const tossupWords = useMemo(
+    () => (tossup === null ? words : getTossupWords(tossup.formattedText)),
+    [tossup, words],
+  );
+
+  useEffect(() => {
+    if (visibleRef.current === null) return;
+
+    elementScrollIntoView(visibleRef.current, { block: 'center' });
+  }, [words.length, buzz]);
+
+  const renderedQuestion = useMemo(
+    () =>
+      renderQuestion(
+        tossupWords,
+        {
+          visible: tossup === null ? words.length - 1 : tossupWords.length,
+          buzz: buzz?.buzzIndex,
+        },
+        visibleRef,
+      ),
+    [buzz, tossup, tossupWords, words.length],
+  );
+
+  return <>{renderedQuestion}</>;
+};
+
+const Container = () => (
+  <ReaderQuestion
+    showLoading={false}
+    showEmpty={false}
+    emptyMessage=""
+    onEmpty={() => {}}
+  >
+    <Question />
+  </ReaderQuestion>
+);
+
+export default Container;
@@ -0,0 +1,34 @@
+import { useSelector } from 'react-redux';
+import ReaderResult from '../components/reader/Result';
+import { TossupScore } from '../types/tossups';
+import { RoomStatus, selectRoom } from './roomSlice';
+
+const Result: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { status, players, buzz, rulings } = useSelector(selectRoom);
+
+  const getName = (id: string) =>
+    players.find((player) => player.id === id)?.name ?? 'Someone';
+
+  let text;
+  if (status === RoomStatus.answering && buzz !== null) {
+    text = `${getName(buzz.playerId)} buzzed!`;
+  } else if (status === RoomStatus.prompting && buzz !== null) {
+    text = `Prompt for ${getName(buzz.playerId)}!`;
+  } else if (rulings.length > 0) {
+    const { playerId, answer, score } = rulings[rulings.length - 1];
+    let outcome;
+    if (score === TossupScore.power) outcome = 'Power!';
+    else if (score === TossupScore.ten) outcome = 'Ten!';
+    else if (score === TossupScore.neg) outcome = 'Neg.';
+    else outcome = 'Incorrect.';
+    text = `${getName(playerId)}: "${answer}" - ${outcome}`;
+  } else if (status === RoomStatus.ended) {
+    text = 'Dead tossup.';
+  } else {
+    return null;
+  }
+
+  return <ReaderResult text={text} />;
+};
+
+export default Result;
@@ -0,0 +1,63 @@
+import { Table, Tbody, Td, Th, Thead, Tr } from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { selectRoom } from './roomSlice';
+
+/**
+ * Per-player scores grouped by team, with team totals.
+ */
+const Scoreboard: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { players, playerId, hostId } = useSelector(selectRoom);
+
+  const teams = useMemo(() => {
+    const teamNames = [...new Set(players.map(({ team }) => team))];
+    return teamNames
+      .map((name) => {
+        const members = players.filter(({ team }) => team === name);
+        const score = members.reduce((total, p) => total + p.score, 0);
+        return { name, members, score };
+      })
+      .sort((a, b) => b.score - a.score);
+  }, [players]);
+
+  const renderName = (id: string, name: string) => {
+    const tags = [
+      id === playerId ? 'you' : '',
+      id === hostId ? 'host' : '',
+    ].filter(Boolean);
+    return tags.length > 0 ? `${name} (${tags.join(', ')})` : name;
+  };
+
+  return (
+    <Table size="sm" mb={4}>
+      <Thead>
+        <Tr>
+          <Th>Team</Th>
+          <Th>Player</Th>
+          <Th isNumeric>Score</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {teams.flatMap(({ name, members, score }) => [
+          <Tr key={`team-${name}`} fontWeight="bold">
+            <Td>{name}</Td>
+            <Td />
+            <Td isNumeric>{score}</Td>
+          </Tr>,
+          ...members.map((player) => (
+            <Tr
+              key={player.id}
+              color={player.lockedOut ? 'gray.400' : undefined}
+            >
+              <Td />
+              <Td>{renderName(player.id, player.name)}</Td>
+              <Td isNumeric>{player.score}</Td>
+            </Tr>
+          )),
+        ])}
+      </Tbody>
+    </Table>
+  );
+};
+
+export default Scoreboard;
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import ReaderUserInput from '../components/reader/UserInput';
+import { useKeyboardShortcut } from '../hooks/keyboard';
+import { selectSettings } from '../Settings/settingsSlice';
+import { ClientMessage } from '../types/multiplayer';
+import {
+  RoomStatus,
+  selectIsBuzzing,
+  selectIsHost,
+  selectRoom,
+} from './roomSlice';
+
+type UserInputProps = {
+  progress: number;
+  send: (message: ClientMessage) => void;
+  nextTossup: () => void;
+};
+
+const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
+  progress,
+  send,
+  nextTossup,
+}) => {
+  const { status, players, playerId } = useSelector(selectRoom);
+  const settings = useSelector(selectSettings);
+  const isHost = useSelector(selectIsHost);
+  const isBuzzing = useSelector(selectIsBuzzing);
+  const [input, setInput] = useState('');
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isLockedOut =
+    players.find(({ id }) => id === playerId)?.lockedOut ?? false;
+  const canBuzz = status === RoomStatus.reading && !isLockedOut;
+  const canStart =
+    isHost && [RoomStatus.waiting, RoomStatus.ended].includes(status);
+
+  // clear input on every buzz and prompt
+  useEffect(() => {
+    if (isBuzzing) {
+      setInput('');
+      setHasSubmitted(false);
+    }
+  }, [isBuzzing, status]);
+
+  const buzz = useCallback(() => {
+    if (canBuzz) send({ type: 'buzz' });
+  }, [canBuzz, send]);
+  const submit = useCallback(() => {
+    if (!isBuzzing || hasSubmitted) return;
+
+    setHasSubmitted(true);
+    send({ type: 'answer', answer: input });
+  }, [hasSubmitted, input, isBuzzing, send]);
+  const next = useCallback(() => {
+    if (canStart) nextTossup();
+  }, [canStart, nextTossup]);
+
+  let text;
+  let onClick;
+  if (isBuzzing) {
+    text = 'Submit';
+    onClick = submit;
+  } else if (canBuzz) {
+    text = 'Buzz';
+    onClick = buzz;
+  } else if (canStart) {
+    text = 'Next';
+    onClick = next;
+  } else {
+    text = '...';
+    onClick = () => {};
+  }
+
+  // add keyboard shortcuts
+  useKeyboardShortcut('n', next, () => !settings.isOpen && !isBuzzing);
+  useKeyboardShortcut(' ', buzz, () => !settings.isOpen);
+  useKeyboardShortcut('Enter', submit, () => !settings.isOpen);
+
+  return (
+    <ReaderUserInput
+      input={input}
+      setInput={setInput}
+      placeholder={status === RoomStatus.prompting ? 'Prompt:' : 'Answer:'}
+      text={text}
+      onClick={onClick}
+      submit={submit}
+      shouldSubmit={isBuzzing && progress === 0}
+      disabled={!isBuzzing || hasSubmitted}
+      borderColor="gray.300"
+      showBorder={false}
+      showInput={status !== RoomStatus.waiting}
+      inputRef={inputRef}
+    />
+  );
+};
+
+export default UserInput;
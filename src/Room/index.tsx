@@ -0,0 +1,69 @@
+import { Button, Flex, Heading } from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import Progress from '../components/reader/Progress';
+import { useRoomConnection } from '../hooks/room';
+import Answer from './Answer';
+import Join from './Join';
+import Question from './Question';
+import Result from './Result';
+import { RoomStatus, selectIsBuzzing, selectRoom } from './roomSlice';
+import Scoreboard from './Scoreboard';
+import UserInput from './UserInput';
+
+const Room = () => {
+  const [progress, setProgress] = useState(100);
+  const { status, room } = useSelector(selectRoom);
+  const isBuzzing = useSelector(selectIsBuzzing);
+  const { join, leave, send, nextTossup } = useRoomConnection();
+
+  // reset progress on every buzz and prompt
+  useEffect(() => {
+    if (isBuzzing) setProgress(100);
+  }, [isBuzzing, status]);
+
+  if ([RoomStatus.disconnected, RoomStatus.connecting].includes(status)) {
+    return (
+      <Flex direction="column" w="100%" maxW="md" p={1}>
+        <Join join={join} />
+      </Flex>
+    );
+  }
+
+  const renderAnswer = () => status === RoomStatus.ended && <Answer />;
+  const renderQuestion = () => status !== RoomStatus.waiting && <Question />;
+  const renderProgress = () =>
+    isBuzzing && (
+      <Progress
+        progress={progress}
+        setProgress={setProgress}
+        shouldTick={isBuzzing}
+      />
+    );
+
+  return (
+    <Flex
+      direction="column"
+      w="100%"
+      maxH="100%"
+      maxW="3xl"
+      overflow="auto"
+      p={1}
+    >
+      <Flex justify="space-between" align="center" mb={4}>
+        <Heading size="md">Room: {room}</Heading>
+        <Button size="sm" onClick={leave}>
+          Leave
+        </Button>
+      </Flex>
+      {renderAnswer()}
+      {renderQuestion()}
+      <Result />
+      {renderProgress()}
+      <UserInput progress={progress} send={send} nextTossup={nextTossup} />
+      <Scoreboard />
+    </Flex>
+  );
+};
+
+export default Room;
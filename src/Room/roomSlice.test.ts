@@ -0,0 +1,101 @@
+import type { RootState } from '../redux/store';
+import { ServerMessage } from '../types/multiplayer';
+import { Tossup } from '../types/tossups';
+import reducer, {
+  connect,
+  disconnect,
+  receive,
+  RoomStatus,
+  selectIsBuzzing,
+  selectIsHost,
+} from './roomSlice';
+
+const messages: ServerMessage[] = [
+  { type: 'joined', playerId: 'player', room: 'lan' },
+  {
+    type: 'players',
+    hostId: 'host',
+    players: [
+      { id: 'host', name: 'Host', team: 'A', score: 0, lockedOut: false },
+      { id: 'player', name: 'Player', team: 'B', score: 0, lockedOut: false },
+    ],
+  },
+  { type: 'tossupStarted', wordCount: 3 },
+  { type: 'word', index: 0, word: { word: 'This', bold: true } },
+];
+
+const play = (...rest: ServerMessage[]) =>
+  [...messages, ...rest].reduce(
+    (state, message) => reducer(state, receive(message)),
+    reducer(undefined, connect()),
+  );
+
+const asRoot = (room: ReturnType<typeof play>) => ({ room } as RootState);
+
+describe('Room', () => {
+  test('joining a room waits for the host to start a tossup', () => {
+    const state = play();
+    expect(state.status).toBe(RoomStatus.reading);
+    expect(state.words).toEqual([{ word: 'This', bold: true }]);
+    expect(selectIsHost(asRoot(state))).toBe(false);
+  });
+
+  test('a buzz is answered and ruled', () => {
+    const buzzed = play({ type: 'buzzed', playerId: 'player', buzzIndex: 0 });
+    expect(buzzed.status).toBe(RoomStatus.answering);
+    expect(selectIsBuzzing(asRoot(buzzed))).toBe(true);
+
+    const prompted = reducer(
+      buzzed,
+      receive({ type: 'prompted', playerId: 'player', answer: 'gas' }),
+    );
+    expect(prompted.status).toBe(RoomStatus.prompting);
+    expect(selectIsBuzzing(asRoot(prompted))).toBe(true);
+
+    const ruled = reducer(
+      prompted,
+      receive({
+        type: 'ruled',
+        playerId: 'player',
+        answer: 'neon',
+        isCorrect: true,
+        score: 15,
+      }),
+    );
+    expect(ruled.rulings).toEqual([
+      { playerId: 'player', answer: 'neon', isCorrect: true, score: 15 },
+    ]);
+    expect(selectIsBuzzing(asRoot(ruled))).toBe(false);
+
+    const ended = reducer(
+      ruled,
+      receive({ type: 'tossupEnded', tossup: { answer: 'Neon' } as Tossup }),
+    );
+    expect(ended.status).toBe(RoomStatus.ended);
+    expect(ended.tossup?.answer).toBe('Neon');
+  });
+
+  test('an answer timeout resumes reading for everyone else', () => {
+    const state = play(
+      { type: 'buzzed', playerId: 'host', buzzIndex: 0 },
+      {
+        type: 'ruled',
+        playerId: 'host',
+        answer: '',
+        isCorrect: false,
+        score: -5,
+      },
+      { type: 'word', index: 1, word: { word: 'element', bold: true } },
+    );
+    expect(state.status).toBe(RoomStatus.reading);
+    expect(state.rulings[0].score).toBe(-5);
+    expect(state.words).toHaveLength(2);
+  });
+
+  test('failing to connect is reported', () => {
+    expect(reducer(reducer(undefined, connect()), disconnect()).error).toBe(
+      'Could not connect.',
+    );
+    expect(reducer(play(), disconnect()).error).toBe('');
+  });
+});
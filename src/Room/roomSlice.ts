@@ -0,0 +1,129 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from '../redux/store';
+import { Player, ServerMessage } from '../types/multiplayer';
+import { Tossup, TossupWord } from '../types/tossups';
+
+export enum RoomStatus {
+  disconnected,
+  connecting,
+  waiting,
+  reading,
+  answering,
+  prompting,
+  ended,
+}
+
+type Ruling = {
+  playerId: string;
+  answer: string;
+  isCorrect: boolean;
+  score: number;
+};
+
+type RoomState = {
+  status: RoomStatus;
+  room: string;
+  playerId: string;
+  hostId: string;
+  players: Player[];
+  words: TossupWord[];
+  wordCount: number;
+  buzz: { playerId: string; buzzIndex: number } | null;
+  rulings: Ruling[];
+  tossup: Tossup | null;
+  error: string;
+};
+
+const initialState: RoomState = {
+  status: RoomStatus.disconnected,
+  room: '',
+  playerId: '',
+  hostId: '',
+  players: [],
+  words: [],
+  wordCount: 0,
+  buzz: null,
+  rulings: [],
+  tossup: null,
+  error: '',
+};
+
+const roomSlice = createSlice({
+  name: 'room',
+  initialState,
+  reducers: {
+    connect: (state) => {
+      state.status = RoomStatus.connecting;
+      state.error = '';
+    },
+    disconnect: (state) => ({
+      ...initialState,
+      error: state.status === RoomStatus.connecting ? 'Could not connect.' : '',
+    }),
+    receive: (state, action: PayloadAction<ServerMessage>) => {
+      const message = action.payload;
+      switch (message.type) {
+        case 'joined':
+          state.status = RoomStatus.waiting;
+          state.room = message.room;
+          state.playerId = message.playerId;
+          break;
+        case 'players':
+          state.hostId = message.hostId;
+          state.players = message.players;
+          break;
+        case 'tossupStarted':
+          state.status = RoomStatus.reading;
+          state.words = [];
+          state.wordCount = message.wordCount;
+          state.buzz = null;
+          state.rulings = [];
+          state.tossup = null;
+          break;
+        case 'word':
+          state.words[message.index] = message.word;
+          break;
+        case 'buzzed':
+          state.status = RoomStatus.answering;
+          state.buzz = {
+            playerId: message.playerId,
+            buzzIndex: message.buzzIndex,
+          };
+          break;
+        case 'prompted':
+          state.status = RoomStatus.prompting;
+          break;
+        case 'ruled':
+          state.status = RoomStatus.reading;
+          state.rulings.push({
+            playerId: message.playerId,
+            answer: message.answer,
+            isCorrect: message.isCorrect,
+            score: message.score,
+          });
+          break;
+        case 'tossupEnded':
+          state.status = RoomStatus.ended;
+          state.tossup = message.tossup;
+          break;
+        case 'error':
+          state.error = message.message;
+          break;
+        default:
+      }
+    },
+  },
+});
+
+export const { connect, disconnect, receive } = roomSlice.actions;
+
+export const selectRoom = (state: RootState) => state.room;
+
+export const selectIsHost = (state: RootState) =>
+  state.room.playerId !== '' && state.room.playerId === state.room.hostId;
+
+export const selectIsBuzzing = (state: RootState) =>
+  [RoomStatus.answering, RoomStatus.prompting].includes(state.room.status) &&
+  state.room.buzz?.playerId === state.room.playerId;
+
+export default roomSlice.reducer;
@@ -0,0 +1,74 @@
+import { Button, Flex, Input, Select } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { Session } from '../types/sessions';
+import {
+  deleteSession,
+  newSession,
+  renameSession,
+  resumeSession,
+  selectSessions,
+} from './sessionsSlice';
+
+type SessionControlsProps = {
+  viewedSession: Session;
+  setViewedId: (id: string) => void;
+  getResultCount: (session: Session) => number;
+};
+
+/**
+ * Controls for browsing, resuming and deleting saved sessions.
+ */
+const SessionControls: React.FC<
+  React.PropsWithChildren<SessionControlsProps>
+> = ({ viewedSession, setViewedId, getResultCount }) => {
+  const { currentId, sessions } = useSelector(selectSessions);
+  const dispatch = useAppDispatch();
+
+  const isCurrent = viewedSession.id === currentId;
+  const sortedSessions = [...sessions].sort(
+    (a, b) => b.createdAt - a.createdAt,
+  );
+
+  const resume = () => dispatch(resumeSession(viewedSession));
+  const startNew = () => dispatch(newSession());
+  const remove = () => {
+    dispatch(deleteSession(viewedSession.id));
+    setViewedId(currentId);
+  };
+  const rename = (name: string) =>
+    dispatch(renameSession({ id: viewedSession.id, name }));
+
+  return (
+    <Flex wrap="wrap" gap={2} mb={4}>
+      <Select
+        aria-label="Session"
+        value={viewedSession.id}
+        onChange={(e) => setViewedId(e.currentTarget.value)}
+        flex="2 0 200px"
+      >
+        {sortedSessions.map((session) => (
+          <option key={session.id} value={session.id}>
+            {session.name} ({getResultCount(session)})
+            {session.id === currentId ? ' - current' : ''}
+          </option>
+        ))}
+      </Select>
+      <Input
+        aria-label="Session name"
+        value={viewedSession.name}
+        onChange={(e) => rename(e.currentTarget.value)}
+        flex="1 0 150px"
+      />
+      <Button onClick={resume} isDisabled={isCurrent}>
+        Resume
+      </Button>
+      <Button onClick={startNew}>New Session</Button>
+      <Button colorScheme="red" onClick={remove} isDisabled={isCurrent}>
+        Delete
+      </Button>
+    </Flex>
+  );
+};
+
+export default SessionControls;
@@ -0,0 +1,75 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState, Subscription } from '../redux/store';
+import { BonusResult } from '../types/bonus';
+import { Session } from '../types/sessions';
+import { TossupResult } from '../types/tossups';
+import { createSession, restoreHistory, saveHistory } from '../utils/history';
+
+type SessionsState = {
+  currentId: string;
+  sessions: Session[];
+};
+
+const initialState: SessionsState = restoreHistory();
+
+const sessionsSlice = createSlice({
+  name: 'sessions',
+  initialState,
+  reducers: {
+    newSession: {
+      reducer: (state, action: PayloadAction<Session>) => {
+        state.sessions.push(action.payload);
+        state.currentId = action.payload.id;
+      },
+      prepare: (name?: string) => ({ payload: createSession(name) }),
+    },
+    resumeSession: (state, action: PayloadAction<Session>) => {
+      state.currentId = action.payload.id;
+    },
+    deleteSession: (state, action: PayloadAction<string>) => {
+      // the current session can't be deleted, a new session has to be started first
+      if (action.payload === state.currentId) return;
+
+      state.sessions = state.sessions.filter(({ id }) => id !== action.payload);
+    },
+    renameSession: (
+      state,
+      action: PayloadAction<{ id: string; name: string }>,
+    ) => {
+      const session = state.sessions.find(({ id }) => id === action.payload.id);
+      if (session !== undefined) session.name = action.payload.name;
+    },
+    updateTossupResults: (state, action: PayloadAction<TossupResult[]>) => {
+      const session = state.sessions.find(({ id }) => id === state.currentId);
+      if (session !== undefined) session.tossupResults = action.payload;
+    },
+    updateBonusResults: (state, action: PayloadAction<BonusResult[]>) => {
+      const session = state.sessions.find(({ id }) => id === state.currentId);
+      if (session !== undefined) session.bonusResults = action.payload;
+    },
+  },
+});
+export const { newSession, resumeSession, deleteSession, renameSession } =
+  sessionsSlice.actions;
+const { updateTossupResults, updateBonusResults } = sessionsSlice.actions;
+
+export const selectSessions = (state: RootState) => state.sessions;
+const selectTossupResults = (state: RootState) => state.tossupReader.results;
+const selectBonusResults = (state: RootState) => state.bonusReader.results;
+
+export const sessionsSubscription: Subscription<SessionsState> = [
+  selectSessions,
+  ({ currentId, sessions }: SessionsState) => saveHistory(currentId, sessions),
+];
+export const tossupResultsSubscription: Subscription<TossupResult[]> = [
+  selectTossupResults,
+  (results: TossupResult[], dispatch: AppDispatch) =>
+    dispatch(updateTossupResults(results)),
+];
+export const bonusResultsSubscription: Subscription<BonusResult[]> = [
+  selectBonusResults,
+  (results: BonusResult[], dispatch: AppDispatch) =>
+    dispatch(updateBonusResults(results)),
+];
+
+export default sessionsSlice.reducer;
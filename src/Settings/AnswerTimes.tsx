@@ -0,0 +1,54 @@
+import { Box, Flex, Heading, Select, SimpleGrid, Text } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { AnswerTimer } from '../types/settings';
+import { ANSWER_TIMER_DATA, ANSWER_TIME_OPTIONS } from '../utils/constants';
+import { validateAnswerTime } from '../utils/settings';
+import { selectAnswerTimes, updateAnswerTime } from './settingsSlice';
+
+const AnswerTimes = () => {
+  const answerTimes = useSelector(selectAnswerTimes);
+  const dispatch = useAppDispatch();
+
+  const onTimeChange =
+    (timer: AnswerTimer) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const time = Number(e.currentTarget.value);
+      if (!validateAnswerTime(time)) return;
+
+      dispatch(updateAnswerTime({ timer, time }));
+    };
+
+  return (
+    <Box mb={4}>
+      <Heading size="sm" mb={2} color="gray.800">
+        Answer Timers
+      </Heading>
+      <SimpleGrid columns={[1, 3]} spacing={2}>
+        {ANSWER_TIMER_DATA.map(({ key, name }) => (
+          <Flex key={key} direction="column">
+            <Text fontSize="sm" color="gray.600" mb={1}>
+              {name}
+            </Text>
+            <Select
+              aria-label={`${name} answer time`}
+              size="sm"
+              value={answerTimes[key]}
+              onChange={onTimeChange(key)}
+            >
+              {/* keep a time restored from storage selectable */}
+              {[...new Set([...ANSWER_TIME_OPTIONS, answerTimes[key]])]
+                .sort((a, b) => a - b)
+                .map((time) => (
+                  <option key={time} value={time}>
+                    {time === 0 ? 'Untimed' : `${time} seconds`}
+                  </option>
+                ))}
+            </Select>
+          </Flex>
+        ))}
+      </SimpleGrid>
+    </Box>
+  );
+};
+
+export default AnswerTimes;
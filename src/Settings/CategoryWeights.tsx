@@ -0,0 +1,80 @@
+import {
+  Box,
+  Button,
+  Flex,
+  Heading,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  SimpleGrid,
+  Text,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { Category } from '../types/questions';
+import {
+  CATEGORIES,
+  CATEGORY_MAP,
+  MAX_CATEGORY_WEIGHT,
+  MIN_CATEGORY_WEIGHT,
+} from '../utils/constants';
+import { validateCategoryWeight } from '../utils/settings';
+import {
+  resetCategoryWeights,
+  selectCategoryWeights,
+  updateCategoryWeight,
+} from './settingsSlice';
+
+const CategoryWeights = () => {
+  const categoryWeights = useSelector(selectCategoryWeights);
+  const dispatch = useAppDispatch();
+
+  const onWeightChange =
+    (category: Category) => (_: string, weight: number) => {
+      if (!validateCategoryWeight(weight)) return;
+
+      dispatch(updateCategoryWeight({ category, weight }));
+    };
+
+  return (
+    <Box mb={4}>
+      <Flex align="center" justify="space-between" mb={2}>
+        <Heading size="sm" color="gray.800">
+          Category Weights
+        </Heading>
+        <Button size="sm" onClick={() => dispatch(resetCategoryWeights())}>
+          ACF Distribution
+        </Button>
+      </Flex>
+      <Text fontSize="sm" color="gray.600" mb={2}>
+        Mixed practice follows these weights across the selected categories.
+      </Text>
+      <SimpleGrid columns={2} spacingX={4} spacingY={2}>
+        {CATEGORIES.map((key) => (
+          <Flex key={key} align="center" justify="space-between">
+            <Text mr={2}>{CATEGORY_MAP[key].name}</Text>
+            <NumberInput
+              aria-label={`${CATEGORY_MAP[key].name} weight`}
+              size="sm"
+              w={20}
+              min={MIN_CATEGORY_WEIGHT}
+              max={MAX_CATEGORY_WEIGHT}
+              value={categoryWeights[key]}
+              onChange={onWeightChange(key)}
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+          </Flex>
+        ))}
+      </SimpleGrid>
+    </Box>
+  );
+};
+
+export default CategoryWeights;
@@ -0,0 +1,89 @@
+import {
+  Flex,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Select,
+  SimpleGrid,
+  Text,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { PacingSettings, ReadingPacing } from '../types/settings';
+import { MAX_READING_PAUSE, READING_PACING_DATA } from '../utils/constants';
+import { validateReadingPause } from '../utils/settings';
+import { selectPacingSettings, updatePacingSettings } from './settingsSlice';
+
+const pauses: { key: keyof Omit<PacingSettings, 'pacing'>; name: string }[] = [
+  { key: 'commaPause', name: 'Comma' },
+  { key: 'periodPause', name: 'Period' },
+  { key: 'powerPause', name: 'Power' },
+];
+
+const Pacing = () => {
+  const pacing = useSelector(selectPacingSettings);
+  const dispatch = useAppDispatch();
+  const isNatural = pacing.pacing === ReadingPacing.natural;
+
+  const onPacingChange = (e: React.ChangeEvent<HTMLSelectElement>) =>
+    dispatch(updatePacingSettings({ pacing: Number(e.currentTarget.value) }));
+  const onPauseChange =
+    (key: keyof Omit<PacingSettings, 'pacing'>) =>
+    (_: string, pause: number) => {
+      if (!validateReadingPause(pause)) return;
+
+      dispatch(updatePacingSettings({ [key]: pause }));
+    };
+
+  return (
+    <>
+      <Select
+        aria-label="reading pacing"
+        value={pacing.pacing}
+        onChange={onPacingChange}
+        mt={2}
+        mb={2}
+      >
+        {READING_PACING_DATA.map(({ key, name }) => (
+          <option key={key} value={key}>
+            {name}
+          </option>
+        ))}
+      </Select>
+      {isNatural && (
+        <>
+          <Text fontSize="sm" color="gray.600" mb={2}>
+            Longer words take longer to read, pauses are in milliseconds.
+          </Text>
+          <SimpleGrid columns={[1, 3]} spacing={2}>
+            {pauses.map(({ key, name }) => (
+              <Flex key={key} align="center" justify="space-between">
+                <Text mr={2}>{name}</Text>
+                <NumberInput
+                  aria-label={`${name} pause`}
+                  size="sm"
+                  w={24}
+                  min={0}
+                  max={MAX_READING_PAUSE}
+                  step={50}
+                  value={pacing[key]}
+                  onChange={onPauseChange(key)}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </Flex>
+            ))}
+          </SimpleGrid>
+        </>
+      )}
+    </>
+  );
+};
+
+export default Pacing;
@@ -0,0 +1,142 @@
+import { DeleteIcon, DownloadIcon } from '@chakra-ui/icons';
+import {
+  Box,
+  Button,
+  Flex,
+  Heading,
+  IconButton,
+  Input,
+  Select,
+  Text,
+} from '@chakra-ui/react';
+import { useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { FileDownloadButton } from '../components/buttons';
+import { useAppDispatch } from '../redux/hooks';
+import { toJSON } from '../utils/array';
+import { isPresetApplied, parsePresets } from '../utils/settings';
+import {
+  applyPreset,
+  deletePreset,
+  importPresets,
+  savePreset,
+  selectSettings,
+} from './settingsSlice';
+
+const Presets = () => {
+  const settings = useSelector(selectSettings);
+  const { presets } = settings;
+  const dispatch = useAppDispatch();
+  const [name, setName] = useState('');
+  const [JSONLink, setJSONLink] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const appliedPreset = presets.find((preset) =>
+    isPresetApplied(preset, settings),
+  );
+
+  useEffect(() => {
+    const url = toJSON(presets);
+    setJSONLink(url);
+
+    return () => {
+      URL.revokeObjectURL(url);
+    };
+  }, [presets]);
+
+  const onPresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find(({ id }) => id === e.currentTarget.value);
+    if (preset !== undefined) dispatch(applyPreset(preset));
+  };
+
+  const save = () => {
+    const trimmedName = name.trim();
+    if (trimmedName.length === 0) return;
+
+    dispatch(savePreset(trimmedName));
+    setName('');
+  };
+
+  const onImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = '';
+    if (file === undefined) return;
+
+    const importedPresets = parsePresets(await file.text());
+    if (importedPresets === null) {
+      setImportError(`${file.name} is not a valid presets file.`);
+      return;
+    }
+    setImportError('');
+    dispatch(importPresets(importedPresets));
+  };
+
+  return (
+    <Box mb={4}>
+      <Heading size="sm" mb={2} color="gray.800">
+        Presets
+      </Heading>
+      <Flex mb={2}>
+        <Select
+          aria-label="preset"
+          placeholder={presets.length > 0 ? 'Custom' : 'No saved presets'}
+          value={appliedPreset?.id ?? ''}
+          onChange={onPresetChange}
+          mr={2}
+        >
+          {presets.map(({ id, name: presetName }) => (
+            <option key={id} value={id}>
+              {presetName}
+            </option>
+          ))}
+        </Select>
+        <IconButton
+          aria-label="Delete preset"
+          icon={<DeleteIcon />}
+          disabled={appliedPreset === undefined}
+          onClick={() =>
+            appliedPreset !== undefined &&
+            dispatch(deletePreset(appliedPreset.id))
+          }
+        />
+      </Flex>
+      <Flex mb={2}>
+        <Input
+          placeholder="Preset name"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          mr={2}
+        />
+        <Button onClick={save} disabled={name.trim().length === 0}>
+          Save
+        </Button>
+      </Flex>
+      <Flex>
+        <FileDownloadButton
+          href={JSONLink}
+          download="presets"
+          label="Export"
+          icon={<DownloadIcon />}
+          mr={2}
+        />
+        <Button onClick={() => fileInputRef.current?.click()}>Import</Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json"
+          onChange={onImport}
+          hidden
+        />
+      </Flex>
+      {importError.length > 0 && (
+        <Text color="red.500" mt={2}>
+          {importError}
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default Presets;
@@ -0,0 +1,120 @@
+import {
+  Box,
+  Flex,
+  FormControl,
+  FormLabel,
+  Heading,
+  Select,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Switch,
+  Text,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useSpeechVoices } from '../hooks/reader';
+import { useAppDispatch } from '../redux/hooks';
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE } from '../utils/constants';
+import { validateSpeechRate } from '../utils/settings';
+import { isSpeechSupported } from '../utils/speech';
+import { selectSpeechSettings, updateSpeechSettings } from './settingsSlice';
+
+const Speech = () => {
+  const { isEnabled, voice, rate, hideText } =
+    useSelector(selectSpeechSettings);
+  const voices = useSpeechVoices();
+  const dispatch = useAppDispatch();
+
+  if (!isSpeechSupported()) {
+    return (
+      <Box mb={4}>
+        <Heading size="sm" mb={2} color="gray.800">
+          Read Aloud
+        </Heading>
+        <Text fontSize="sm" color="gray.600">
+          This browser does not support speech synthesis.
+        </Text>
+      </Box>
+    );
+  }
+
+  const onRateChange = (value: number) => {
+    if (!validateSpeechRate(value)) return;
+
+    dispatch(updateSpeechSettings({ rate: value }));
+  };
+
+  return (
+    <Box mb={4}>
+      <Heading size="sm" mb={2} color="gray.800">
+        Read Aloud
+      </Heading>
+      <FormControl display="flex" alignItems="center" mb={2}>
+        <FormLabel htmlFor="speech-enabled" mb={0} flexGrow={1}>
+          Read questions aloud
+        </FormLabel>
+        <Switch
+          id="speech-enabled"
+          colorScheme="cyan"
+          isChecked={isEnabled}
+          onChange={(e) =>
+            dispatch(updateSpeechSettings({ isEnabled: e.target.checked }))
+          }
+        />
+      </FormControl>
+      <FormControl display="flex" alignItems="center" mb={2}>
+        <FormLabel htmlFor="speech-hide-text" mb={0} flexGrow={1}>
+          Hide text while listening
+        </FormLabel>
+        <Switch
+          id="speech-hide-text"
+          colorScheme="cyan"
+          isChecked={hideText}
+          isDisabled={!isEnabled}
+          onChange={(e) =>
+            dispatch(updateSpeechSettings({ hideText: e.target.checked }))
+          }
+        />
+      </FormControl>
+      <Select
+        aria-label="speech voice"
+        value={voice}
+        isDisabled={!isEnabled}
+        onChange={(e) =>
+          dispatch(updateSpeechSettings({ voice: e.currentTarget.value }))
+        }
+        mb={2}
+      >
+        <option value="">Default Voice</option>
+        {voices.map(({ voiceURI, name, lang }) => (
+          <option key={voiceURI} value={voiceURI}>
+            {`${name} (${lang})`}
+          </option>
+        ))}
+      </Select>
+      <Flex align="center" gap={4}>
+        <Slider
+          aria-label="speech rate"
+          colorScheme="cyan"
+          min={MIN_SPEECH_RATE}
+          max={MAX_SPEECH_RATE}
+          step={0.1}
+          value={rate}
+          isDisabled={!isEnabled}
+          onChange={onRateChange}
+        >
+          <SliderTrack>
+            <SliderFilledTrack />
+          </SliderTrack>
+          <SliderThumb bg="gray.500" />
+        </Slider>
+        <Box w={10} textAlign="right">
+          {`${rate.toFixed(1)}x`}
+        </Box>
+      </Flex>
+    </Box>
+  );
+};
+
+export default Speech;
@@ -0,0 +1,44 @@
+import {
+  Box,
+  FormControl,
+  FormLabel,
+  Heading,
+  Switch,
+  Text,
+} from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { isRecognitionSupported } from '../utils/recognition';
+import { selectVoiceInput, updateVoiceInput } from './settingsSlice';
+
+const VoiceInput = () => {
+  const voiceInput = useSelector(selectVoiceInput);
+  const dispatch = useAppDispatch();
+
+  return (
+    <Box mb={4}>
+      <Heading size="sm" mb={2} color="gray.800">
+        Voice Answers
+      </Heading>
+      {isRecognitionSupported() ? (
+        <FormControl display="flex" alignItems="center">
+          <FormLabel htmlFor="voice-input" mb={0} flexGrow={1}>
+            Listen for spoken answers after buzzing
+          </FormLabel>
+          <Switch
+            id="voice-input"
+            colorScheme="cyan"
+            isChecked={voiceInput}
+            onChange={(e) => dispatch(updateVoiceInput(e.target.checked))}
+          />
+        </FormControl>
+      ) : (
+        <Text fontSize="sm" color="gray.600">
+          This browser does not support speech recognition.
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default VoiceInput;
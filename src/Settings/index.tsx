@@ -10,14 +10,17 @@ import {
   ModalFooter,
   ModalHeader,
   ModalOverlay,
+  Select as ChakraSelect,
   Slider,
   SliderFilledTrack,
   SliderThumb,
   SliderTrack,
+  useClipboard,
 } from '@chakra-ui/react';
 import { CSSObject } from '@emotion/react';
 import { useMemo } from 'react';
 import { useSelector } from 'react-redux';
+import { useLocation } from 'react-router-dom';
 import Select, { OptionsType } from 'react-select';
 import { TealButton } from '../components/buttons';
 import { useKeyboardShortcut } from '../hooks/keyboard';
@@ -29,28 +32,39 @@ import {
   Subcategory,
   Tournament,
 } from '../types/questions';
+import { JudgeStrategy } from '../types/tossups';
 import {
   CATEGORIES,
   CATEGORY_MAP,
   DIFFICULTIES,
   DIFFICULTY_MAP,
+  JUDGE_STRATEGY_DATA,
   MIN_TOURNAMENT_YEAR,
   SUBCATEGORIES,
   SUBCATEGORY_MAP,
   TOURNAMENTS,
   TOURNAMENT_MAP,
 } from '../utils/constants';
+import { isShareablePath } from '../utils/query';
 import { validateFromYear } from '../utils/settings';
+import AnswerTimes from './AnswerTimes';
+import CategoryWeights from './CategoryWeights';
+import Pacing from './Pacing';
+import Presets from './Presets';
 import {
   close,
   selectSettings,
   updateCategories,
   updateDifficulties,
   updateFromYear,
+  updateJudgeStrategy,
+  updateJudgeThreshold,
   updateReadingSpeed,
   updateSubcategories,
   updateTournaments,
 } from './settingsSlice';
+import Speech from './Speech';
+import VoiceInput from './VoiceInput';
 import YearInput from './YearInput';
 
 const toSelect =
@@ -76,15 +90,29 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
     difficulties,
     tournaments,
     fromYear,
+    judgeStrategy,
+    judgeThresholds,
     isOpen,
   } = useSelector(selectSettings);
   const dispatch = useAppDispatch();
+  const { pathname, search } = useLocation();
+  // the url is kept in sync with the question settings
+  const { hasCopied, onCopy } = useClipboard(
+    `${window.location.origin}${pathname}${search}`,
+  );
   const closeModal = () => dispatch(close());
   useKeyboardShortcut('Escape', closeModal);
 
   const onReadingSpeedChange = (value: number) =>
     dispatch(updateReadingSpeed(value));
 
+  const onJudgeStrategyChange = (e: React.ChangeEvent<HTMLSelectElement>) =>
+    dispatch(updateJudgeStrategy(Number(e.currentTarget.value)));
+  const onJudgeThresholdChange = (value: number) =>
+    dispatch(
+      updateJudgeThreshold({ strategy: judgeStrategy, threshold: value / 100 }),
+    );
+
   const categoriesInSelect = categories.map(toSelect(CATEGORY_MAP));
   const onCategoriesChange = (
     options: OptionsType<{ label: string; value: Category }>,
@@ -145,6 +173,7 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
       <ModalContent m={4} maxW="600px" maxH="max(75vh, 600px)">
         <ModalHeader>Settings</ModalHeader>
         <ModalBody overflow="auto">
+          <Presets />
           <Box mb={4}>
             <Heading size="sm" mb={2} color="gray.800">
               Reading Speed
@@ -155,7 +184,7 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
               min={0}
               max={100}
               step={5}
-              defaultValue={readingSpeed}
+              value={readingSpeed}
               onChange={onReadingSpeedChange}
             >
               <SliderTrack>
@@ -163,7 +192,47 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
               </SliderTrack>
               <SliderThumb bg="gray.500" />
             </Slider>
+            <Pacing />
+          </Box>
+          <Speech />
+          <VoiceInput />
+          <Box mb={4}>
+            <Heading size="sm" mb={2} color="gray.800">
+              Answer Checking
+            </Heading>
+            <ChakraSelect
+              aria-label="answer checking strategy"
+              value={judgeStrategy}
+              onChange={onJudgeStrategyChange}
+              mb={2}
+            >
+              {JUDGE_STRATEGY_DATA.map(({ key, name }) => (
+                <option key={key} value={key}>
+                  {name}
+                </option>
+              ))}
+            </ChakraSelect>
+            <Flex align="center" gap={4}>
+              <Slider
+                aria-label={`${JudgeStrategy[judgeStrategy]} threshold`}
+                colorScheme="cyan"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(judgeThresholds[judgeStrategy] * 100)}
+                onChange={onJudgeThresholdChange}
+              >
+                <SliderTrack>
+                  <SliderFilledTrack />
+                </SliderTrack>
+                <SliderThumb bg="gray.500" />
+              </Slider>
+              <Box w={10} textAlign="right">
+                {judgeThresholds[judgeStrategy].toFixed(2)}
+              </Box>
+            </Flex>
           </Box>
+          <AnswerTimes />
           <Box mb={4}>
             <Heading size="sm" mb={2} color="gray.800">
               Category
@@ -177,6 +246,7 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
               {...selectMenuProps}
             />
           </Box>
+          <CategoryWeights />
           <Box mb={4}>
             <Heading size="sm" mb={2} color="gray.800">
               Subcategory
@@ -227,6 +297,11 @@ const SettingsModal: React.FC<React.PropsWithChildren<unknown>> = () => {
           </Box>
         </ModalBody>
         <ModalFooter>
+          {isShareablePath(pathname) && (
+            <Button mr={3} onClick={onCopy}>
+              {hasCopied ? 'Copied' : 'Copy Link'}
+            </Button>
+          )}
           <TealButton mr={3} onClick={closeModal}>
             Done
           </TealButton>
@@ -1,4 +1,4 @@
-import { createSelector, createSlice } from '@reduxjs/toolkit';
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import {
   filterBonusesByCategory,
   filterBonusesByDifficulties,
@@ -14,36 +14,71 @@ import {
   filterTossupsBySubcategory,
   filterTossupsByTournament,
 } from '../TossupReader/tossupReaderSlice';
+import { Preset } from '../types/presets';
 import {
   Category,
   Difficulty,
+  QuestionSettings,
   Subcategory,
   Tournament,
 } from '../types/questions';
-import { SUBCATEGORY_MAP, TOURNAMENT_MAP } from '../utils/constants';
+import { AnswerTimer, PacingSettings, SpeechSettings } from '../types/settings';
+import { JudgeStrategy } from '../types/tossups';
 import {
+  DEFAULT_CATEGORY_WEIGHTS,
+  SUBCATEGORY_MAP,
+  TOURNAMENT_MAP,
+} from '../utils/constants';
+import {
+  createPreset,
+  restoreAnswerTimes,
   restoreCategories,
+  restoreCategoryWeights,
   restoreDifficulties,
   restoreFromYear,
+  restoreJudgeStrategy,
+  restoreJudgeThresholds,
+  restorePacingSettings,
+  restorePresets,
   restoreReadingSpeed,
+  restoreSpeechSettings,
   restoreSubcategories,
   restoreTournaments,
+  restoreVoiceInput,
+  saveAnswerTimes,
   saveCategories,
+  saveCategoryWeights,
   saveDifficulties,
   saveFromYear,
+  saveJudgeStrategy,
+  saveJudgeThresholds,
+  savePacingSettings,
+  savePresets,
   saveReadingSpeed,
+  saveSpeechSettings,
   saveSubcategories,
   saveTournaments,
+  saveVoiceInput,
 } from '../utils/settings';
+import { isSpeechSupported } from '../utils/speech';
+import { getSelectedWeights } from '../utils/weights';
 
 const initialState = {
   isOpen: false,
   readingSpeed: restoreReadingSpeed(),
+  pacing: restorePacingSettings(),
   categories: restoreCategories(),
   subcategories: restoreSubcategories(),
   difficulties: restoreDifficulties(),
   tournaments: restoreTournaments(),
   fromYear: restoreFromYear(),
+  judgeStrategy: restoreJudgeStrategy(),
+  judgeThresholds: restoreJudgeThresholds(),
+  presets: restorePresets(),
+  categoryWeights: restoreCategoryWeights(),
+  answerTimes: restoreAnswerTimes(),
+  speech: restoreSpeechSettings(),
+  voiceInput: restoreVoiceInput(),
 };
 
 const settingsSlice = createSlice({
@@ -59,6 +94,12 @@ const settingsSlice = createSlice({
     updateReadingSpeed: (state, action) => {
       state.readingSpeed = action.payload;
     },
+    updatePacingSettings: (
+      state,
+      action: PayloadAction<Partial<PacingSettings>>,
+    ) => {
+      state.pacing = { ...state.pacing, ...action.payload };
+    },
     updateCategories: (state, action) => {
       state.categories = action.payload;
       // remove subcategories of a newly added category, e.g. adding Science would invalidate Biology since Biology is too strict and would block other Science subcategories
@@ -96,26 +137,146 @@ const settingsSlice = createSlice({
         (tournament) => TOURNAMENT_MAP[tournament].year >= state.fromYear,
       );
     },
+    hydrateQuestionSettings: (
+      state,
+      action: PayloadAction<QuestionSettings>,
+    ) => ({ ...state, ...action.payload }),
+    updateCategoryWeight: (
+      state,
+      action: PayloadAction<{ category: Category; weight: number }>,
+    ) => {
+      state.categoryWeights[action.payload.category] = action.payload.weight;
+    },
+    resetCategoryWeights: (state) => {
+      state.categoryWeights = { ...DEFAULT_CATEGORY_WEIGHTS };
+    },
+    savePreset: {
+      reducer: (state, action: PayloadAction<{ id: string; name: string }>) => {
+        // saving under an existing name overwrites that preset
+        const { name } = action.payload;
+        const existing = state.presets.find((p) => p.name === name);
+        const preset = createPreset(
+          name,
+          state,
+          existing?.id ?? action.payload.id,
+        );
+        state.presets = existing
+          ? state.presets.map((p) => (p.id === existing.id ? preset : p))
+          : [...state.presets, preset];
+      },
+      prepare: (name: string) => ({
+        payload: {
+          name,
+          id: `${Date.now().toString(36)}${Math.random()
+            .toString(36)
+            .slice(2, 8)}`,
+        },
+      }),
+    },
+    applyPreset: (state, action: PayloadAction<Preset>) => {
+      state.readingSpeed = action.payload.readingSpeed;
+      state.categories = action.payload.categories;
+      state.subcategories = action.payload.subcategories;
+      state.difficulties = action.payload.difficulties;
+      state.tournaments = action.payload.tournaments;
+      state.fromYear = action.payload.fromYear;
+    },
+    deletePreset: (state, action: PayloadAction<string>) => {
+      state.presets = state.presets.filter(({ id }) => id !== action.payload);
+    },
+    importPresets: (state, action: PayloadAction<Preset[]>) => {
+      // imported presets replace presets with the same name or id
+      const names = new Set(action.payload.map(({ name }) => name));
+      const ids = new Set(action.payload.map(({ id }) => id));
+      state.presets = [
+        ...state.presets.filter(
+          ({ id, name }) => !names.has(name) && !ids.has(id),
+        ),
+        ...action.payload,
+      ];
+    },
+    updateJudgeStrategy: (state, action: PayloadAction<JudgeStrategy>) => {
+      state.judgeStrategy = action.payload;
+    },
+    updateJudgeThreshold: (
+      state,
+      action: PayloadAction<{ strategy: JudgeStrategy; threshold: number }>,
+    ) => {
+      state.judgeThresholds[action.payload.strategy] = action.payload.threshold;
+    },
+    updateAnswerTime: (
+      state,
+      action: PayloadAction<{ timer: AnswerTimer; time: number }>,
+    ) => {
+      state.answerTimes[action.payload.timer] = action.payload.time;
+    },
+    updateSpeechSettings: (
+      state,
+      action: PayloadAction<Partial<SpeechSettings>>,
+    ) => {
+      state.speech = { ...state.speech, ...action.payload };
+    },
+    updateVoiceInput: (state, action: PayloadAction<boolean>) => {
+      state.voiceInput = action.payload;
+    },
   },
 });
 export const {
   updateReadingSpeed,
+  updatePacingSettings,
   updateCategories,
   updateSubcategories,
   updateDifficulties,
   updateTournaments,
   updateFromYear,
+  hydrateQuestionSettings,
+  updateCategoryWeight,
+  resetCategoryWeights,
+  savePreset,
+  applyPreset,
+  deletePreset,
+  importPresets,
+  updateJudgeStrategy,
+  updateJudgeThreshold,
+  updateAnswerTime,
+  updateSpeechSettings,
+  updateVoiceInput,
   open,
   close,
 } = settingsSlice.actions;
 
 export const selectSettings = (state: RootState) => state.settings;
 const selectReadingSpeed = (state: RootState) => state.settings.readingSpeed;
+export const selectPacingSettings = (state: RootState) => state.settings.pacing;
 const selectCategories = (state: RootState) => state.settings.categories;
 const selectSubcategories = (state: RootState) => state.settings.subcategories;
 const selectDifficulties = (state: RootState) => state.settings.difficulties;
 const selectTournaments = (state: RootState) => state.settings.tournaments;
 const selectFromYear = (state: RootState) => state.settings.fromYear;
+const selectJudgeStrategy = (state: RootState) => state.settings.judgeStrategy;
+export const selectPresets = (state: RootState) => state.settings.presets;
+export const selectCategoryWeights = (state: RootState) =>
+  state.settings.categoryWeights;
+const selectJudgeThresholds = (state: RootState) =>
+  state.settings.judgeThresholds;
+export const selectAnswerTimes = (state: RootState) =>
+  state.settings.answerTimes;
+export const selectSpeechSettings = (state: RootState) => state.settings.speech;
+export const selectVoiceInput = (state: RootState) => state.settings.voiceInput;
+// pure listening practice hides the question until it is judged
+export const selectIsTextHidden = (state: RootState) =>
+  isSpeechSupported() &&
+  state.settings.speech.isEnabled &&
+  state.settings.speech.hideText;
+// weights of the selected categories, used for mixed practice
+export const selectSelectedCategoryWeights = createSelector(
+  [selectCategoryWeights, selectCategories],
+  getSelectedWeights,
+);
+export const selectJudgeOptions = createSelector(
+  [selectJudgeStrategy, selectJudgeThresholds],
+  (strategy, thresholds) => ({ strategy, threshold: thresholds[strategy] }),
+);
 export const selectQuestionSettings = createSelector(
   [
     selectCategories,
@@ -124,7 +285,13 @@ export const selectQuestionSettings = createSelector(
     selectTournaments,
     selectFromYear,
   ],
-  (categories, subcategories, difficulties, tournaments, fromYear) => ({
+  (
+    categories,
+    subcategories,
+    difficulties,
+    tournaments,
+    fromYear,
+  ): QuestionSettings => ({
     categories,
     subcategories,
     difficulties,
@@ -137,6 +304,10 @@ export const readingSpeedSubscription: Subscription<number> = [
   selectReadingSpeed,
   (readingSpeed: number) => saveReadingSpeed(readingSpeed),
 ];
+export const pacingSettingsSubscription: Subscription<PacingSettings> = [
+  selectPacingSettings,
+  (pacing: PacingSettings) => savePacingSettings(pacing),
+];
 export const categoriesSubscription: Subscription<Category[]> = [
   selectCategories,
   (categories: Category[], dispatch: AppDispatch) => {
@@ -177,5 +348,42 @@ export const fromYearSubscription: Subscription<number> = [
     dispatch(filterBonusesByFromYear(fromYear));
   },
 ];
+export const judgeStrategySubscription: Subscription<JudgeStrategy> = [
+  selectJudgeStrategy,
+  (judgeStrategy: JudgeStrategy) => saveJudgeStrategy(judgeStrategy),
+];
+export const judgeThresholdsSubscription: Subscription<
+  Record<JudgeStrategy, number>
+> = [
+  selectJudgeThresholds,
+  (judgeThresholds: Record<JudgeStrategy, number>) =>
+    saveJudgeThresholds(judgeThresholds),
+];
+
+export const categoryWeightsSubscription: Subscription<
+  Record<Category, number>
+> = [
+  selectCategoryWeights,
+  (categoryWeights: Record<Category, number>) =>
+    saveCategoryWeights(categoryWeights),
+];
+export const answerTimesSubscription: Subscription<
+  Record<AnswerTimer, number>
+> = [
+  selectAnswerTimes,
+  (answerTimes: Record<AnswerTimer, number>) => saveAnswerTimes(answerTimes),
+];
+export const speechSettingsSubscription: Subscription<SpeechSettings> = [
+  selectSpeechSettings,
+  (speech: SpeechSettings) => saveSpeechSettings(speech),
+];
+export const voiceInputSubscription: Subscription<boolean> = [
+  selectVoiceInput,
+  (voiceInput: boolean) => saveVoiceInput(voiceInput),
+];
+export const presetsSubscription: Subscription<Preset[]> = [
+  selectPresets,
+  (presets: Preset[]) => savePresets(presets),
+];
 
 export default settingsSlice.reducer;
@@ -0,0 +1,177 @@
+/* eslint-disable react/no-array-index-key */
+import {
+  Box,
+  Flex,
+  Heading,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { selectSessions } from '../Sessions/sessionsSlice';
+import { selectSelectedCategoryWeights } from '../Settings/settingsSlice';
+import { ratio } from '../utils/number';
+import {
+  aggregateBonusResults,
+  aggregateTossupResults,
+  getCategoryMix,
+  getSessionTrend,
+  StatsGrouping,
+} from '../utils/stats';
+
+const groupings = [
+  { label: 'Category', value: StatsGrouping.category },
+  { label: 'Subcategory', value: StatsGrouping.subcategory },
+  { label: 'Difficulty', value: StatsGrouping.difficulty },
+  { label: 'Tournament', value: StatsGrouping.tournament },
+];
+
+const tossupHeaders = ['', 'TUH', '15%', '10%', '-5%', 'Buzz', 'PPTU'];
+const bonusHeaders = ['', 'Bonuses', '30%', 'PPB'];
+const mixHeaders = ['', 'Target', 'Tossups', 'Bonuses'];
+const trendHeaders = ['Session', 'Date', 'TUH', 'PPTU', 'Bonuses', 'PPB'];
+
+const percent = (n: number, d: number) => `${(100 * ratio(n, d)).toFixed(0)}%`;
+
+const Stats: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { sessions } = useSelector(selectSessions);
+  const categoryWeights = useSelector(selectSelectedCategoryWeights);
+  const [grouping, setGrouping] = useState(StatsGrouping.category);
+
+  const tossupResults = useMemo(
+    () => sessions.flatMap((s) => s.tossupResults),
+    [sessions],
+  );
+  const bonusResults = useMemo(
+    () => sessions.flatMap((s) => s.bonusResults),
+    [sessions],
+  );
+
+  const tossupStats = useMemo(
+    () => aggregateTossupResults(tossupResults, grouping),
+    [grouping, tossupResults],
+  );
+  const bonusStats = useMemo(
+    () => aggregateBonusResults(bonusResults, grouping),
+    [bonusResults, grouping],
+  );
+  const categoryMix = useMemo(
+    () => getCategoryMix(tossupResults, bonusResults, categoryWeights),
+    [bonusResults, categoryWeights, tossupResults],
+  );
+  const trend = useMemo(() => getSessionTrend(sessions), [sessions]);
+
+  const renderTable = (headers: string[], rows: (string | number)[][]) => {
+    if (rows.length === 0) {
+      return <Text mb={8}>No questions played yet.</Text>;
+    }
+
+    return (
+      <Box overflowX="auto" mb={8}>
+        <Table variant="striped" size="sm">
+          <Thead>
+            <Tr>
+              {headers.map((header, i) => (
+                <Th key={i}>{header}</Th>
+              ))}
+            </Tr>
+          </Thead>
+          <Tbody>
+            {rows.map((row, i) => (
+              <Tr key={i}>
+                {row.map((cell, j) => (
+                  <Td key={j}>{cell}</Td>
+                ))}
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    );
+  };
+
+  return (
+    <Flex direction="column" w="100%" maxW="container.lg" h="100%">
+      <Box overflow="auto" px={4}>
+        <Flex align="center" justify="space-between" mb={4} gap={4}>
+          <Heading size="lg">Stats</Heading>
+          <Select
+            aria-label="Group by"
+            w="auto"
+            value={grouping}
+            onChange={(e) => setGrouping(Number(e.currentTarget.value))}
+          >
+            {groupings.map(({ label, value }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+        </Flex>
+        <Heading size="md" mb={2}>
+          Tossups
+        </Heading>
+        {renderTable(
+          tossupHeaders,
+          tossupStats.map((s) => [
+            s.label,
+            s.count,
+            percent(s.powers, s.count),
+            percent(s.tens, s.count),
+            percent(s.negs, s.count),
+            `${(100 * s.buzzPosition).toFixed(0)}%`,
+            ratio(s.points, s.count).toFixed(2),
+          ]),
+        )}
+        <Heading size="md" mb={2}>
+          Bonuses
+        </Heading>
+        {renderTable(
+          bonusHeaders,
+          bonusStats.map((s) => [
+            s.label,
+            s.count,
+            percent(s.thirties, s.count),
+            ratio(s.points, s.count).toFixed(2),
+          ]),
+        )}
+        <Heading size="md" mb={2}>
+          Category Mix
+        </Heading>
+        {renderTable(
+          mixHeaders,
+          tossupResults.length > 0 || bonusResults.length > 0
+            ? categoryMix.map((m) => [
+                m.label,
+                percent(m.target, 1),
+                percent(m.tossups, 1),
+                percent(m.bonuses, 1),
+              ])
+            : [],
+        )}
+        <Heading size="md" mb={2}>
+          Trends
+        </Heading>
+        {renderTable(
+          trendHeaders,
+          trend.map((s) => [
+            s.name,
+            new Date(s.createdAt).toLocaleDateString(),
+            s.tossups,
+            ratio(s.tossupPoints, s.tossups).toFixed(2),
+            s.bonuses,
+            ratio(s.bonusPoints, s.bonuses).toFixed(2),
+          ]),
+        )}
+      </Box>
+    </Flex>
+  );
+};
+
+export default Stats;
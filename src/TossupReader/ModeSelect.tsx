@@ -0,0 +1,40 @@
+import { Button, ButtonGroup, Flex } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { selectReview } from '../Review/reviewSlice';
+import { getDueItems } from '../utils/review';
+import {
+  selectTossupReader,
+  setMode,
+  TossupReaderMode,
+} from './tossupReaderSlice';
+
+const ModeSelect: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const { mode } = useSelector(selectTossupReader);
+  const { items } = useSelector(selectReview);
+  const dispatch = useAppDispatch();
+
+  const dueCount = getDueItems(items, Date.now()).length;
+  const modes = [
+    { label: 'Practice', value: TossupReaderMode.practice },
+    { label: `Review (${dueCount} due)`, value: TossupReaderMode.review },
+  ];
+
+  return (
+    <Flex justify="center" mb={4}>
+      <ButtonGroup size="sm" isAttached variant="outline">
+        {modes.map(({ label, value }) => (
+          <Button
+            key={value}
+            isActive={mode === value}
+            onClick={() => dispatch(setMode(value))}
+          >
+            {label}
+          </Button>
+        ))}
+      </ButtonGroup>
+    </Flex>
+  );
+};
+
+export default ModeSelect;
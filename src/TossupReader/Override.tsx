@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import ReaderOverride from '../components/reader/Override';
+import { useKeyboardShortcut } from '../hooks/keyboard';
+import { useAppDispatch } from '../redux/hooks';
+import { selectSettings } from '../Settings/settingsSlice';
+import {
+  overrideResult,
+  ReaderStatus,
+  selectTossupReader,
+} from './tossupReaderSlice';
+
+const Override: React.FC<React.PropsWithChildren<unknown>> = () => {
+  const {
+    status,
+    current: { result },
+  } = useSelector(selectTossupReader);
+  const settings = useSelector(selectSettings);
+  const dispatch = useAppDispatch();
+
+  const override = useCallback(() => dispatch(overrideResult()), [dispatch]);
+  useKeyboardShortcut(
+    'o',
+    override,
+    () => !settings.isOpen && status === ReaderStatus.judged,
+  );
+
+  return (
+    <ReaderOverride
+      isCorrect={result.isCorrect}
+      overridden={result.overridden}
+      onOverride={override}
+    />
+  );
+};
+
+export default Override;
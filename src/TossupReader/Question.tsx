@@ -1,16 +1,25 @@
+import { Text } from '@chakra-ui/react';
 import { useEffect, useMemo, useRef } from 'react';
 import { useSelector } from 'react-redux';
 import { elementScrollIntoView } from 'seamless-scroll-polyfill';
 import ReaderQuestion from '../components/reader/Question';
 import { useReader } from '../hooks/reader';
 import { useAppDispatch } from '../redux/hooks';
-import { getTossupWords, renderQuestion } from '../utils/reader';
+import { selectIsTextHidden } from '../Settings/settingsSlice';
+import { getApiErrorMessage } from '../utils/api';
+import {
+  getClueStartIndex,
+  getTossupWords,
+  renderQuestion,
+} from '../utils/reader';
 import {
   buzz,
   nextTossup,
   ReaderStatus,
+  selectIsPaused,
   selectTossupReader,
   setVisible,
+  TossupReaderMode,
 } from './tossupReaderSlice';
 
 const Question = () => {
@@ -21,21 +30,42 @@ const Question = () => {
       tossup: { formattedText },
       buzzIndex,
       tossupWords,
+      rewinds,
     },
   } = useSelector(selectTossupReader);
+  const isPaused = useSelector(selectIsPaused);
+  const isTextHidden = useSelector(selectIsTextHidden);
   const dispatch = useAppDispatch();
 
   const words = useMemo(
     () => getTossupWords(formattedText).map(({ word }) => word),
     [formattedText],
   );
-  const { displayWords, visibleIndex, pause, reveal } = useReader(words);
+  const { displayWords, visibleIndex, pause, resume, reveal, rewind } =
+    useReader(words);
+  const visibleIndexRef = useRef(visibleIndex);
+  visibleIndexRef.current = visibleIndex;
 
   // pause reading when answering
   useEffect(() => {
     if (status === ReaderStatus.answering) pause();
   }, [pause, status]);
 
+  // pause and resume reading on request
+  useEffect(() => {
+    if (status !== ReaderStatus.reading) return;
+
+    if (isPaused) pause();
+    else resume();
+  }, [isPaused, pause, resume, status]);
+
+  // re-read the clue being read
+  useEffect(() => {
+    if (rewinds > 0) {
+      rewind(getClueStartIndex(words, visibleIndexRef.current));
+    }
+  }, [rewind, rewinds, words]);
+
   // update visible index
   useEffect(() => {
     if (status === ReaderStatus.reading) dispatch(setVisible(visibleIndex));
@@ -79,24 +109,34 @@ const Question = () => {
     [buzzIndex, shuffledTossupWords, visibleIndex],
   );
 
+  if (isTextHidden && status !== ReaderStatus.judged) {
+    return <Text color="gray.500">Listening...</Text>;
+  }
+
   return <>{renderedQuestion}</>;
 };
 
 const Container = () => {
-  const { status } = useSelector(selectTossupReader);
+  const { status, mode, error } = useSelector(selectTossupReader);
   const dispatch = useAppDispatch();
 
   const showLoading = status === ReaderStatus.fetching;
-  const showEmpty = status === ReaderStatus.empty;
-  const emptyMessage =
-    'No tossups found. Try checking your network connection or tweaking the search parameters.';
+  const showEmpty = [ReaderStatus.empty, ReaderStatus.error].includes(status);
+  const getEmptyMessage = () => {
+    if (status === ReaderStatus.error && error !== null) {
+      return getApiErrorMessage(error);
+    }
+    return mode === TossupReaderMode.review
+      ? 'No tossups are due for review. Missed tossups will show up here once they are due.'
+      : 'No tossups found. Try tweaking the search parameters.';
+  };
   const onEmpty = () => dispatch(nextTossup());
 
   return (
     <ReaderQuestion
       showLoading={showLoading}
       showEmpty={showEmpty}
-      emptyMessage={emptyMessage}
+      emptyMessage={getEmptyMessage()}
       onEmpty={onEmpty}
     >
       <Question />
@@ -0,0 +1,48 @@
+import { Button, Flex } from '@chakra-ui/react';
+import { useSelector } from 'react-redux';
+import { useKeyboardShortcut } from '../hooks/keyboard';
+import { useAppDispatch } from '../redux/hooks';
+import { selectSettings } from '../Settings/settingsSlice';
+import {
+  pauseReading,
+  ReaderStatus,
+  resumeReading,
+  rewind as rewindAction,
+  selectIsPaused,
+  selectTossupReader,
+  TossupReaderMode,
+} from './tossupReaderSlice';
+
+const ReadingControls = () => {
+  const { status, mode } = useSelector(selectTossupReader);
+  const isPaused = useSelector(selectIsPaused);
+  const settings = useSelector(selectSettings);
+  const dispatch = useAppDispatch();
+
+  const isReading = status === ReaderStatus.reading;
+  const canRewind = isReading && mode === TossupReaderMode.practice;
+
+  const togglePause = () =>
+    dispatch(isPaused ? resumeReading() : pauseReading());
+  const rewind = () => dispatch(rewindAction());
+
+  useKeyboardShortcut('p', togglePause, () => isReading && !settings.isOpen);
+  useKeyboardShortcut('r', rewind, () => canRewind && !settings.isOpen);
+
+  if (!isReading) return null;
+
+  return (
+    <Flex justify="flex-end" gap={2} mb={2}>
+      {canRewind && (
+        <Button size="sm" onClick={rewind}>
+          Re-read Clue
+        </Button>
+      )}
+      <Button size="sm" onClick={togglePause}>
+        {isPaused ? 'Resume' : 'Pause'}
+      </Button>
+    </Flex>
+  );
+};
+
+export default ReadingControls;
@@ -2,6 +2,7 @@ import { useSelector } from 'react-redux';
 import ReaderResult from '../components/reader/Result';
 import { TossupScore } from '../types/tossups';
 import { random } from '../utils/array';
+import { getVerdictNotes } from '../utils/reader';
 import { ReaderStatus, selectTossupReader } from './tossupReaderSlice';
 
 const messages = {
@@ -17,6 +18,8 @@ const Result: React.FC<React.PropsWithChildren<unknown>> = () => {
     status,
     current: {
       result: { score },
+      verdict,
+      prompts,
     },
   } = useSelector(selectTossupReader);
 
@@ -27,7 +30,13 @@ const Result: React.FC<React.PropsWithChildren<unknown>> = () => {
   else if (score === TossupScore.neg) text = random(messages.neg);
   else text = random(messages.other);
 
-  return <ReaderResult text={text} />;
+  const lastPrompt = prompts[prompts.length - 1];
+  const notes = getVerdictNotes(
+    verdict,
+    status === ReaderStatus.prompting ? lastPrompt : undefined,
+  );
+
+  return <ReaderResult text={text} notes={notes} />;
 };
 
 export default Result;
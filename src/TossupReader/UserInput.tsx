@@ -25,10 +25,15 @@ const buttonTexts = new Map([
 type UserInputProps = {
   progress: number;
   submit: (s: string) => void;
+  onNext?: () => void;
+  // answering by voice instead of typing
+  isListening?: boolean;
 };
 const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
   progress,
   submit,
+  onNext,
+  isListening = false,
 }) => {
   const {
     status,
@@ -55,7 +60,10 @@ const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
     dispatch(buzzAction());
   }, [dispatch]);
   const submitInput = useCallback(() => submit(input), [input, submit]);
-  const next = useCallback(() => dispatch(nextTossupAction()), [dispatch]);
+  const next = useCallback(() => {
+    if (onNext !== undefined) onNext();
+    else dispatch(nextTossupAction());
+  }, [dispatch, onNext]);
 
   // add different button behavior depending on the status
   let onClick;
@@ -96,7 +104,9 @@ const UserInput: React.FC<React.PropsWithChildren<UserInputProps>> = ({
     <ReaderUserInput
       input={input}
       setInput={setInput}
-      placeholder={status === ReaderStatus.prompting ? 'Prompt:' : 'Answer:'}
+      placeholder={`${
+        status === ReaderStatus.prompting ? 'Prompt:' : 'Answer:'
+      }${isListening ? ' listening...' : ''}`}
       text={buttonTexts.get(status) ?? ''}
       onClick={onClick}
       submit={submitInput}
@@ -2,13 +2,23 @@ import { Flex } from '@chakra-ui/react';
 import { useCallback, useEffect, useState } from 'react';
 import { useSelector } from 'react-redux';
 import Progress from '../components/reader/Progress';
+import { useVoiceAnswer } from '../hooks/reader';
 import { useAppDispatch } from '../redux/hooks';
-import { JudgeResult } from '../types/tossups';
+import {
+  selectAnswerTimes,
+  selectJudgeOptions,
+} from '../Settings/settingsSlice';
+import { AnswerTimer } from '../types/settings';
+import { JudgeResult, JudgeVerdict } from '../types/tossups';
 import logger from '../utils/logger';
-import { Judge, normalizeAnswer } from '../utils/reader';
+import { Judge } from '../utils/reader';
+import { getAnswerDuration } from '../utils/settings';
 import Answer from './Answer';
 import Info from './Info';
+import ModeSelect from './ModeSelect';
+import Override from './Override';
 import Question from './Question';
+import ReadingControls from './ReadingControls';
 import Result from './Result';
 import Score from './Score';
 import {
@@ -17,45 +27,67 @@ import {
   selectIsAnswering,
   selectTossupReader,
   submitAnswer,
+  TossupReaderMode,
 } from './tossupReaderSlice';
 import UserInput from './UserInput';
 
-const TossupReader = () => {
+type TossupReaderProps = {
+  // replaces moving to the next tossup, e.g. to read a bonus in between
+  onNext?: () => void;
+};
+
+const TossupReader: React.FC<React.PropsWithChildren<TossupReaderProps>> = ({
+  onNext,
+}) => {
   const [progress, setProgress] = useState(100);
   const [judge, setJudge] = useState<Judge>();
   const {
     status,
-    current: { tossup },
+    mode,
+    current: { tossup, tossupWords, buzzIndex },
   } = useSelector(selectTossupReader);
   const isAnswering = useSelector(selectIsAnswering);
+  const judgeOptions = useSelector(selectJudgeOptions);
+  const answerTimes = useSelector(selectAnswerTimes);
   const dispatch = useAppDispatch();
 
   // reset judge and progress on new tossup
   useEffect(() => {
     if (status === ReaderStatus.reading) {
-      setJudge(new Judge(tossup.formattedAnswer));
+      setJudge(new Judge(tossup.formattedAnswer, judgeOptions));
       setProgress(100);
     }
-  }, [status, tossup.formattedAnswer]);
-
-  // process a user's answer when submitting
-  const submit = useCallback(
-    (input: string) => {
-      if (judge === undefined || !isAnswering) return;
+  }, [judgeOptions, status, tossup.formattedAnswer]);
 
-      // judge the user answer
-      const userAnswer = normalizeAnswer(input);
-      logger.info(`User submitted "${userAnswer}".`);
-      const judgeResult = judge.judge(userAnswer);
+  // let the judge know where the user buzzed for "until read" conditions
+  useEffect(() => {
+    if (status === ReaderStatus.answering) {
+      judge?.setBuzz({
+        words: tossupWords.map(({ word }) => word),
+        index: buzzIndex,
+      });
+    }
+  }, [buzzIndex, judge, status, tossupWords]);
 
-      // either prompt on answer or mark it as correct/incorrect
-      if (judgeResult === JudgeResult.prompt) {
+  // either prompt on the answer or mark it as correct/incorrect
+  const onJudged = useCallback(
+    (verdict: JudgeVerdict) => {
+      const { result, userAnswer } = verdict;
+      if (result === JudgeResult.prompt) {
         // prompt on answer
         logger.info(`Prompting on "${userAnswer}".`);
-        dispatch(prompt());
+        dispatch(
+          prompt({
+            userAnswer,
+            answer: verdict.prompt?.answer ?? userAnswer,
+            question: verdict.prompt?.question ?? null,
+            verdict,
+          }),
+        );
+        setProgress(100);
       } else {
         // submit answer
-        const isCorrect = judgeResult === JudgeResult.correct;
+        const isCorrect = result === JudgeResult.correct;
         logger.info(
           `User answer "${userAnswer}" is ${
             isCorrect ? 'correct' : 'incorrect'
@@ -65,37 +97,79 @@ const TossupReader = () => {
           submitAnswer({
             isCorrect,
             userAnswer,
+            verdict,
           }),
         );
       }
     },
-    [dispatch, isAnswering, judge],
+    [dispatch],
   );
 
+  // process a user's answer when submitting
+  const submit = useCallback(
+    (input: string) => {
+      if (judge === undefined || !isAnswering) return;
+
+      // judge the user answer
+      logger.info(`User submitted "${input}".`);
+      onJudged(judge.judge(input));
+    },
+    [isAnswering, judge, onJudged],
+  );
+
+  // or answer by voice, if enabled
+  const isListening = useVoiceAnswer(judge, isAnswering, onJudged);
+
+  const renderModeSelect = () =>
+    mode !== TossupReaderMode.packet &&
+    [
+      ReaderStatus.idle,
+      ReaderStatus.judged,
+      ReaderStatus.empty,
+      ReaderStatus.error,
+    ].includes(status) && <ModeSelect />;
   const renderInfo = () =>
-    ![ReaderStatus.idle, ReaderStatus.fetching, ReaderStatus.empty].includes(
-      status,
-    ) && <Info />;
+    ![
+      ReaderStatus.idle,
+      ReaderStatus.fetching,
+      ReaderStatus.empty,
+      ReaderStatus.error,
+    ].includes(status) && <Info />;
   const renderAnswer = () => status === ReaderStatus.judged && <Answer />;
   const renderQuestion = () => status !== ReaderStatus.idle && <Question />;
   const renderResult = () =>
     [ReaderStatus.prompting, ReaderStatus.judged].includes(status) && (
       <Result />
     );
+  const renderOverride = () => status === ReaderStatus.judged && <Override />;
   const renderProgress = () =>
     isAnswering && (
       <Progress
         progress={progress}
         setProgress={setProgress}
         shouldTick={isAnswering}
+        duration={getAnswerDuration(
+          answerTimes[
+            status === ReaderStatus.prompting
+              ? AnswerTimer.prompt
+              : AnswerTimer.tossup
+          ],
+        )}
       />
     );
   const renderInput = () =>
-    status !== ReaderStatus.empty && (
-      <UserInput progress={progress} submit={submit} />
+    ![ReaderStatus.empty, ReaderStatus.error].includes(status) && (
+      <UserInput
+        progress={progress}
+        submit={submit}
+        onNext={onNext}
+        isListening={isListening}
+      />
     );
   const renderScore = () =>
-    ![ReaderStatus.idle, ReaderStatus.empty].includes(status) && <Score />;
+    ![ReaderStatus.idle, ReaderStatus.empty, ReaderStatus.error].includes(
+      status,
+    ) && <Score />;
 
   return (
     <Flex
@@ -106,10 +180,13 @@ const TossupReader = () => {
       overflow="auto"
       p={1}
     >
+      {renderModeSelect()}
       {renderInfo()}
       {renderAnswer()}
+      <ReadingControls />
       {renderQuestion()}
       {renderResult()}
+      {renderOverride()}
       {renderProgress()}
       {renderInput()}
       {renderScore()}
@@ -1,14 +1,37 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from '../redux/store';
+import { newSession, resumeSession } from '../Sessions/sessionsSlice';
+import { AnswerPrompt } from '../types/answerline';
+import { ApiError } from '../types/api';
 import {
   Category,
   Difficulty,
   Subcategory,
   Tournament,
 } from '../types/questions';
-import { Tossup, TossupResult, TossupWord } from '../types/tossups';
+import {
+  JudgeVerdict,
+  Tossup,
+  TossupResult,
+  TossupTiming,
+  TossupWord,
+} from '../types/tossups';
+import { getResultData, isApiError } from '../utils/api';
+import { QUEUE_BATCH_SIZE, WEIGHTED_POOL_SIZE } from '../utils/constants';
 import * as fetchUtils from '../utils/fetch';
-import { getPowerIndex, getTossupScore, getTossupWords } from '../utils/reader';
+import { getTossupResultsScore, restoreCurrentSession } from '../utils/history';
+import {
+  answerPrompt,
+  getPowerIndex,
+  getTossupScore,
+  getTossupWords,
+} from '../utils/reader';
+import { getDueItems, getTossupKey } from '../utils/review';
+import {
+  getCategoryCounts,
+  getSelectedWeights,
+  sampleByWeight,
+} from '../utils/weights';
 
 export enum ReaderStatus {
   idle,
@@ -18,13 +41,24 @@ export enum ReaderStatus {
   prompting,
   judged,
   empty,
+  error,
+}
+
+export enum TossupReaderMode {
+  practice,
+  review,
+  packet,
 }
 
 type TossupReaderState = {
   status: ReaderStatus;
+  mode: TossupReaderMode;
   tossups: Tossup[];
+  // fetched tossups left out of the queue, kept for the next refill
+  pool: Tossup[];
   results: TossupResult[];
   score: number;
+  error: ApiError | null;
   current: {
     tossup: Tossup;
     result: TossupResult;
@@ -32,14 +66,27 @@ type TossupReaderState = {
     visibleIndex: number;
     powerIndex: number;
     tossupWords: TossupWord[];
+    // when reading was paused, null while reading
+    pausedAt: number | null;
+    pausedTime: number;
+    // incremented on every request to re-read the last clue
+    rewinds: number;
+    timing: TossupTiming;
+    // explains the last ruling, prompts included
+    verdict: JudgeVerdict | null;
+    prompts: AnswerPrompt[];
   };
 };
 
+const { tossupResults } = restoreCurrentSession();
 const initialState: TossupReaderState = {
   status: ReaderStatus.idle,
+  mode: TossupReaderMode.practice,
   tossups: [],
-  results: [],
-  score: 0,
+  pool: [],
+  results: tossupResults,
+  score: getTossupResultsScore(tossupResults),
+  error: null,
   current: {
     tossup: {} as Tossup,
     result: {} as TossupResult,
@@ -47,18 +94,73 @@ const initialState: TossupReaderState = {
     buzzIndex: -1,
     powerIndex: -1,
     tossupWords: [],
+    pausedAt: null,
+    pausedTime: 0,
+    rewinds: 0,
+    timing: { startedAt: 0, wordTimes: [], buzzedAt: 0 },
+    verdict: null,
+    prompts: [],
   },
 };
 
 export const fetchTossups = createAsyncThunk<
-  Tossup[],
+  { tossups: Tossup[]; pool: Tossup[] },
   undefined,
-  { state: RootState }
->('tossupReader/fetchTossups', async (_, { getState }) => {
-  const { settings } = getState();
-  const tossups = await fetchUtils.fetchTossups(settings);
-  return tossups;
-});
+  { state: RootState; rejectValue: ApiError }
+>(
+  'tossupReader/fetchTossups',
+  async (_, { getState, signal, rejectWithValue }) => {
+    const { settings, tossupReader, review } = getState();
+
+    // in packet mode, the queue only holds the packet's tossups
+    if (tossupReader.mode === TossupReaderMode.packet) {
+      return { tossups: [], pool: tossupReader.pool };
+    }
+
+    // in review mode, take due tossups which haven't been queued yet
+    if (tossupReader.mode === TossupReaderMode.review) {
+      const queued = new Set(
+        [tossupReader.current.tossup, ...tossupReader.tossups]
+          .filter((tu) => tu.text !== undefined)
+          .map(getTossupKey),
+      );
+      return {
+        tossups: getDueItems(review.items, Date.now())
+          .filter(({ key }) => !queued.has(key))
+          .map(({ tossup }) => tossup),
+        pool: tossupReader.pool,
+      };
+    }
+
+    // only fetch enough to top the pool back up
+    let fetched: Tossup[] = [];
+    if (tossupReader.pool.length < WEIGHTED_POOL_SIZE) {
+      const result = await fetchUtils.fetchTossups(
+        { ...settings, limit: WEIGHTED_POOL_SIZE - tossupReader.pool.length },
+        signal,
+      );
+      if (isApiError(result)) return rejectWithValue(result);
+      fetched = getResultData(result, []);
+    }
+
+    // sample the queue to follow the category weights over the session
+    const seen = getCategoryCounts([
+      ...tossupReader.results.map(({ tossup }) => tossup),
+      ...tossupReader.tossups,
+    ]);
+    const candidates = [...tossupReader.pool, ...fetched];
+    const sample = sampleByWeight(
+      candidates,
+      getSelectedWeights(settings.categoryWeights, settings.categories),
+      QUEUE_BATCH_SIZE,
+      seen,
+    );
+    return {
+      tossups: sample,
+      pool: candidates.filter((tu) => !sample.includes(tu)),
+    };
+  },
+);
 
 export const nextTossup = createAsyncThunk<
   void,
@@ -83,6 +185,7 @@ export const nextTossup = createAsyncThunk<
         ReaderStatus.idle,
         ReaderStatus.judged,
         ReaderStatus.empty,
+        ReaderStatus.error,
       ].includes(tossupReader.status);
     },
   },
@@ -92,53 +195,191 @@ const tossupReaderSlice = createSlice({
   name: 'tossupReader',
   initialState,
   reducers: {
-    buzz: (state) => {
-      if (state.status === ReaderStatus.reading) {
-        state.status = ReaderStatus.answering;
-        state.current.buzzIndex = state.current.visibleIndex;
-      }
+    buzz: {
+      reducer: (state, action: PayloadAction<number>) => {
+        // pausing is not a buzz, reading has to resume first
+        if (
+          state.status === ReaderStatus.reading &&
+          state.current.pausedAt === null
+        ) {
+          state.status = ReaderStatus.answering;
+          state.current.buzzIndex = state.current.visibleIndex;
+          state.current.timing.buzzedAt = action.payload;
+        }
+      },
+      prepare: () => ({ payload: Date.now() }),
     },
-    prompt: (state) => {
+    prompt: (
+      state,
+      action: PayloadAction<
+        Omit<AnswerPrompt, 'response'> & { verdict: JudgeVerdict }
+      >,
+    ) => {
       if (
         [ReaderStatus.answering, ReaderStatus.prompting].includes(state.status)
       ) {
+        const { verdict, ...newPrompt } = action.payload;
         state.status = ReaderStatus.prompting;
+        state.current.verdict = verdict;
+        answerPrompt(state.current.prompts, newPrompt.userAnswer);
+        state.current.prompts.push({ ...newPrompt, response: null });
       }
     },
-    setVisible: (state, action: PayloadAction<number>) => {
-      state.current.visibleIndex = action.payload;
+    setVisible: {
+      reducer: (
+        state,
+        action: PayloadAction<{ index: number; visibleAt: number }>,
+      ) => {
+        const { index, visibleAt } = action.payload;
+        const { timing } = state.current;
+        if (timing.startedAt === 0) timing.startedAt = visibleAt;
+        // words skipped over, e.g. unspoken punctuation, show up at once
+        while (timing.wordTimes.length <= index) {
+          timing.wordTimes.push(visibleAt - timing.startedAt);
+        }
+
+        // re-reading a clue does not move the buzz position back
+        state.current.visibleIndex = Math.max(
+          state.current.visibleIndex,
+          index,
+        );
+      },
+      prepare: (index: number) => ({
+        payload: { index, visibleAt: Date.now() },
+      }),
     },
-    submitAnswer: (
-      state,
-      action: PayloadAction<{
-        isCorrect: boolean;
-        userAnswer: string;
-      }>,
-    ) => {
+    pauseReading: {
+      reducer: (state, action: PayloadAction<number>) => {
+        if (
+          state.status === ReaderStatus.reading &&
+          state.current.pausedAt === null
+        ) {
+          state.current.pausedAt = action.payload;
+        }
+      },
+      prepare: () => ({ payload: Date.now() }),
+    },
+    resumeReading: {
+      reducer: (state, action: PayloadAction<number>) => {
+        if (state.current.pausedAt === null) return;
+
+        state.current.pausedTime += action.payload - state.current.pausedAt;
+        state.current.pausedAt = null;
+      },
+      prepare: () => ({ payload: Date.now() }),
+    },
+    rewind: (state) => {
       if (
-        state.status === ReaderStatus.answering ||
-        state.status === ReaderStatus.prompting
+        state.mode === TossupReaderMode.practice &&
+        state.status === ReaderStatus.reading
       ) {
-        state.status = ReaderStatus.judged;
-
-        const score = getTossupScore(
-          action.payload.isCorrect,
-          state.current.buzzIndex <= state.current.powerIndex,
-          state.current.buzzIndex === state.current.tossupWords.length - 1,
-        );
-        state.current.result = {
-          ...action.payload,
-          score,
-          buzzIndex: state.current.buzzIndex,
-          words: state.current.tossupWords,
-          tossup: state.current.tossup,
-        };
-
-        state.results.unshift(state.current.result);
-        state.score += score;
+        state.current.rewinds += 1;
       }
     },
+    // stop a question midway, e.g. once a drill is over
+    stopReading: (state) => {
+      if (
+        [
+          ReaderStatus.reading,
+          ReaderStatus.answering,
+          ReaderStatus.prompting,
+        ].includes(state.status)
+      ) {
+        state.status = ReaderStatus.idle;
+      }
+    },
+    setMode: (state, action: PayloadAction<TossupReaderMode>) => {
+      if (state.mode === action.payload) return;
+
+      // drop tossups queued for the previous mode
+      state.mode = action.payload;
+      state.tossups = [];
+      state.status = ReaderStatus.idle;
+    },
+    loadPacket: (state, action: PayloadAction<Tossup[]>) => {
+      state.mode = TossupReaderMode.packet;
+      state.tossups = action.payload;
+      state.status = ReaderStatus.idle;
+    },
+    submitAnswer: {
+      reducer: (
+        state,
+        action: PayloadAction<{
+          isCorrect: boolean;
+          userAnswer: string;
+          verdict: JudgeVerdict | null;
+          judgedAt: number;
+        }>,
+      ) => {
+        if (
+          state.status === ReaderStatus.answering ||
+          state.status === ReaderStatus.prompting
+        ) {
+          state.status = ReaderStatus.judged;
+          state.current.verdict = action.payload.verdict;
+          answerPrompt(state.current.prompts, action.payload.userAnswer);
+
+          const score = getTossupScore(
+            action.payload.isCorrect,
+            state.current.buzzIndex <= state.current.powerIndex,
+            state.current.buzzIndex === state.current.tossupWords.length - 1,
+          );
+          state.current.result = {
+            ...action.payload,
+            score,
+            buzzIndex: state.current.buzzIndex,
+            words: state.current.tossupWords,
+            tossup: state.current.tossup,
+            overridden: false,
+            pausedTime: state.current.pausedTime,
+            timing: state.current.timing,
+            prompts: state.current.prompts,
+          };
+
+          state.results.unshift(state.current.result);
+          state.score += score;
+        }
+      },
+      prepare: (payload: {
+        isCorrect: boolean;
+        userAnswer: string;
+        verdict: JudgeVerdict | null;
+      }) => ({
+        payload: { ...payload, judgedAt: Date.now() },
+      }),
+    },
+    overrideResult: (state) => {
+      if (state.status !== ReaderStatus.judged) return;
+
+      // the result being overridden has to be the one in the history
+      const { result } = state.current;
+      const index = state.results.findIndex(
+        ({ judgedAt }) => judgedAt === result.judgedAt,
+      );
+      if (index === -1) return;
+
+      // flip the judge's decision, overriding twice restores the original
+      const isCorrect = !result.isCorrect;
+      const score = getTossupScore(
+        isCorrect,
+        result.buzzIndex <= state.current.powerIndex,
+        result.buzzIndex === result.words.length - 1,
+      );
+      state.score += score - result.score;
+      state.current.result = {
+        ...result,
+        isCorrect,
+        score,
+        overridden: !result.overridden,
+      };
+      state.results[index] = state.current.result;
+    },
     filterTossupsByCategory: (state, action: PayloadAction<Category[]>) => {
+      state.pool = state.pool.filter((tu) =>
+        action.payload.includes(tu.category),
+      );
+      if (state.mode === TossupReaderMode.packet) return;
+
       state.tossups = state.tossups.filter((tu) =>
         action.payload.includes(tu.category),
       );
@@ -147,6 +388,11 @@ const tossupReaderSlice = createSlice({
       state,
       action: PayloadAction<Subcategory[]>,
     ) => {
+      state.pool = state.pool.filter((tu) =>
+        action.payload.includes(tu.subcategory),
+      );
+      if (state.mode === TossupReaderMode.packet) return;
+
       state.tossups = state.tossups.filter((tu) =>
         action.payload.includes(tu.subcategory),
       );
@@ -155,23 +401,57 @@ const tossupReaderSlice = createSlice({
       state,
       action: PayloadAction<Difficulty[]>,
     ) => {
+      state.pool = state.pool.filter((tu) =>
+        action.payload.includes(tu.difficulty),
+      );
+      if (state.mode === TossupReaderMode.packet) return;
+
       state.tossups = state.tossups.filter((tu) =>
         action.payload.includes(tu.difficulty),
       );
     },
     filterTossupsByTournament: (state, action: PayloadAction<Tournament[]>) => {
+      state.pool = state.pool.filter((tu) =>
+        action.payload.includes(tu.tournament),
+      );
+      if (state.mode === TossupReaderMode.packet) return;
+
       state.tossups = state.tossups.filter((tu) =>
         action.payload.includes(tu.tournament),
       );
     },
     filterTossupsByFromYear: (state, action: PayloadAction<number>) => {
+      state.pool = state.pool.filter((tu) => tu.year >= action.payload);
+      if (state.mode === TossupReaderMode.packet) return;
+
       state.tossups = state.tossups.filter((tu) => tu.year >= action.payload);
     },
   },
   extraReducers: (builder) => {
-    builder.addCase(fetchTossups.fulfilled, (state, action) => {
-      state.tossups.push(...action.payload);
-    });
+    builder
+      .addCase(fetchTossups.fulfilled, (state, action) => {
+        // a concurrent refill may have queued the same pool tossups
+        const queued = new Set(state.tossups.map((tu) => getTossupKey(tu)));
+        state.tossups.push(
+          ...action.payload.tossups.filter(
+            (tu) => !queued.has(getTossupKey(tu)),
+          ),
+        );
+        state.pool = action.payload.pool;
+        state.error = null;
+      })
+      .addCase(fetchTossups.rejected, (state, action) => {
+        state.error = action.payload ?? null;
+      });
+    builder
+      .addCase(newSession, (state) => {
+        state.results = [];
+        state.score = 0;
+      })
+      .addCase(resumeSession, (state, action) => {
+        state.results = action.payload.tossupResults;
+        state.score = getTossupResultsScore(state.results);
+      });
     builder
       .addCase(nextTossup.pending, (state) => {
         state.status = ReaderStatus.fetching;
@@ -189,6 +469,9 @@ const tossupReaderSlice = createSlice({
           state.tossups.shift();
           state.status = ReaderStatus.reading;
         }
+      })
+      .addCase(nextTossup.rejected, (state) => {
+        state.status = ReaderStatus.error;
       });
   },
 });
@@ -196,7 +479,14 @@ export const {
   buzz,
   prompt,
   setVisible,
+  pauseReading,
+  resumeReading,
+  rewind,
+  stopReading,
+  setMode,
+  loadPacket,
   submitAnswer,
+  overrideResult,
   filterTossupsByCategory,
   filterTossupsBySubcategory,
   filterTossupsByDifficulties,
@@ -210,4 +500,7 @@ export const selectIsAnswering = (state: RootState) =>
     state.tossupReader.status,
   );
 
+export const selectIsPaused = (state: RootState) =>
+  state.tossupReader.current.pausedAt !== null;
+
 export default tossupReaderSlice.reducer;
@@ -4,7 +4,13 @@ import { Redirect, Route, Switch, useLocation } from 'react-router-dom';
 import About from '../../About';
 import BonusReader from '../../BonusReader';
 import CluesGenerator from '../../CluesGenerator';
+import Drill from '../../Drill';
 import FrequencyList from '../../FrequencyList';
+import Moderator from '../../Moderator';
+import Packet from '../../Packet';
+import Packs from '../../Packs';
+import Room from '../../Room';
+import Stats from '../../Stats';
 import TossupReader from '../../TossupReader';
 import pino from '../../utils/pino';
 import { ROUTES } from '../../utils/routes';
@@ -25,12 +31,30 @@ const Body: React.FC<React.PropsWithChildren<unknown>> = () => {
         <Route path={ROUTES.reader.bonus}>
           <BonusReader />
         </Route>
+        <Route path={ROUTES.packet.root}>
+          <Packet />
+        </Route>
+        <Route path={ROUTES.drill.root}>
+          <Drill />
+        </Route>
+        <Route path={ROUTES.moderator.root}>
+          <Moderator />
+        </Route>
         <Route path={ROUTES.freq.root}>
           <FrequencyList />
         </Route>
         <Route path={ROUTES.clues.root}>
           <CluesGenerator />
         </Route>
+        <Route path={ROUTES.room.root}>
+          <Room />
+        </Route>
+        <Route path={ROUTES.packs.root}>
+          <Packs />
+        </Route>
+        <Route path={ROUTES.stats.root}>
+          <Stats />
+        </Route>
         <Route path={ROUTES.about.root}>
           <About />
         </Route>
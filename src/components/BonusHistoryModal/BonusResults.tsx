@@ -3,6 +3,8 @@ import { Bonus, BonusPart, BonusPartResult } from '../../types/bonus';
 import { TOURNAMENT_MAP } from '../../utils/constants';
 import { getTossupWords, renderQuestion } from '../../utils/reader';
 import { parseHTMLString } from '../../utils/string';
+import Prompts from '../reader/Prompts';
+import Verdict from '../reader/Verdict';
 import { VirtualizedTable, VirtualizedTableColumn } from '../tables';
 
 type BonusPartRowResult = BonusPartResult & { bonus: Bonus; part: BonusPart };
@@ -19,7 +21,16 @@ const BonusResults: React.FC<React.PropsWithChildren<BonusResultProps>> = ({
       proportion: 1,
       minWidth: 40,
       useForHeight: false,
-      cell: (result) => <Text align="center">{result.number}</Text>,
+      cell: (result) => (
+        <Box textAlign="center">
+          <Text>{result.number}</Text>
+          {result.overridden && (
+            <Text fontSize="xs" color="gray.600">
+              overridden
+            </Text>
+          )}
+        </Box>
+      ),
     },
     {
       label: 'Input',
@@ -28,7 +39,9 @@ const BonusResults: React.FC<React.PropsWithChildren<BonusResultProps>> = ({
       useForHeight: false,
       cell: (result) => (
         <Box textAlign="center" overflowWrap="break-word">
+          {result.prompts && <Prompts prompts={result.prompts} />}
           {result.userAnswer || '<no answer>'}
+          {result.verdict && <Verdict verdict={result.verdict} />}
         </Box>
       ),
     },
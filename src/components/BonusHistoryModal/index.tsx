@@ -16,19 +16,24 @@ import {
 } from '@chakra-ui/react';
 import { useMemo } from 'react';
 import { useSelector } from 'react-redux';
-import { selectBonusReader } from '../../BonusReader/bonusReaderSlice';
+import { useViewedSession } from '../../hooks/sessions';
 import { useAppDispatch } from '../../redux/hooks';
+import SessionControls from '../../Sessions';
 import { BonusScore } from '../../types/bonus';
+import { Session } from '../../types/sessions';
 import { TealButton } from '../buttons';
 import { close, selectBonusHistoryModal } from './bonusHistoryModalSlice';
 import BonusResults from './BonusResults';
 
 const scoreHeaders = ['30', '20', '10', '0', 'Total', 'PPB'];
 
+const getResultCount = (session: Session) => session.bonusResults.length;
+
 const BonusHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
   const dispatch = useAppDispatch();
-  const { results } = useSelector(selectBonusReader);
   const { isOpen } = useSelector(selectBonusHistoryModal);
+  const { viewedSession, setViewedId } = useViewedSession(isOpen);
+  const results = viewedSession.bonusResults;
 
   const closeModal = () => dispatch(close());
 
@@ -65,6 +70,11 @@ const BonusHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
       <ModalContent m={4} w="min(90vw, 1400px)" h="max(75vh, 600px)">
         <ModalHeader>Bonus History</ModalHeader>
         <ModalBody pt={0} display="flex" flexDirection="column">
+          <SessionControls
+            viewedSession={viewedSession}
+            setViewedId={setViewedId}
+            getResultCount={getResultCount}
+          />
           <Box overflowX="auto">
             <Table variant="simple" mb={4}>
               <Thead>
@@ -1,5 +1,7 @@
 import {
+  Button,
   CloseButton,
+  Divider,
   Drawer,
   DrawerContent,
   DrawerOverlay,
@@ -10,20 +12,28 @@ import {
 import { useSelector } from 'react-redux';
 import { Link as RouterLink } from 'react-router-dom';
 import { useAppDispatch } from '../../redux/hooks';
+import { applyPreset, selectPresets } from '../../Settings/settingsSlice';
 import { ROUTES } from '../../utils/routes';
 import { close, selectHamburgerMenu } from './hamburgerMenuSlice';
 
 const links = [
   { name: 'Tossup Reader', href: ROUTES.reader.tossup },
   { name: 'Bonus Reader', href: ROUTES.reader.bonus },
+  { name: 'Packet Rounds', href: ROUTES.packet.root },
+  { name: 'Drills', href: ROUTES.drill.root },
+  { name: 'Moderator', href: ROUTES.moderator.root },
   { name: 'Frequency List', href: ROUTES.freq.root },
   { name: 'Clues Generator', href: ROUTES.clues.search },
+  { name: 'Multiplayer', href: ROUTES.room.root },
+  { name: 'Offline Packs', href: ROUTES.packs.root },
+  { name: 'Stats', href: ROUTES.stats.root },
   { name: 'About', href: ROUTES.about.root },
 ];
 
 const HamburgerMenu: React.FC<React.PropsWithChildren<unknown>> = () => {
   const dispatch = useAppDispatch();
   const { isOpen } = useSelector(selectHamburgerMenu);
+  const presets = useSelector(selectPresets);
 
   const closeMenu = () => dispatch(close());
 
@@ -46,6 +56,29 @@ const HamburgerMenu: React.FC<React.PropsWithChildren<unknown>> = () => {
               <Heading size="md">{name}</Heading>
             </Link>
           ))}
+          {presets.length > 0 && (
+            <>
+              <Divider my={2} />
+              <Heading size="sm" color="gray.600" p={2}>
+                Presets
+              </Heading>
+              {presets.map((preset) => (
+                <Button
+                  key={preset.id}
+                  variant="ghost"
+                  onClick={() => {
+                    dispatch(applyPreset(preset));
+                    closeMenu();
+                  }}
+                  w="100%"
+                  fontWeight="normal"
+                  _hover={{ bg: 'cyan.100' }}
+                >
+                  {preset.name}
+                </Button>
+              ))}
+            </>
+          )}
         </Flex>
       </DrawerContent>
     </Drawer>
@@ -78,6 +78,14 @@ const globalShortcuts = [
   },
   {
     label: '5',
+    description: (
+      <>
+        Go to <strong>Stats</strong>
+      </>
+    ),
+  },
+  {
+    label: '6',
     description: (
       <>
         Go to <strong>About</strong>
@@ -89,9 +97,16 @@ const globalShortcuts = [
 const readerShortcuts = [
   { label: 'n', description: 'Start reading / Next question' },
   { label: 'space', description: 'Buzz' },
+  { label: 'p', description: 'Pause / Resume reading a tossup' },
+  { label: 'r', description: 'Re-read the last clue (practice mode)' },
+  { label: 'o', description: 'Override the judged answer' },
   { label: 'h', description: 'Open question history' },
 ];
 
+const moderatorShortcuts = [
+  { label: 'n', description: 'Start reading / Next question' },
+];
+
 const freqShortcuts = [
   { label: ['p', '←'], description: 'Previous page' },
   { label: ['n', '→'], description: 'Next page' },
@@ -148,6 +163,14 @@ const InfoModal: React.FC<React.PropsWithChildren<unknown>> = () => {
         </>
       );
     }
+    if (pathname.startsWith(ROUTES.moderator.root)) {
+      return (
+        <>
+          <Heading size="sm">Moderator Shortcuts</Heading>
+          {renderTable(moderatorShortcuts)}
+        </>
+      );
+    }
     if (pathname.startsWith(ROUTES.freq.root)) {
       return (
         <>
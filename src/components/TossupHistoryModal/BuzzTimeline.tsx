@@ -0,0 +1,62 @@
+import { Box, Text } from '@chakra-ui/react';
+import { TossupResult } from '../../types/tossups';
+import { formatSeconds } from '../../utils/number';
+import { getBuzzTiming } from '../../utils/timing';
+
+type BuzzTimelineProps = {
+  result: TossupResult;
+};
+
+/**
+ * Where the buzz came in the tossup relative to the end of the first clue,
+ * with how long it took to buzz and to answer.
+ */
+const BuzzTimeline: React.FC<React.PropsWithChildren<BuzzTimelineProps>> = ({
+  result,
+}) => {
+  const timing = getBuzzTiming(result);
+  if (timing === null) {
+    return (
+      <Text fontSize="xs" color="gray.600" textAlign="center">
+        not recorded
+      </Text>
+    );
+  }
+
+  const { reactionTime, answerTime, wordsAfterFirstClue, firstClueEndIndex } =
+    timing;
+  const toPosition = (index: number) =>
+    `${(100 * (index + 1)) / Math.max(result.words.length, 1)}%`;
+
+  return (
+    <Box fontSize="xs">
+      <Box position="relative" h={2} bg="gray.100" borderRadius="sm" mb={1}>
+        <Box
+          position="absolute"
+          h="100%"
+          w={toPosition(result.buzzIndex)}
+          bg="cyan.400"
+          borderRadius="sm"
+        />
+        <Box
+          position="absolute"
+          h="100%"
+          w="2px"
+          left={toPosition(firstClueEndIndex)}
+          bg="gray.700"
+        />
+      </Box>
+      <Text>
+        {wordsAfterFirstClue >= 0
+          ? `${wordsAfterFirstClue} words after first clue`
+          : `${-wordsAfterFirstClue} words before first clue ended`}
+      </Text>
+      <Text color="gray.600">
+        {reactionTime !== null && `reacted in ${formatSeconds(reactionTime)}, `}
+        answered in {formatSeconds(answerTime)}
+      </Text>
+    </Box>
+  );
+};
+
+export default BuzzTimeline;
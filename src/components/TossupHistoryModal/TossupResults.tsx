@@ -1,9 +1,13 @@
 import { Box, Text } from '@chakra-ui/react';
 import { TossupResult } from '../../types/tossups';
 import { TOURNAMENT_MAP } from '../../utils/constants';
+import { formatDuration } from '../../utils/number';
 import { renderQuestion } from '../../utils/reader';
 import { parseHTMLString } from '../../utils/string';
+import Prompts from '../reader/Prompts';
+import Verdict from '../reader/Verdict';
 import { VirtualizedTable, VirtualizedTableColumn } from '../tables';
+import BuzzTimeline from './BuzzTimeline';
 
 type TossupResultProps = {
   results: TossupResult[];
@@ -18,7 +22,21 @@ const TossupResults: React.FC<React.PropsWithChildren<TossupResultProps>> = ({
       proportion: 1,
       minWidth: 50,
       useForHeight: false,
-      cell: (result) => <Text align="center">{result.score}</Text>,
+      cell: (result) => (
+        <Box textAlign="center">
+          <Text>{result.score}</Text>
+          {result.overridden && (
+            <Text fontSize="xs" color="gray.600">
+              overridden
+            </Text>
+          )}
+          {!!result.pausedTime && (
+            <Text fontSize="xs" color="gray.600">
+              paused {formatDuration(result.pausedTime)}
+            </Text>
+          )}
+        </Box>
+      ),
     },
     {
       label: 'Input',
@@ -27,7 +45,9 @@ const TossupResults: React.FC<React.PropsWithChildren<TossupResultProps>> = ({
       useForHeight: false,
       cell: (result) => (
         <Box textAlign="center" overflowWrap="break-word">
+          {result.prompts && <Prompts prompts={result.prompts} />}
           {result.userAnswer || '<no answer>'}
+          {result.verdict && <Verdict verdict={result.verdict} />}
         </Box>
       ),
     },
@@ -55,6 +75,13 @@ const TossupResults: React.FC<React.PropsWithChildren<TossupResultProps>> = ({
         </Box>
       ),
     },
+    {
+      label: 'Buzz',
+      proportion: 2,
+      minWidth: 140,
+      useForHeight: false,
+      cell: (result) => <BuzzTimeline result={result} />,
+    },
     {
       label: 'Tournament',
       proportion: 3,
@@ -14,19 +14,31 @@ import {
   Tr,
 } from '@chakra-ui/react';
 import { useSelector } from 'react-redux';
+import { useViewedSession } from '../../hooks/sessions';
 import { useAppDispatch } from '../../redux/hooks';
-import { selectTossupReader } from '../../TossupReader/tossupReaderSlice';
+import SessionControls from '../../Sessions';
+import { Session } from '../../types/sessions';
 import { TossupScore } from '../../types/tossups';
+import { formatSeconds } from '../../utils/number';
+import { getBuzzTimingSummary } from '../../utils/timing';
 import { TealButton } from '../buttons';
 import { close, selectTossupHistoryModal } from './tossupHistoryModalSlice';
 import TossupResults from './TossupResults';
 
 const scoreHeaders = ['15', '10', '-5', 'Points'];
+const timingHeaders = [
+  'Avg Reaction',
+  'Avg Answer Time',
+  'Avg Words After First Clue',
+];
+
+const getResultCount = (session: Session) => session.tossupResults.length;
 
 const TossupHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
   const dispatch = useAppDispatch();
-  const { results } = useSelector(selectTossupReader);
   const { isOpen } = useSelector(selectTossupHistoryModal);
+  const { viewedSession, setViewedId } = useViewedSession(isOpen);
+  const results = viewedSession.tossupResults;
 
   const closeModal = () => dispatch(close());
 
@@ -37,6 +49,13 @@ const TossupHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
 
   const scoreBody = [powers, tens, negs, points];
 
+  const timing = getBuzzTimingSummary(results);
+  const timingBody = [
+    formatSeconds(timing.reactionTime),
+    formatSeconds(timing.answerTime),
+    timing.wordsAfterFirstClue.toFixed(1),
+  ];
+
   return (
     <Modal
       isOpen={isOpen}
@@ -49,6 +68,11 @@ const TossupHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
       <ModalContent m={4} w="min(90vw, 1400px)" h="max(75vh, 600px)">
         <ModalHeader>Tossup History</ModalHeader>
         <ModalBody pt={0} display="flex" flexDirection="column">
+          <SessionControls
+            viewedSession={viewedSession}
+            setViewedId={setViewedId}
+            getResultCount={getResultCount}
+          />
           <Table variant="simple" mb={4}>
             <Thead>
               <Tr>
@@ -65,6 +89,24 @@ const TossupHistoryModal: React.FC<React.PropsWithChildren<unknown>> = () => {
               </Tr>
             </Tbody>
           </Table>
+          {timing.count > 0 && (
+            <Table variant="simple" size="sm" mb={4}>
+              <Thead>
+                <Tr>
+                  {timingHeaders.map((header, i) => (
+                    <Th key={i}>{header}</Th>
+                  ))}
+                </Tr>
+              </Thead>
+              <Tbody>
+                <Tr>
+                  {timingBody.map((value, i) => (
+                    <Td key={i}>{value}</Td>
+                  ))}
+                </Tr>
+              </Tbody>
+            </Table>
+          )}
           <TossupResults results={results} />
         </ModalBody>
         <ModalFooter>
@@ -0,0 +1,33 @@
+import { Button, Flex, Kbd, Text } from '@chakra-ui/react';
+
+type OverrideProps = {
+  isCorrect: boolean;
+  overridden: boolean;
+  onOverride: () => void;
+  // names what is overridden when there's more than one, e.g. a bonus part
+  label?: string;
+  hasShortcut?: boolean;
+};
+
+const Override: React.FC<React.PropsWithChildren<OverrideProps>> = ({
+  isCorrect,
+  overridden,
+  onOverride,
+  label,
+  hasShortcut = true,
+}) => (
+  <Flex justify="center" align="center" gap={2} mb={4}>
+    {label !== undefined && <Text fontSize="sm">{label}</Text>}
+    {overridden && (
+      <Text fontSize="sm" color="gray.500">
+        Overridden.
+      </Text>
+    )}
+    <Button size="sm" variant="outline" onClick={onOverride}>
+      {isCorrect ? 'I was wrong' : 'I was right'}
+      {hasShortcut && <Kbd ml={2}>o</Kbd>}
+    </Button>
+  </Flex>
+);
+
+export default Override;
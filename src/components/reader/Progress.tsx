@@ -1,29 +1,39 @@
 import { Progress as ChakraProgress } from '@chakra-ui/react';
 import { useEffect } from 'react';
 
+const TICK_INTERVAL = 50;
+const DEFAULT_DURATION = 5000;
+
 type ProgressProps = {
   progress: number;
   setProgress: React.Dispatch<React.SetStateAction<number>>;
   shouldTick: boolean;
+  // time in ms for a full bar to run out, null when untimed
+  duration?: number | null;
 };
 
 const Progress: React.FC<React.PropsWithChildren<ProgressProps>> = ({
   progress,
   setProgress,
   shouldTick,
+  duration = DEFAULT_DURATION,
 }) => {
   useEffect(() => {
-    if (shouldTick) {
-      const id = setTimeout(() => {
-        setProgress((p) => (p > 0 ? p - 0.1 : 0));
-      }, 5);
-      return () => {
-        window.clearTimeout(id);
-      };
-    }
+    if (!shouldTick || duration === null) return undefined;
+
+    // count down by the real time elapsed, timers can fire late or get throttled
+    let lastTick = Date.now();
+    const id = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - lastTick;
+      lastTick = now;
+      setProgress((p) => Math.max(p - (100 * elapsed) / duration, 0));
+    }, TICK_INTERVAL);
+    return () => window.clearInterval(id);
+  }, [duration, setProgress, shouldTick]);
 
-    return undefined;
-  }, [setProgress, shouldTick, progress]);
+  // an untimed answer has nothing to count down
+  if (duration === null) return null;
 
   return (
     <ChakraProgress
@@ -0,0 +1,24 @@
+import { Text } from '@chakra-ui/react';
+import { AnswerPrompt } from '../../types/answerline';
+import { describePrompt } from '../../utils/reader';
+
+type PromptsProps = {
+  prompts: AnswerPrompt[];
+};
+
+/**
+ * The prompts leading up to a final answer, oldest first.
+ */
+const Prompts: React.FC<React.PropsWithChildren<PromptsProps>> = ({
+  prompts,
+}) => (
+  <>
+    {prompts.map((prompt) => (
+      <Text key={prompt.userAnswer} fontSize="xs" color="gray.600">
+        {prompt.userAnswer || '<no answer>'}: {describePrompt(prompt)}
+      </Text>
+    ))}
+  </>
+);
+
+export default Prompts;
@@ -1,12 +1,36 @@
-import { Heading } from '@chakra-ui/react';
+import { Heading, Text } from '@chakra-ui/react';
 
 type ResultProps = {
   text: string;
+  // explain the ruling, e.g. the prompt or the condition that decided it
+  notes?: string[];
 };
-const Result: React.FC<React.PropsWithChildren<ResultProps>> = ({ text }) => (
-  <Heading pl={4} textAlign="center" size="md" whiteSpace="pre" mb={4}>
-    {text}
-  </Heading>
+const Result: React.FC<React.PropsWithChildren<ResultProps>> = ({
+  text,
+  notes = [],
+}) => (
+  <>
+    <Heading
+      pl={4}
+      textAlign="center"
+      size="md"
+      whiteSpace="pre"
+      mb={notes.length > 0 ? 1 : 4}
+    >
+      {text}
+    </Heading>
+    {notes.map((note, i) => (
+      <Text
+        key={note}
+        textAlign="center"
+        fontSize="sm"
+        color="gray.500"
+        mb={i === notes.length - 1 ? 4 : 0}
+      >
+        {note}
+      </Text>
+    ))}
+  </>
 );
 
 export default Result;
@@ -0,0 +1,32 @@
+import { Text } from '@chakra-ui/react';
+import { JudgeVerdict } from '../../types/tossups';
+import { describeCondition, describeMatch } from '../../utils/reader';
+
+type VerdictProps = {
+  verdict: JudgeVerdict;
+};
+
+/**
+ * Why the judge ruled the way it did, in small print for the history tables.
+ */
+const Verdict: React.FC<React.PropsWithChildren<VerdictProps>> = ({
+  verdict,
+}) => {
+  const match = describeMatch(verdict);
+  return (
+    <>
+      {match && (
+        <Text fontSize="xs" color="gray.600">
+          {match}
+        </Text>
+      )}
+      {verdict.condition && (
+        <Text fontSize="xs" color="gray.600">
+          {describeCondition(verdict.condition)}
+        </Text>
+      )}
+    </>
+  );
+};
+
+export default Verdict;
@@ -1,31 +1,57 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useSelector } from 'react-redux';
-import { selectSettings } from '../Settings/settingsSlice';
+import { selectSettings, selectVoiceInput } from '../Settings/settingsSlice';
+import { JudgeVerdict } from '../types/tossups';
+import { getWordDelays } from '../utils/pacing';
+import { Judge } from '../utils/reader';
+import {
+  answerByVoice,
+  createSpeechRecognizer,
+  isRecognitionSupported,
+} from '../utils/recognition';
 import { getReadingTimeoutDelay } from '../utils/settings';
+import { createUtterance, isSpeechSupported } from '../utils/speech';
 import { shuffle } from '../utils/string';
 
 /**
- * Custom hook for reading text at a certain reading rate (time/word).
+ * Custom hook for reading text at a certain reading rate (time/word), paced
+ * uniformly or naturally depending on the settings.
  * Uses an incrementing index to keep track of the last visible word, and
  * shuffles the words which aren't visible. The shuffling is to prevent cheating
  * by inspecting the DOM, though it would only be a concern if QBHub offered
  * a multiplayer version reader.
+ * When reading aloud is enabled, the words are spoken with speech synthesis
+ * instead and the index follows the word being spoken.
  * @returns {string[]} words The words to display, visible + shuffled words.
  * @returns {number} visibleIndex Index of last visible word.
  * @returns {Function} pause Callback to pause reading.
  * @returns {Function} resume Callback to resume reading.
  * @returns {Function} reveal Callback to reveal all words.
+ * @returns {Function} rewind Callback to read again from a word.
  */
 export const useReader = (words: string[], startImmediately = true) => {
-  const { readingSpeed } = useSelector(selectSettings);
+  const {
+    readingSpeed,
+    pacing,
+    speech: { isEnabled: isSpeechEnabled, voice, rate },
+  } = useSelector(selectSettings);
   const [visibleIndex, setVisibleIndex] = useState(-1);
+  const visibleIndexRef = useRef(visibleIndex);
+  visibleIndexRef.current = visibleIndex;
   const [incrementId, setIncrementId] = useState<NodeJS.Timeout | null>(null);
   const [shouldRead, setShouldRead] = useState(startImmediately);
+  // incremented to start speaking again from another word
+  const [speechStarts, setSpeechStarts] = useState(0);
+  const isSpeaking = isSpeechEnabled && isSpeechSupported();
 
   const readingDelay = useMemo(
     () => getReadingTimeoutDelay(readingSpeed),
     [readingSpeed],
   );
+  const wordDelays = useMemo(
+    () => getWordDelays(words, readingDelay, pacing),
+    [pacing, readingDelay, words],
+  );
   const shuffledWords = useMemo(
     () =>
       words.map((word) => ({
@@ -37,14 +63,50 @@ export const useReader = (words: string[], startImmediately = true) => {
 
   // periodically reveal words
   useEffect(() => {
-    if (visibleIndex < words.length - 1 && incrementId === null && shouldRead) {
+    if (
+      !isSpeaking &&
+      visibleIndex < words.length - 1 &&
+      incrementId === null &&
+      shouldRead
+    ) {
       const id = setTimeout(() => {
         setVisibleIndex((index) => index + 1);
         setIncrementId(null);
-      }, readingDelay);
+      }, wordDelays[visibleIndex] ?? readingDelay);
       setIncrementId(id);
     }
-  }, [incrementId, readingDelay, shouldRead, visibleIndex, words.length]);
+  }, [
+    incrementId,
+    isSpeaking,
+    readingDelay,
+    shouldRead,
+    visibleIndex,
+    wordDelays,
+    words.length,
+  ]);
+
+  // speak the words not read yet, e.g. starting over from where it was paused
+  useEffect(() => {
+    const start = visibleIndexRef.current + 1;
+    if (!isSpeaking || !shouldRead || start >= words.length) return undefined;
+
+    const lastIndex = words.length - 1;
+    const utterance = createUtterance(
+      words.slice(start),
+      { voice, rate },
+      // the last word only counts as read once it has been spoken
+      (index) => setVisibleIndex(Math.min(start + index, lastIndex - 1)),
+    );
+    utterance.onend = () => setVisibleIndex(lastIndex);
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+
+    return () => {
+      utterance.onboundary = null;
+      utterance.onend = null;
+      window.speechSynthesis.cancel();
+    };
+  }, [isSpeaking, rate, shouldRead, speechStarts, voice, words]);
 
   // pause reading
   const pause = useCallback(() => {
@@ -60,6 +122,12 @@ export const useReader = (words: string[], startImmediately = true) => {
     setShouldRead(true);
   }, []);
 
+  // read again from a word, a pending update continues from there
+  const rewind = useCallback((index: number) => {
+    setVisibleIndex(index - 1);
+    setSpeechStarts((starts) => starts + 1);
+  }, []);
+
   // reveal text
   const reveal = useCallback(() => {
     pause();
@@ -87,5 +155,53 @@ export const useReader = (words: string[], startImmediately = true) => {
     pause,
     resume,
     reveal,
+    rewind,
   };
 };
+
+/**
+ * Custom hook for the voices available to speech synthesis, browsers load
+ * them asynchronously so the list updates once they are ready.
+ */
+export const useSpeechVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : [],
+  );
+
+  useEffect(() => {
+    if (!isSpeechSupported()) return undefined;
+
+    const updateVoices = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    return () =>
+      window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  return voices;
+};
+
+/**
+ * Custom hook for answering by voice, listens while `isAnswering` and passes
+ * every spoken answer to `onJudged`, prompts included.
+ * @returns {boolean} isListening Whether the spoken answer is listened for.
+ */
+export const useVoiceAnswer = (
+  judge: Judge | undefined,
+  isAnswering: boolean,
+  onJudged: (verdict: JudgeVerdict) => void,
+) => {
+  const voiceInput = useSelector(selectVoiceInput);
+  const isListening = voiceInput && isAnswering && isRecognitionSupported();
+
+  useEffect(() => {
+    if (!isListening || judge === undefined) return undefined;
+
+    const recognizer = createSpeechRecognizer();
+    if (recognizer === null) return undefined;
+
+    answerByVoice(recognizer, judge, onJudged);
+    return () => recognizer.abort();
+  }, [isListening, judge, onJudged]);
+
+  return isListening;
+};
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useSelector } from 'react-redux';
+import { useAppDispatch } from '../redux/hooks';
+import { connect, disconnect, receive } from '../Room/roomSlice';
+import {
+  selectJudgeOptions,
+  selectQuestionSettings,
+  selectSettings,
+} from '../Settings/settingsSlice';
+import { ClientMessage, ServerMessage } from '../types/multiplayer';
+import { JudgeResult, Tossup } from '../types/tossups';
+import { getResultData } from '../utils/api';
+import { fetchTossups } from '../utils/fetch';
+import logger from '../utils/logger';
+import { getPowerIndex, getTossupWords, Judge } from '../utils/reader';
+import { getReadingTimeoutDelay } from '../utils/settings';
+
+type JoinParams = {
+  url: string;
+  room: string;
+  name: string;
+  team: string;
+};
+
+/**
+ * Custom hook for connecting to a multiplayer room server. Server messages are
+ * dispatched to the room slice, and the room host also supplies tossups and
+ * judges the answers of buzzing players.
+ * @returns {Function} join Callback to connect to a server and join a room.
+ * @returns {Function} leave Callback to leave the room.
+ * @returns {Function} send Callback to send a message to the server.
+ * @returns {Function} nextTossup Callback for the host to start a tossup.
+ */
+export const useRoomConnection = () => {
+  const { readingSpeed } = useSelector(selectSettings);
+  const questionSettings = useSelector(selectQuestionSettings);
+  const judgeOptions = useSelector(selectJudgeOptions);
+  const dispatch = useAppDispatch();
+  const socketRef = useRef<WebSocket | null>(null);
+  const judgeRef = useRef<Judge | null>(null);
+  const queueRef = useRef<Tossup[]>([]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  // judge an answer as the host, the server has no access to the answerline
+  const judge = useCallback(
+    (playerId: string, answer: string) => {
+      if (judgeRef.current === null) return;
+
+      const { result } = judgeRef.current.judge(answer);
+      let ruling: 'correct' | 'incorrect' | 'prompt';
+      if (result === JudgeResult.prompt) ruling = 'prompt';
+      else if (result === JudgeResult.correct) ruling = 'correct';
+      else ruling = 'incorrect';
+      logger.info(`Ruled "${answer}" as ${ruling}.`);
+      send({ type: 'ruling', playerId, ruling });
+    },
+    [send],
+  );
+
+  const join = useCallback(
+    ({ url, room, name, team }: JoinParams) => {
+      socketRef.current?.close();
+      dispatch(connect());
+
+      const socket = new WebSocket(url);
+      socket.onopen = () => send({ type: 'join', room, name, team });
+      socket.onmessage = (e) => {
+        let message: ServerMessage;
+        try {
+          message = JSON.parse(e.data);
+        } catch (err) {
+          logger.error('Invalid message from the room server.', err);
+          return;
+        }
+        dispatch(receive(message));
+        if (message.type === 'judge') judge(message.playerId, message.answer);
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+          dispatch(disconnect());
+        }
+      };
+      socketRef.current = socket;
+    },
+    [dispatch, judge, send],
+  );
+
+  const leave = useCallback(() => {
+    socketRef.current?.close();
+  }, []);
+
+  const nextTossup = useCallback(async () => {
+    if (queueRef.current.length === 0) {
+      queueRef.current = getResultData(
+        await fetchTossups(questionSettings),
+        [],
+      );
+    }
+    const tossup = queueRef.current.shift();
+    if (tossup === undefined) return;
+
+    judgeRef.current = new Judge(tossup.formattedAnswer, judgeOptions);
+    const words = getTossupWords(tossup.formattedText);
+    send({
+      type: 'tossup',
+      tossup,
+      words,
+      powerIndex: getPowerIndex(words),
+      readingDelay: getReadingTimeoutDelay(readingSpeed),
+    });
+  }, [judgeOptions, questionSettings, readingSpeed, send]);
+
+  // drop the queue when the filters change
+  useEffect(() => {
+    queueRef.current = [];
+  }, [questionSettings]);
+
+  // leave the room when navigating away
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  return { join, leave, send, nextTossup };
+};
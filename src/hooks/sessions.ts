@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { selectSessions } from '../Sessions/sessionsSlice';
+import { Session } from '../types/sessions';
+
+/**
+ * Custom hook for browsing saved sessions. Defaults to the current session,
+ * and jumps back to it whenever the current session changes or the viewer is
+ * reopened.
+ * @returns {Session} viewedSession The session being viewed.
+ * @returns {Function} setViewedId Callback to view another session.
+ */
+export const useViewedSession = (isOpen: boolean) => {
+  const { currentId, sessions } = useSelector(selectSessions);
+  const [viewedId, setViewedId] = useState(currentId);
+
+  useEffect(() => {
+    if (isOpen) setViewedId(currentId);
+  }, [currentId, isOpen]);
+
+  const viewedSession =
+    sessions.find(({ id }) => id === viewedId) ??
+    (sessions.find(({ id }) => id === currentId) as Session);
+
+  return { viewedSession, setViewedId };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { useHistory, useLocation } from 'react-router-dom';
+import { useAppDispatch } from '../redux/hooks';
+import {
+  hydrateQuestionSettings,
+  selectQuestionSettings,
+} from '../Settings/settingsSlice';
+import {
+  isShareablePath,
+  parseQuestionSettings,
+  serializeQuestionSettings,
+} from '../utils/query';
+
+/**
+ * Custom hook for keeping question settings in the url of pages that depend on
+ * them. Settings in an incoming link replace the saved settings, afterwards
+ * the url follows the settings.
+ */
+export const useQuestionSettingsQuery = () => {
+  const { pathname, search } = useLocation();
+  const history = useHistory();
+  const dispatch = useAppDispatch();
+  const query = serializeQuestionSettings(useSelector(selectQuestionSettings));
+  const [isHydrated, setIsHydrated] = useState(false);
+  const isShareable = isShareablePath(pathname);
+
+  // only the link the app was opened with is read, later on the url is written
+  useEffect(() => {
+    const settings = parseQuestionSettings(window.location.search);
+    if (settings !== null) dispatch(hydrateQuestionSettings(settings));
+    setIsHydrated(true);
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!isHydrated || !isShareable) return;
+
+    const nextSearch = query.length > 0 ? `?${query}` : '';
+    if (nextSearch !== search) {
+      history.replace({ pathname, search: nextSearch });
+    }
+  }, [history, isHydrated, isShareable, pathname, query, search]);
+};
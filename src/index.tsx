@@ -11,8 +11,10 @@ import App from './App';
 import { store } from './redux/store';
 import theme from './theme';
 import pino from './utils/pino';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 pino.info('page_load');
+registerServiceWorker();
 
 ReactDOM.render(
   <React.StrictMode>
@@ -5,14 +5,36 @@ import bonusHistoryModalReducer from '../components/BonusHistoryModal/bonusHisto
 import hamburgerMenuReducer from '../components/HamburgerMenu/hamburgerMenuSlice';
 import infoModalReducer from '../components/InfoModal/infoModalSlice';
 import tossupHistoryModalReducer from '../components/TossupHistoryModal/tossupHistoryModalSlice';
+import drillReducer from '../Drill/drillSlice';
 import frequencyListReducer from '../FrequencyList/frequencyListSlice';
+import moderatorReducer from '../Moderator/moderatorSlice';
+import packetReducer from '../Packet/packetSlice';
+import packsReducer from '../Packs/packsSlice';
+import reviewReducer, {
+  reviewItemsSubscription,
+  tossupResultSubscription,
+} from '../Review/reviewSlice';
+import roomReducer from '../Room/roomSlice';
+import sessionsReducer, {
+  bonusResultsSubscription,
+  sessionsSubscription,
+  tossupResultsSubscription,
+} from '../Sessions/sessionsSlice';
 import settingsReducer, {
+  answerTimesSubscription,
   categoriesSubscription,
+  categoryWeightsSubscription,
   difficultiesSubscription,
   fromYearSubscription,
+  judgeStrategySubscription,
+  judgeThresholdsSubscription,
+  pacingSettingsSubscription,
+  presetsSubscription,
   readingSpeedSubscription,
+  speechSettingsSubscription,
   subcategoriesSubscription,
   tournamentsSubscription,
+  voiceInputSubscription,
 } from '../Settings/settingsSlice';
 import tossupReaderReducer from '../TossupReader/tossupReaderSlice';
 
@@ -21,6 +43,13 @@ export const store = configureStore({
     tossupReader: tossupReaderReducer,
     bonusReader: bonusReaderReducer,
     settings: settingsReducer,
+    sessions: sessionsReducer,
+    review: reviewReducer,
+    moderator: moderatorReducer,
+    packet: packetReducer,
+    drill: drillReducer,
+    packs: packsReducer,
+    room: roomReducer,
     frequencyList: frequencyListReducer,
     cluesGenerator: cluesGeneatorReducer,
     infoModal: infoModalReducer,
@@ -55,8 +84,21 @@ export const observeStore = <T>(
 export type Subscription<T> = Parameters<typeof observeStore<T>>;
 
 observeStore(...readingSpeedSubscription);
+observeStore(...pacingSettingsSubscription);
 observeStore(...categoriesSubscription);
 observeStore(...subcategoriesSubscription);
 observeStore(...difficultiesSubscription);
 observeStore(...tournamentsSubscription);
 observeStore(...fromYearSubscription);
+observeStore(...judgeStrategySubscription);
+observeStore(...judgeThresholdsSubscription);
+observeStore(...presetsSubscription);
+observeStore(...categoryWeightsSubscription);
+observeStore(...answerTimesSubscription);
+observeStore(...speechSettingsSubscription);
+observeStore(...voiceInputSubscription);
+observeStore(...tossupResultsSubscription);
+observeStore(...bonusResultsSubscription);
+observeStore(...sessionsSubscription);
+observeStore(...tossupResultSubscription);
+observeStore(...reviewItemsSubscription);
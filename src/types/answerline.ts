@@ -0,0 +1,78 @@
+export enum ClauseType {
+  accept,
+  prompt,
+  // a prompt with the question the moderator asks, e.g. "by asking ..."
+  directedPrompt,
+  reject,
+}
+
+export enum ConditionKind {
+  // until or before a word is read
+  before,
+  after,
+}
+
+export type AnswerCondition = {
+  kind: ConditionKind;
+  // the word that has to be read, null when the answerline doesn't name one
+  // e.g. "until read" or "before the end of the tossup"
+  word: string | null;
+  // the condition as written in the answerline
+  text: string;
+};
+
+export type AnswerAlternate = {
+  // the alternate as written in the answerline, without tags
+  text: string;
+  // the normalized alternate used for judging
+  answer: string;
+  // bold parts, required for the answer to be accepted
+  required: string[];
+  // underlined parts, worth a prompt on their own
+  underlined: string[];
+};
+
+export type AnswerClause = {
+  type: ClauseType;
+  alternates: AnswerAlternate[];
+  // the question asked on a directed prompt
+  question: string | null;
+  condition: AnswerCondition | null;
+};
+
+export type Answerline = {
+  // the main answer comes first, followed by the directives in brackets
+  clauses: AnswerClause[];
+};
+
+export type BuzzPosition = {
+  words: string[];
+  // index of the last word read before the buzz
+  index: number;
+};
+
+export type JudgedCondition = {
+  type: ClauseType;
+  condition: AnswerCondition;
+  // whether the buzz satisfied the condition, an unmet condition explains why
+  // a matching answer was not accepted or prompted
+  isMet: boolean;
+};
+
+export type AnswerPrompt = {
+  // the user answer that was prompted on
+  userAnswer: string;
+  // the promptable answer it matched, as written in the answerline
+  answer: string;
+  // the question asked on a directed prompt
+  question: string | null;
+  // the answer given to the prompt, null while prompting
+  response: string | null;
+};
+
+export enum NormalizationStep {
+  // e.g. "World War 2" becomes "world war two"
+  numberToWords,
+  // e.g. "Johann Sebastian Bach" becomes "bach"
+  firstNameRemoval,
+}
@@ -0,0 +1,21 @@
+export enum ApiResultStatus {
+  ok,
+  empty,
+  networkError,
+  serverError,
+  cancelled,
+}
+
+export type ApiResult<T> =
+  | { status: ApiResultStatus.ok; data: T }
+  | { status: ApiResultStatus.empty }
+  // the API couldn't be reached at all
+  | { status: ApiResultStatus.networkError }
+  // the API answered with an error status code
+  | { status: ApiResultStatus.serverError; code: number }
+  | { status: ApiResultStatus.cancelled };
+
+export type ApiError = Extract<
+  ApiResult<unknown>,
+  { status: ApiResultStatus.networkError | ApiResultStatus.serverError }
+>;
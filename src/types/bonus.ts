@@ -1,4 +1,6 @@
+import { AnswerPrompt } from './answerline';
 import { Category, Difficulty, Subcategory, Tournament } from './questions';
+import { JudgeVerdict } from './tossups';
 
 export type Bonus = {
   leadin: string;
@@ -8,6 +10,8 @@ export type Bonus = {
   difficulty: Difficulty;
   tournament: Tournament;
   year: number;
+  round?: number;
+  number?: number;
   parts: BonusPart[];
 };
 
@@ -30,6 +34,8 @@ export type BonusResult = {
   score: BonusScore;
   parts: BonusPartResult[];
   bonus: Bonus;
+  // identifies the result, missing from results saved before it was recorded
+  judgedAt?: number;
 };
 
 export type BonusPartResult = {
@@ -37,4 +43,9 @@ export type BonusPartResult = {
   userAnswer: string;
   isCorrect: boolean;
   buzzIndex: number;
+  overridden: boolean;
+  // prompts before the final answer, missing from results saved before them
+  prompts?: AnswerPrompt[];
+  // missing from results saved before verdicts were recorded
+  verdict?: JudgeVerdict | null;
 };
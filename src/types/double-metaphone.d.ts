@@ -0,0 +1,4 @@
+declare module 'double-metaphone' {
+  const doubleMetaphone: (value: string) => [string, string];
+  export default doubleMetaphone;
+}
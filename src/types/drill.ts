@@ -0,0 +1,9 @@
+export enum DrillType {
+  tossups,
+  bonuses,
+}
+
+export enum DrillLimit {
+  count,
+  time,
+}
@@ -0,0 +1,18 @@
+import { Tossup, TossupScore } from './tossups';
+
+export type MatchPlayer = {
+  id: string;
+  name: string;
+  team: string;
+};
+
+export type MatchBuzz = {
+  playerId: string;
+  buzzIndex: number;
+  score: TossupScore;
+};
+
+export type ScoresheetRow = {
+  tossup: Tossup;
+  buzzes: MatchBuzz[];
+};
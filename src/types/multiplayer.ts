@@ -0,0 +1,62 @@
+import { Tossup, TossupWord } from './tossups';
+
+/**
+ * Message schema for multiplayer rooms, shared by the client and the reference
+ * server in `server/`. Every message is a JSON object with a `type` field.
+ *
+ * The room host supplies tossups and judges answers (the server has no access
+ * to the answer matching), while the server owns the reading clock, the buzz
+ * race and the scores. Words are streamed to players as they are read, so the
+ * text can't be read ahead of time.
+ */
+
+export type Player = {
+  id: string;
+  name: string;
+  team: string;
+  score: number;
+  lockedOut: boolean;
+};
+
+export type ClientMessage =
+  // join (or create) a room, the first player in a room becomes the host
+  | { type: 'join'; room: string; name: string; team: string }
+  // host only, start reading a tossup
+  | {
+      type: 'tossup';
+      tossup: Tossup;
+      words: TossupWord[];
+      powerIndex: number;
+      readingDelay: number;
+    }
+  | { type: 'buzz' }
+  // answer from the player who buzzed
+  | { type: 'answer'; answer: string }
+  // host only, the ruling for the answer of the buzzing player
+  | {
+      type: 'ruling';
+      playerId: string;
+      ruling: 'correct' | 'incorrect' | 'prompt';
+    };
+
+export type ServerMessage =
+  | { type: 'joined'; playerId: string; room: string }
+  // sent whenever the roster, scores or lockouts change
+  | { type: 'players'; hostId: string; players: Player[] }
+  | { type: 'tossupStarted'; wordCount: number }
+  | { type: 'word'; index: number; word: TossupWord }
+  // reading stops until the buzz is ruled on
+  | { type: 'buzzed'; playerId: string; buzzIndex: number }
+  // host only, an answer waiting for a ruling
+  | { type: 'judge'; playerId: string; answer: string }
+  | { type: 'prompted'; playerId: string; answer: string }
+  | {
+      type: 'ruled';
+      playerId: string;
+      answer: string;
+      isCorrect: boolean;
+      score: number;
+    }
+  // the full tossup is only revealed once it is over
+  | { type: 'tossupEnded'; tossup: Tossup }
+  | { type: 'error'; message: string };
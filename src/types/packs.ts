@@ -0,0 +1,26 @@
+import { Bonus } from './bonus';
+import { Category, Difficulty, Subcategory, Tournament } from './questions';
+import { Tossup } from './tossups';
+
+export type PackParams = {
+  categories: Category[];
+  subcategories: Subcategory[];
+  difficulties: Difficulty[];
+  tournaments: Tournament[];
+  fromYear: number;
+};
+
+export type PackInfo = {
+  id: string;
+  name: string;
+  params: PackParams;
+  tossupCount: number;
+  bonusCount: number;
+  size: number;
+  downloadedAt: number;
+};
+
+export type Pack = PackInfo & {
+  tossups: Tossup[];
+  bonuses: Bonus[];
+};
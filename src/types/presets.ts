@@ -0,0 +1,7 @@
+import { QuestionSettings } from './questions';
+
+export type Preset = QuestionSettings & {
+  id: string;
+  name: string;
+  readingSpeed: number;
+};
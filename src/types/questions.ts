@@ -494,3 +494,11 @@ export type QuestionParameter =
   | Subcategory
   | Difficulty
   | Tournament;
+
+export type QuestionSettings = {
+  categories: Category[];
+  subcategories: Subcategory[];
+  difficulties: Difficulty[];
+  tournaments: Tournament[];
+  fromYear: number;
+};
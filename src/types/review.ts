@@ -0,0 +1,15 @@
+import { Tossup } from './tossups';
+
+export type ReviewSchedule = {
+  repetitions: number;
+  interval: number;
+  easeFactor: number;
+  due: number;
+};
+
+export type ReviewItem = ReviewSchedule & {
+  key: string;
+  tossup: Tossup;
+  judgedAt: number;
+  previous: ReviewSchedule | null;
+};
@@ -0,0 +1,10 @@
+import { BonusResult } from './bonus';
+import { TossupResult } from './tossups';
+
+export type Session = {
+  id: string;
+  name: string;
+  createdAt: number;
+  tossupResults: TossupResult[];
+  bonusResults: BonusResult[];
+};
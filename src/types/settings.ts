@@ -0,0 +1,30 @@
+export enum AnswerTimer {
+  tossup,
+  bonus,
+  prompt,
+}
+
+export type SpeechSettings = {
+  // read questions aloud instead of revealing them word by word
+  isEnabled: boolean;
+  // voiceURI of the chosen voice, the browser default when empty
+  voice: string;
+  rate: number;
+  // only listen, the question text is shown once judged
+  hideText: boolean;
+};
+
+export enum ReadingPacing {
+  // every word takes the same time
+  uniform,
+  // longer words take longer, with pauses at punctuation and the power mark
+  natural,
+}
+
+export type PacingSettings = {
+  pacing: ReadingPacing;
+  // pauses in ms, only used by natural pacing
+  commaPause: number;
+  periodPause: number;
+  powerPause: number;
+};
@@ -1,3 +1,9 @@
+import {
+  AnswerPrompt,
+  ClauseType,
+  JudgedCondition,
+  NormalizationStep,
+} from './answerline';
 import { Category, Difficulty, Subcategory, Tournament } from './questions';
 
 export type Tossup = {
@@ -11,6 +17,8 @@ export type Tossup = {
   difficulty: Difficulty;
   tournament: Tournament;
   year: number;
+  round?: number;
+  number?: number;
 };
 
 export enum TossupScore {
@@ -25,6 +33,14 @@ export type TossupWord = {
   bold: boolean;
 };
 
+export type TossupTiming = {
+  // when the first word started being read
+  startedAt: number;
+  // ms after the start each word became visible
+  wordTimes: number[];
+  buzzedAt: number;
+};
+
 export type TossupResult = {
   isCorrect: boolean;
   userAnswer: string;
@@ -32,6 +48,16 @@ export type TossupResult = {
   buzzIndex: number;
   words: TossupWord[];
   tossup: Tossup;
+  judgedAt: number;
+  overridden: boolean;
+  // ms spent paused while reading, missing from results saved before pausing
+  pausedTime?: number;
+  // missing from results saved before buzz timing was recorded
+  timing?: TossupTiming;
+  // missing from results saved before verdicts were recorded
+  verdict?: JudgeVerdict | null;
+  // prompts before the final answer, missing from results saved before them
+  prompts?: AnswerPrompt[];
 };
 
 export enum JudgeResult {
@@ -40,6 +66,37 @@ export enum JudgeResult {
   prompt,
 }
 
+export type AnswerMatch = {
+  // the answer as written in the answerline
+  answer: string;
+  type: ClauseType;
+  // similarity to the user answer, from 0 to 1
+  rating: number;
+};
+
+export type JudgeVerdict = {
+  result: JudgeResult;
+  // the normalized user answer
+  userAnswer: string;
+  // the answer that decided the ruling, or the closest one if none matched,
+  // null when the answerline has nothing to compare to
+  match: AnswerMatch | null;
+  // the rating has to be above it to match
+  threshold: number;
+  // normalization steps that changed the user answer or the matched answer
+  steps: NormalizationStep[];
+  // the condition that decided the ruling, e.g. a prompt until read
+  condition: JudgedCondition | null;
+  prompt: Pick<AnswerPrompt, 'answer' | 'question'> | null;
+};
+
+export enum JudgeStrategy {
+  dice,
+  levenshtein,
+  tokenSet,
+  phonetic,
+}
+
 export type Answer = {
   answer: string;
   frequency: string;
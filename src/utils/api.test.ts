@@ -0,0 +1,60 @@
+import { ApiResult, ApiResultStatus } from '../types/api';
+import {
+  getResultData,
+  getRetryDelay,
+  isApiError,
+  isRetryable,
+  isUnreachable,
+  mapResult,
+} from './api';
+
+const ok: ApiResult<number[]> = { status: ApiResultStatus.ok, data: [1, 2] };
+const empty: ApiResult<number[]> = { status: ApiResultStatus.empty };
+const networkError = { status: ApiResultStatus.networkError } as const;
+const badRequest = { status: ApiResultStatus.serverError, code: 400 } as const;
+const badGateway = { status: ApiResultStatus.serverError, code: 502 } as const;
+
+describe('Classifying results', () => {
+  test('only network and server errors are errors', () => {
+    expect(isApiError(ok)).toBe(false);
+    expect(isApiError(empty)).toBe(false);
+    expect(isApiError({ status: ApiResultStatus.cancelled })).toBe(false);
+    expect(isApiError(networkError)).toBe(true);
+    expect(isApiError(badRequest)).toBe(true);
+  });
+
+  test('client errors are not retried', () => {
+    expect(isRetryable(networkError)).toBe(true);
+    expect(isRetryable(badGateway)).toBe(true);
+    expect(isRetryable(badRequest)).toBe(false);
+  });
+
+  test('the API is unreachable on network errors and 5xx responses', () => {
+    expect(isUnreachable(networkError)).toBe(true);
+    expect(isUnreachable(badGateway)).toBe(true);
+    expect(isUnreachable(badRequest)).toBe(false);
+    expect(isUnreachable(empty)).toBe(false);
+  });
+
+  test('retries back off exponentially', () => {
+    expect([0, 1, 2].map(getRetryDelay)).toEqual([500, 1000, 2000]);
+  });
+});
+
+describe('Reading results', () => {
+  test('data is only transformed for ok results', () => {
+    expect(mapResult(ok, (data) => data.length)).toEqual({
+      status: ApiResultStatus.ok,
+      data: 2,
+    });
+    expect(mapResult(badRequest, (data: number[]) => data.length)).toBe(
+      badRequest,
+    );
+  });
+
+  test('failed and empty results fall back', () => {
+    expect(getResultData(ok, [])).toEqual([1, 2]);
+    expect(getResultData(empty, [])).toEqual([]);
+    expect(getResultData(networkError, [3])).toEqual([3]);
+  });
+});
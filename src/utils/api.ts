@@ -0,0 +1,114 @@
+import axios from 'axios';
+import { ApiError, ApiResult, ApiResultStatus } from '../types/api';
+import logger from './logger';
+
+const MAX_RETRIES = 2;
+const BASE_RETRY_DELAY = 500;
+
+type RequestOptions = {
+  signal?: AbortSignal;
+  retries?: number;
+};
+
+/**
+ * Classify a failed request. Requests without a response never reached the
+ * API.
+ */
+export const getErrorResult = (err: unknown): ApiError => {
+  if (axios.isAxiosError(err) && err.response !== undefined) {
+    return { status: ApiResultStatus.serverError, code: err.response.status };
+  }
+  return { status: ApiResultStatus.networkError };
+};
+
+/**
+ * Check if a failed request is worth retrying, client errors won't succeed on
+ * a second try.
+ */
+export const isRetryable = (result: ApiError) =>
+  result.status === ApiResultStatus.networkError || result.code >= 500;
+
+/**
+ * Check if a request failed because the API couldn't be reached, as opposed to
+ * the API rejecting it. The dev server proxy answers with a 5xx when the API
+ * is down.
+ */
+export const isUnreachable = <T>(result: ApiResult<T>) =>
+  result.status === ApiResultStatus.networkError ||
+  (result.status === ApiResultStatus.serverError && result.code >= 500);
+
+/**
+ * Exponential backoff, e.g. 500ms, 1s, 2s, ...
+ */
+export const getRetryDelay = (attempt: number) =>
+  BASE_RETRY_DELAY * 2 ** attempt;
+
+export const isApiError = <T>(result: ApiResult<T>): result is ApiError =>
+  result.status === ApiResultStatus.networkError ||
+  result.status === ApiResultStatus.serverError;
+
+/**
+ * Transform the data of a successful result.
+ */
+export const mapResult = <T, U>(
+  result: ApiResult<T>,
+  transform: (data: T) => U,
+): ApiResult<U> =>
+  result.status === ApiResultStatus.ok
+    ? { status: ApiResultStatus.ok, data: transform(result.data) }
+    : result;
+
+/**
+ * Get the data of a result, or a fallback for empty and failed results.
+ */
+export const getResultData = <T>(result: ApiResult<T>, fallback: T) =>
+  result.status === ApiResultStatus.ok ? result.data : fallback;
+
+export const getApiErrorMessage = (error: ApiError) =>
+  error.status === ApiResultStatus.networkError
+    ? "Couldn't reach QBHub. Check your network connection and try again."
+    : `QBHub ran into a problem (error ${error.code}). Try again in a bit.`;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const id = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(id);
+      resolve();
+    });
+  });
+
+/**
+ * GET a JSON resource, retrying network and server errors with exponential
+ * backoff. Empty arrays are reported as empty results. Aborting the signal
+ * cancels the request and any pending retries.
+ */
+export const get = async <T>(
+  url: string,
+  { signal, retries = MAX_RETRIES }: RequestOptions = {},
+): Promise<ApiResult<T>> => {
+  const source = axios.CancelToken.source();
+  signal?.addEventListener('abort', () => source.cancel());
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (signal?.aborted) return { status: ApiResultStatus.cancelled };
+
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      const { data } = await axios.get<T>(url, { cancelToken: source.token });
+      if (Array.isArray(data) && data.length === 0) {
+        return { status: ApiResultStatus.empty };
+      }
+      return { status: ApiResultStatus.ok, data };
+    } catch (err) {
+      if (axios.isCancel(err)) return { status: ApiResultStatus.cancelled };
+
+      const result = getErrorResult(err);
+      if (!isRetryable(result) || attempt >= retries) return result;
+
+      logger.info(`Request to ${url} failed, retrying.`);
+      // eslint-disable-next-line no-await-in-loop
+      await wait(getRetryDelay(attempt), signal);
+    }
+  }
+};
@@ -30,6 +30,18 @@ export const combine = <T>(...arrs: T[][]) => arrs.flat();
  */
 export const random = <T>(arr: T[]) => arr[getRand(arr.length)];
 
+/**
+ * Get n random elements without replacement, in random order.
+ */
+export const sample = <T>(arr: T[], n: number) => {
+  const copy = [...arr];
+  for (let i = 0; i < Math.min(n, copy.length); i += 1) {
+    const j = i + getRand(copy.length - i);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy.slice(0, n);
+};
+
 /**
  * Create ranged sequences, similar to Python's `range`.
  */
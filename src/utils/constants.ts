@@ -5,6 +5,13 @@ import {
   Subcategory,
   Tournament,
 } from '../types/questions';
+import {
+  AnswerTimer,
+  PacingSettings,
+  ReadingPacing,
+  SpeechSettings,
+} from '../types/settings';
+import { JudgeStrategy } from '../types/tossups';
 
 const CATEGORY_DATA = [
   { key: Category['Current Events'], name: 'Current Events' },
@@ -2771,11 +2778,105 @@ export const TOURNAMENTS = TOURNAMENT_DATA.map(({ key }) => key);
 export const MIN_TOURNAMENT_YEAR = 2005;
 export const MAX_TOURNAMENT_YEAR = 2020;
 
+export const PACKET_TOSSUP_COUNT = 20;
+export const MAX_PACKET_ROUND = 25;
+
+export const DRILL_ADVANCE_DELAY = 2000;
+export const MAX_DRILL_AMOUNT = 100;
+
 export const READING_SPEED_LS_KEY = 'reading_speed';
 export const CATEGORIES_LS_KEY = 'categories';
 export const SUBCATEGORIES_LS_KEY = 'subcategories';
 export const DIFFICULTIES_LS_KEY = 'difficulties';
 export const TOURNAMENTS_LS_KEY = 'tournaments';
 export const FROM_YEAR_LS_KEY = 'from_year';
+export const JUDGE_STRATEGY_LS_KEY = 'judge_strategy';
+export const JUDGE_THRESHOLDS_LS_KEY = 'judge_thresholds';
+export const HISTORY_LS_KEY = 'history';
+export const REVIEW_QUEUE_LS_KEY = 'review_queue';
+export const PRESETS_LS_KEY = 'presets';
+export const CATEGORY_WEIGHTS_LS_KEY = 'category_weights';
+export const ANSWER_TIMES_LS_KEY = 'answer_times';
+export const SPEECH_LS_KEY = 'speech';
+export const VOICE_INPUT_LS_KEY = 'voice_input';
+export const PACING_LS_KEY = 'pacing';
+
+export const HISTORY_VERSION = 1;
+
+export const DB_NAME = 'qbhub';
+export const DB_VERSION = 1;
+export const PACKS_STORE = 'packs';
+export const PACK_QUESTION_COUNT = 100;
 
 export const DEFAULT_READING_SPEED = 60;
+
+export const READING_PACING_DATA = [
+  { key: ReadingPacing.uniform, name: 'Uniform' },
+  { key: ReadingPacing.natural, name: 'Natural' },
+];
+export const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  pacing: ReadingPacing.uniform,
+  commaPause: 150,
+  periodPause: 400,
+  powerPause: 300,
+};
+export const MAX_READING_PAUSE = 2000;
+
+// standard ACF distribution, categories outside of it are skipped in mixed practice
+export const DEFAULT_CATEGORY_WEIGHTS: Record<Category, number> = {
+  [Category.Literature]: 4,
+  [Category.History]: 4,
+  [Category.Science]: 4,
+  [Category['Fine Arts']]: 3,
+  [Category.Religion]: 1,
+  [Category.Mythology]: 1,
+  [Category.Philosophy]: 1,
+  [Category['Social Science']]: 1,
+  [Category.Geography]: 1,
+  [Category['Current Events']]: 1,
+  [Category.Trash]: 1,
+};
+export const MIN_CATEGORY_WEIGHT = 1;
+export const MAX_CATEGORY_WEIGHT = 10;
+// questions kept on hand to sample the queue from, leftovers carry over
+export const WEIGHTED_POOL_SIZE = 40;
+export const QUEUE_BATCH_SIZE = 10;
+
+// answer times are in seconds, 0 leaves the answer untimed
+export const ANSWER_TIMER_DATA = [
+  { key: AnswerTimer.tossup, name: 'Tossup' },
+  { key: AnswerTimer.bonus, name: 'Bonus Part' },
+  { key: AnswerTimer.prompt, name: 'Prompt' },
+];
+export const DEFAULT_ANSWER_TIMES: Record<AnswerTimer, number> = {
+  [AnswerTimer.tossup]: 5,
+  [AnswerTimer.bonus]: 5,
+  [AnswerTimer.prompt]: 5,
+};
+export const ANSWER_TIME_OPTIONS = [0, 3, 5, 7, 10, 15, 20];
+export const MAX_ANSWER_TIME = 60;
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  isEnabled: false,
+  voice: '',
+  rate: 1,
+  hideText: false,
+};
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+export const ROOM_SERVER_PORT = 3002;
+
+export const JUDGE_STRATEGY_DATA = [
+  { key: JudgeStrategy.dice, name: 'Dice Coefficient' },
+  { key: JudgeStrategy.levenshtein, name: 'Levenshtein Ratio' },
+  { key: JudgeStrategy.tokenSet, name: 'Token Set' },
+  { key: JudgeStrategy.phonetic, name: 'Phonetic (Double Metaphone)' },
+];
+export const DEFAULT_JUDGE_STRATEGY = JudgeStrategy.dice;
+export const DEFAULT_JUDGE_THRESHOLDS = {
+  [JudgeStrategy.dice]: 0.6,
+  [JudgeStrategy.levenshtein]: 0.75,
+  [JudgeStrategy.tokenSet]: 0.8,
+  [JudgeStrategy.phonetic]: 0.8,
+};
@@ -0,0 +1,49 @@
+import { DB_NAME, DB_VERSION, PACKS_STORE } from './constants';
+
+/**
+ * Open the app's IndexedDB database, creating its stores on first use.
+ */
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PACKS_STORE)) {
+        db.createObjectStore(PACKS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request in its own transaction, resolving once it commits.
+ */
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const getAll = <T>(storeName: string) =>
+  run<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const put = <T>(storeName: string, value: T) =>
+  run(storeName, 'readwrite', (store) => store.put(value));
+
+export const remove = (storeName: string, key: string) =>
+  run(storeName, 'readwrite', (store) => store.delete(key));
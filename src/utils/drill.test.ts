@@ -0,0 +1,86 @@
+import { Bonus, BonusResult } from '../types/bonus';
+import { DrillLimit, DrillType } from '../types/drill';
+import { Tossup, TossupResult, TossupScore } from '../types/tossups';
+import { getDrillSummary, isDrillOver } from './drill';
+
+const createTossupResult = (score: TossupScore): TossupResult => ({
+  isCorrect: score > 0,
+  userAnswer: '',
+  score,
+  buzzIndex: 4,
+  words: Array(10).fill({ word: 'word', bold: false }),
+  tossup: {} as Tossup,
+  judgedAt: 0,
+  overridden: false,
+});
+
+const createBonusResult = (correctParts: number): BonusResult => ({
+  score: 10 * correctParts,
+  bonus: {} as Bonus,
+  parts: [1, 2, 3].map((number) => ({
+    number,
+    isCorrect: number <= correctParts,
+    userAnswer: '',
+    buzzIndex: 0,
+    overridden: false,
+  })),
+});
+
+const drill = {
+  type: DrillType.tossups,
+  limit: DrillLimit.count,
+  amount: 3,
+  startedAt: 0,
+  finishedAt: 2 * 60 * 1000,
+  tossupResults: [
+    createTossupResult(TossupScore.power),
+    createTossupResult(TossupScore.neg),
+  ],
+  bonusResults: [],
+};
+
+describe('Drills', () => {
+  test('count drills end after the question count', () => {
+    expect(isDrillOver(drill, 0)).toBe(false);
+    expect(
+      isDrillOver(
+        {
+          ...drill,
+          tossupResults: [
+            ...drill.tossupResults,
+            createTossupResult(TossupScore.ten),
+          ],
+        },
+        0,
+      ),
+    ).toBe(true);
+  });
+
+  test('timed drills end when time runs out', () => {
+    const timed = { ...drill, limit: DrillLimit.time, amount: 10 };
+    expect(isDrillOver(timed, 9 * 60 * 1000)).toBe(false);
+    expect(isDrillOver(timed, 10 * 60 * 1000)).toBe(true);
+  });
+
+  test('tossup drills are summarized by PPTU, speed and accuracy', () => {
+    expect(getDrillSummary(drill)).toEqual({
+      questions: 2,
+      points: 10,
+      pointsPerQuestion: 5,
+      accuracy: 0.5,
+      questionsPerMinute: 1,
+      buzzPosition: 0.5,
+    });
+  });
+
+  test('bonus accuracy counts parts', () => {
+    const summary = getDrillSummary({
+      ...drill,
+      type: DrillType.bonuses,
+      bonusResults: [createBonusResult(3), createBonusResult(0)],
+    });
+    expect(summary.pointsPerQuestion).toBe(15);
+    expect(summary.accuracy).toBe(0.5);
+    expect(summary.buzzPosition).toBeNull();
+  });
+});
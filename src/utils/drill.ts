@@ -0,0 +1,79 @@
+import { BonusResult } from '../types/bonus';
+import { DrillLimit, DrillType } from '../types/drill';
+import { TossupResult } from '../types/tossups';
+import { getBonusResultsScore, getTossupResultsScore } from './history';
+import { ratio } from './number';
+import { getBuzzPosition } from './stats';
+
+type Drill = {
+  type: DrillType;
+  limit: DrillLimit;
+  amount: number;
+  startedAt: number;
+  finishedAt: number;
+  tossupResults: TossupResult[];
+  bonusResults: BonusResult[];
+};
+
+export type DrillSummary = {
+  questions: number;
+  points: number;
+  // PPTU or PPB
+  pointsPerQuestion: number;
+  // correct tossups or bonus parts
+  accuracy: number;
+  questionsPerMinute: number;
+  // average buzz position, tossups only
+  buzzPosition: number | null;
+};
+
+const getQuestionCount = (drill: Drill) =>
+  drill.type === DrillType.tossups
+    ? drill.tossupResults.length
+    : drill.bonusResults.length;
+
+export const getRemainingTime = (drill: Drill, now: number) =>
+  Math.max(0, drill.startedAt + drill.amount * 60 * 1000 - now);
+
+/**
+ * Get how far along the drill is, from 0 to 1.
+ */
+export const getDrillProgress = (drill: Drill, now: number) =>
+  drill.limit === DrillLimit.count
+    ? ratio(getQuestionCount(drill), drill.amount)
+    : 1 - ratio(getRemainingTime(drill, now), drill.amount * 60 * 1000);
+
+export const isDrillOver = (drill: Drill, now: number) =>
+  getDrillProgress(drill, now) >= 1;
+
+export const getDrillSummary = (drill: Drill): DrillSummary => {
+  const questions = getQuestionCount(drill);
+  const minutes = (drill.finishedAt - drill.startedAt) / (60 * 1000);
+
+  if (drill.type === DrillType.tossups) {
+    const results = drill.tossupResults;
+    const points = getTossupResultsScore(results);
+    return {
+      questions,
+      points,
+      pointsPerQuestion: ratio(points, questions),
+      accuracy: ratio(results.filter((r) => r.isCorrect).length, questions),
+      questionsPerMinute: ratio(questions, minutes),
+      buzzPosition: ratio(
+        results.reduce((acc, r) => acc + getBuzzPosition(r), 0),
+        questions,
+      ),
+    };
+  }
+
+  const parts = drill.bonusResults.flatMap((r) => r.parts);
+  const points = getBonusResultsScore(drill.bonusResults);
+  return {
+    questions,
+    points,
+    pointsPerQuestion: ratio(points, questions),
+    accuracy: ratio(parts.filter((p) => p.isCorrect).length, parts.length),
+    questionsPerMinute: ratio(questions, minutes),
+    buzzPosition: null,
+  };
+};
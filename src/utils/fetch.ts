@@ -1,4 +1,4 @@
-import axios from 'axios';
+import { ApiResult, ApiResultStatus } from '../types/api';
 import { Bonus } from '../types/bonus';
 import {
   Category,
@@ -7,8 +7,10 @@ import {
   Tournament,
 } from '../types/questions';
 import { Answer, Clue, Tossup } from '../types/tossups';
-import { MIN_TOURNAMENT_YEAR } from './constants';
+import * as api from './api';
+import { MIN_TOURNAMENT_YEAR, PACK_QUESTION_COUNT } from './constants';
 import logger from './logger';
+import { getPackBonuses, getPackTossups } from './packs';
 import { cleanTossupText, normalizeTags } from './string';
 
 const API_URL = '/api';
@@ -16,6 +18,7 @@ const TOSSUP_URL = `${API_URL}/tossups`;
 const BONUS_URL = `${API_URL}/bonuses`;
 const FREQ_URL = `${API_URL}/freq`;
 const CLUES_URL = `${API_URL}/clues`;
+const DEFAULT_LIMIT = 10;
 
 export const combineParams = (...params: string[]) =>
   params.filter(Boolean).join('&');
@@ -29,6 +32,7 @@ type FetchParams = {
   difficulties?: Difficulty[];
   tournaments?: Tournament[];
   fromYear?: number;
+  round?: number;
   text?: string;
   answer?: string;
   limit?: number;
@@ -41,9 +45,10 @@ const createParams = ({
   difficulties = [],
   tournaments = [],
   fromYear = MIN_TOURNAMENT_YEAR,
+  round,
   text = '',
   answer = '',
-  limit = 10,
+  limit = DEFAULT_LIMIT,
   offset = 0,
 }: FetchParams) =>
   combineParams(
@@ -52,99 +57,143 @@ const createParams = ({
     createParamsFromArray('difficulties', difficulties),
     createParamsFromArray('tournaments', tournaments),
     `from=${fromYear}`,
+    round !== undefined ? `round=${round}` : '',
     text.length ? `text=${text}` : '',
     answer.length ? `answer=${answer}` : '',
     `limit=${limit}`,
     `offset=${offset}`,
   );
 
-export const fetchTossups = async (params: FetchParams): Promise<Tossup[]> => {
+const normalizeTossup = (tu: Tossup): Tossup => ({
+  text: cleanTossupText(tu.text),
+  answer: tu.answer,
+  formattedText: cleanTossupText(tu.formattedText),
+  formattedAnswer: normalizeTags(tu.formattedAnswer),
+  normalizedAnswer: tu.normalizedAnswer,
+  category: tu.category,
+  subcategory: tu.subcategory,
+  difficulty: tu.difficulty,
+  tournament: tu.tournament,
+  year: tu.year,
+  round: tu.round,
+  number: tu.number,
+});
+
+const normalizeBonus = (bn: Bonus): Bonus => ({
+  leadin: bn.leadin,
+  formattedLeadin: normalizeTags(bn.formattedLeadin),
+  category: bn.category,
+  subcategory: bn.subcategory,
+  difficulty: bn.difficulty,
+  tournament: bn.tournament,
+  year: bn.year,
+  round: bn.round,
+  number: bn.number,
+  parts: bn.parts.map((part) => ({
+    ...part,
+    formattedText: normalizeTags(part.formattedText),
+    formattedAnswer: normalizeTags(part.formattedAnswer),
+  })),
+});
+
+/**
+ * Fall back to offline packs when the API can't be reached.
+ */
+const withPackFallback = async <T>(
+  result: ApiResult<T[]>,
+  getPackQuestions: () => Promise<T[]>,
+): Promise<ApiResult<T[]>> => {
+  if (!api.isUnreachable(result)) return result;
+
+  const questions = await getPackQuestions();
+  if (questions.length === 0) return result;
+
+  logger.info('API unreachable, reading questions from offline packs.');
+  return { status: ApiResultStatus.ok, data: questions };
+};
+
+export const fetchTossups = async (
+  params: FetchParams,
+  signal?: AbortSignal,
+) => {
   const url = addParams(TOSSUP_URL, createParams(params));
 
-  try {
-    logger.info('Fetching tossups.');
-    const { data } = await axios.get<Tossup[]>(url);
-    const tossups = data.map((tu) => ({
-      text: cleanTossupText(tu.text),
-      answer: tu.answer,
-      formattedText: cleanTossupText(tu.formattedText),
-      formattedAnswer: normalizeTags(tu.formattedAnswer),
-      normalizedAnswer: tu.normalizedAnswer,
-      category: tu.category,
-      subcategory: tu.subcategory,
-      difficulty: tu.difficulty,
-      tournament: tu.tournament,
-      year: tu.year,
-    }));
-    logger.info('Received tossups.');
-    return tossups;
-  } catch (err) {
-    return [];
-  }
+  logger.info('Fetching tossups.');
+  const result = await api.get<Tossup[]>(url, { signal });
+  logger.info('Received tossups.');
+  return withPackFallback(
+    api.mapResult(result, (data) => data.map(normalizeTossup)),
+    () => getPackTossups(params, params.limit ?? DEFAULT_LIMIT),
+  );
 };
 
-export const fetchBonuses = async (params: FetchParams) => {
+export const fetchBonuses = async (
+  params: FetchParams,
+  signal?: AbortSignal,
+) => {
   const url = addParams(BONUS_URL, createParams(params));
 
-  try {
-    logger.info('Fetching bonuses.');
-    const { data } = await axios.get<Bonus[]>(url);
-    const bonuses = data.map((bn) => ({
-      leadin: bn.leadin,
-      formattedLeadin: normalizeTags(bn.formattedLeadin),
-      category: bn.category,
-      subcategory: bn.subcategory,
-      difficulty: bn.difficulty,
-      tournament: bn.tournament,
-      year: bn.year,
-      parts: bn.parts.map((part) => ({
-        ...part,
-        formattedText: normalizeTags(part.formattedText),
-        formattedAnswer: normalizeTags(part.formattedAnswer),
-      })),
-    }));
-    logger.info('Received bonuses.');
-    return bonuses;
-  } catch (err) {
-    return [];
-  }
+  logger.info('Fetching bonuses.');
+  const result = await api.get<Bonus[]>(url, { signal });
+  logger.info('Received bonuses.');
+  return withPackFallback(
+    api.mapResult(result, (data) => data.map(normalizeBonus)),
+    () => getPackBonuses(params, params.limit ?? DEFAULT_LIMIT),
+  );
+};
+
+/**
+ * Download questions for an offline pack, skipping the offline fallback.
+ */
+export const fetchPack = async (
+  params: FetchParams,
+): Promise<ApiResult<{ tossups: Tossup[]; bonuses: Bonus[] }>> => {
+  const packParams = { ...params, limit: PACK_QUESTION_COUNT };
+
+  logger.info('Fetching pack.');
+  const [tossups, bonuses] = await Promise.all([
+    api.get<Tossup[]>(addParams(TOSSUP_URL, createParams(packParams))),
+    api.get<Bonus[]>(addParams(BONUS_URL, createParams(packParams))),
+  ]);
+  logger.info('Received pack.');
+
+  if (api.isApiError(tossups)) return tossups;
+  if (api.isApiError(bonuses)) return bonuses;
+  return {
+    status: ApiResultStatus.ok,
+    data: {
+      tossups: api.getResultData(tossups, []).map(normalizeTossup),
+      bonuses: api.getResultData(bonuses, []).map(normalizeBonus),
+    },
+  };
 };
 
-export const fetchFreq = async (params: FetchParams): Promise<Answer[]> => {
+export const fetchFreq = async (params: FetchParams, signal?: AbortSignal) => {
   const url = addParams(FREQ_URL, createParams(params));
 
-  try {
-    logger.info('Fetching frequency list.');
-    const { data } = await axios.get<Answer[]>(url);
-    logger.info('Received frequency list.');
-    return data;
-  } catch (err) {
-    return [];
-  }
+  logger.info('Fetching frequency list.');
+  const result = await api.get<Answer[]>(url, { signal });
+  logger.info('Received frequency list.');
+  return result;
 };
 
-export const fetchAnswers = async (params: FetchParams): Promise<Answer[]> => {
+export const fetchAnswers = async (
+  params: FetchParams,
+  signal?: AbortSignal,
+) => {
   const url = addParams(FREQ_URL, createParams(params));
 
-  try {
-    logger.info('Fetching answers.');
-    const { data } = await axios.get<Answer[]>(url);
-    logger.info('Received answers.');
-    return data;
-  } catch (err) {
-    return [];
-  }
+  logger.info('Fetching answers.');
+  const result = await api.get<Answer[]>(url, { signal });
+  logger.info('Received answers.');
+  return result;
 };
 
-export const fetchClues = async (params: FetchParams): Promise<Clue[]> => {
+export const fetchClues = async (params: FetchParams, signal?: AbortSignal) => {
   const url = addParams(CLUES_URL, createParams(params));
 
-  try {
-    logger.info('Fetching clues.');
-    const { data } = await axios.get<Clue[]>(url);
-    logger.info('Received clues.');
-    return data;
-  } catch (err) {
-    return [];
-  }
+  logger.info('Fetching clues.');
+  const result = await api.get<Clue[]>(url, { signal });
+  logger.info('Received clues.');
+  return result;
 };
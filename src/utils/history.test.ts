@@ -0,0 +1,49 @@
+import { HISTORY_LS_KEY } from './constants';
+import { createSession, restoreHistory, saveHistory } from './history';
+
+const quotaExceeded = () =>
+  new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+
+describe('Saving history', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.localStorage.clear();
+  });
+
+  test('the oldest sessions are dropped until the history fits', () => {
+    const sessions = ['first', 'second', 'third'].map(createSession);
+    const setItem = jest
+      .spyOn(Storage.prototype, 'setItem')
+      .mockImplementationOnce(() => {
+        throw quotaExceeded();
+      });
+
+    expect(saveHistory(sessions[2].id, sessions)).toBe(true);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    const saved = JSON.parse(
+      window.localStorage.getItem(HISTORY_LS_KEY) as string,
+    );
+    expect(saved.sessions.map(({ name }: { name: string }) => name)).toEqual([
+      'second',
+      'third',
+    ]);
+  });
+
+  test('the current session is never dropped', () => {
+    const sessions = ['first', 'second'].map(createSession);
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw quotaExceeded();
+    });
+
+    expect(() => saveHistory(sessions[0].id, sessions)).not.toThrow();
+    expect(saveHistory(sessions[0].id, sessions)).toBe(false);
+  });
+
+  test('history is parsed once', () => {
+    const getItem = jest.spyOn(Storage.prototype, 'getItem');
+    const history = restoreHistory();
+
+    expect(restoreHistory()).toBe(history);
+    expect(getItem).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { BonusResult } from '../types/bonus';
+import { Session } from '../types/sessions';
+import { TossupResult } from '../types/tossups';
+import { HISTORY_LS_KEY, HISTORY_VERSION } from './constants';
+import { restore, save } from './settings';
+
+type History = {
+  version: number;
+  currentId: string;
+  sessions: Session[];
+};
+
+/**
+ * Create an empty session, named after its creation time by default.
+ */
+export const createSession = (name?: string): Session => {
+  const createdAt = Date.now();
+  return {
+    id: `${createdAt.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name: name ?? new Date(createdAt).toLocaleString(),
+    createdAt,
+    tossupResults: [],
+    bonusResults: [],
+  };
+};
+
+const trySave = (history: History) => {
+  try {
+    save(HISTORY_LS_KEY, history);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Save the sessions, dropping the oldest sessions other than the current one
+ * until the history fits in storage. Returns whether the history was saved.
+ */
+export const saveHistory = (currentId: string, sessions: Session[]) => {
+  let saved = sessions;
+  while (!trySave({ version: HISTORY_VERSION, currentId, sessions: saved })) {
+    const oldest = saved.find(({ id }) => id !== currentId);
+    if (oldest === undefined) return false;
+    saved = saved.filter((session) => session !== oldest);
+  }
+  return true;
+};
+
+const validateHistory = (history: unknown): history is History => {
+  if (typeof history !== 'object' || history === null) return false;
+
+  const { version, currentId, sessions } = history as Record<
+    keyof History,
+    unknown
+  >;
+  return (
+    version === HISTORY_VERSION &&
+    typeof currentId === 'string' &&
+    Array.isArray(sessions) &&
+    sessions.some(
+      (session) =>
+        typeof session === 'object' &&
+        session !== null &&
+        (session as Session).id === currentId,
+    )
+  );
+};
+
+const parseHistory = () => {
+  const history = restore(HISTORY_LS_KEY);
+
+  let parsedHistory: unknown;
+  try {
+    parsedHistory = history === null ? null : JSON.parse(history);
+  } catch (e) {
+    parsedHistory = null;
+  }
+
+  if (!validateHistory(parsedHistory)) {
+    const session = createSession();
+    saveHistory(session.id, [session]);
+    return { currentId: session.id, sessions: [session] };
+  }
+
+  return {
+    currentId: parsedHistory.currentId,
+    sessions: parsedHistory.sessions,
+  };
+};
+
+// parsed once, the sessions and both readers restore from the same history
+let restoredHistory: ReturnType<typeof parseHistory> | undefined;
+
+/**
+ * Restore saved sessions, starting a fresh session if the saved history is
+ * missing, corrupted or from an incompatible version.
+ */
+export const restoreHistory = () => {
+  if (restoredHistory === undefined) restoredHistory = parseHistory();
+  return restoredHistory;
+};
+
+export const restoreCurrentSession = () => {
+  const { currentId, sessions } = restoreHistory();
+  return sessions.find(({ id }) => id === currentId) as Session;
+};
+
+export const getTossupResultsScore = (results: TossupResult[]) =>
+  results.reduce((acc, result) => acc + result.score, 0);
+
+export const getBonusResultsScore = (results: BonusResult[]) =>
+  results.reduce((acc, result) => acc + result.score, 0);
@@ -2,3 +2,35 @@
  * Get a random number between 0 and n -> [0, n), n is noninclusive.
  */
 export const getRand = (n: number) => Math.floor(Math.random() * n);
+
+/**
+ * Divide, defaulting to 0 when there is nothing to divide by.
+ */
+export const ratio = (n: number, d: number) => (d > 0 ? n / d : 0);
+
+/**
+ * Format a byte count for display, e.g. 1536 -> '1.5 KB'.
+ */
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Format a duration for display, e.g. 90500 -> '1:30'.
+ */
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, '0')}`;
+};
+
+/**
+ * Format a short duration in seconds for display, e.g. 1250 -> '1.3s'.
+ */
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
@@ -0,0 +1,40 @@
+import { ReadingPacing } from '../types/settings';
+import { DEFAULT_PACING_SETTINGS } from './constants';
+import { countSyllables, getPause, getWordDelays } from './pacing';
+
+const natural = { ...DEFAULT_PACING_SETTINGS, pacing: ReadingPacing.natural };
+
+describe('Reading pacing', () => {
+  test('syllables are estimated from vowel groups', () => {
+    expect(countSyllables('the')).toBe(1);
+    expect(countSyllables('name')).toBe(1);
+    expect(countSyllables('table')).toBe(2);
+    expect(countSyllables('Chateaubriand')).toBe(3);
+    expect(countSyllables('1848')).toBe(2);
+    expect(countSyllables('—')).toBe(0);
+  });
+
+  test('punctuation and the power mark add pauses', () => {
+    expect(getPause('author,', natural)).toBe(natural.commaPause);
+    expect(getPause('"Ulysses."', natural)).toBe(natural.periodPause);
+    expect(getPause('(*)', natural)).toBe(natural.powerPause);
+    expect(getPause('points', natural)).toBe(0);
+  });
+
+  test('uniform pacing keeps the same delay for every word', () => {
+    expect(
+      getWordDelays(['the', 'Chateaubriand.'], 100, DEFAULT_PACING_SETTINGS),
+    ).toEqual([100, 100]);
+  });
+
+  test('natural pacing takes longer for longer words', () => {
+    const [short, long, power] = getWordDelays(
+      ['the', 'Chateaubriand.', '(*)'],
+      150,
+      natural,
+    );
+    expect(short).toBe(100);
+    expect(long).toBe(300 + natural.periodPause);
+    expect(power).toBe(natural.powerPause);
+  });
+});
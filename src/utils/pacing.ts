@@ -0,0 +1,61 @@
+import { PacingSettings, ReadingPacing } from '../types/settings';
+
+const POWER_MARKER = '(*)';
+// roughly the average syllables per word in English, so an average word keeps
+// the delay of the reading speed
+const AVERAGE_SYLLABLES = 1.5;
+// words without letters such as years are read out, e.g. 1848
+const CHARACTERS_PER_SYLLABLE = 2;
+
+/**
+ * Estimate the number of syllables in a word by counting its vowel groups.
+ * e.g. Chateaubriand => 3
+ */
+export const countSyllables = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length === 0) {
+    const characters = word.replace(/[^0-9]/g, '').length;
+    return Math.ceil(characters / CHARACTERS_PER_SYLLABLE);
+  }
+
+  const vowelGroups = letters.match(/[aeiouy]+/g)?.length ?? 0;
+  // a final e is usually silent, e.g. name, but not in e.g. table
+  const hasSilentE = /[^l]e$/.test(letters) && vowelGroups > 1;
+  return Math.max(vowelGroups - (hasSilentE ? 1 : 0), 1);
+};
+
+/**
+ * Get how long to pause after a word, based on the punctuation ending it.
+ */
+export const getPause = (
+  word: string,
+  { commaPause, periodPause, powerPause }: PacingSettings,
+) => {
+  if (word === POWER_MARKER) return powerPause;
+  // ignore closing quotes and brackets, e.g. "Ulysses."
+  const ending = word.replace(/["'”’)\]]+$/, '');
+  if (/[.?!]$/.test(ending)) return periodPause;
+  if (/[,;:]$/.test(ending)) return commaPause;
+  return 0;
+};
+
+/**
+ * Get the delay after reading each word, before the next word is read.
+ * Uniform pacing uses the same delay for every word, natural pacing scales the
+ * delay by the word's syllables and adds pauses at punctuation.
+ */
+export const getWordDelays = (
+  words: string[],
+  delay: number,
+  settings: PacingSettings,
+) => {
+  if (settings.pacing === ReadingPacing.uniform) return words.map(() => delay);
+
+  return words.map((word) => {
+    // the power mark is not read out, it is only a pause
+    if (word === POWER_MARKER) return settings.powerPause;
+
+    const weight = countSyllables(word) / AVERAGE_SYLLABLES;
+    return delay * weight + getPause(word, settings);
+  });
+};
@@ -0,0 +1,55 @@
+import { Category, Difficulty, Tournament } from '../types/questions';
+import { Tossup } from '../types/tossups';
+import { matchesParams, sampleQuestions } from './packs';
+
+const createTossup = (
+  text: string,
+  category: Category,
+  difficulty: Difficulty,
+  year: number,
+) =>
+  ({
+    text,
+    category,
+    difficulty,
+    tournament: Tournament['2013 ACF Fall'],
+    year,
+  } as Tossup);
+
+const tossups = [
+  createTossup('a', Category.Science, Difficulty['Regular College'], 2013),
+  createTossup('b', Category.Literature, Difficulty['Regular College'], 2013),
+  createTossup('c', Category.Science, Difficulty['Hard College'], 2018),
+  createTossup('a', Category.Science, Difficulty['Regular College'], 2013),
+];
+
+describe('Reading questions from offline packs', () => {
+  test('empty filters match everything', () => {
+    expect(tossups.every((tu) => matchesParams(tu, {}))).toBe(true);
+    expect(
+      matchesParams(tossups[0], { categories: [], difficulties: [] }),
+    ).toBe(true);
+  });
+
+  test('filters match like the API', () => {
+    expect(matchesParams(tossups[0], { categories: [Category.Science] })).toBe(
+      true,
+    );
+    expect(matchesParams(tossups[1], { categories: [Category.Science] })).toBe(
+      false,
+    );
+    expect(matchesParams(tossups[0], { fromYear: 2015 })).toBe(false);
+    expect(matchesParams(tossups[2], { fromYear: 2015 })).toBe(true);
+  });
+
+  test('samples unique matching questions', () => {
+    const sampled = sampleQuestions(
+      tossups,
+      ({ text }) => text,
+      { categories: [Category.Science] },
+      10,
+    );
+    expect(sampled.map(({ text }) => text).sort()).toEqual(['a', 'c']);
+    expect(sampleQuestions(tossups, ({ text }) => text, {}, 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { Bonus } from '../types/bonus';
+import { Pack, PackInfo, PackParams } from '../types/packs';
+import { Tossup } from '../types/tossups';
+import { sample } from './array';
+import { PACKS_STORE } from './constants';
+import * as db from './db';
+
+type Question = Pick<
+  Tossup,
+  'category' | 'subcategory' | 'difficulty' | 'tournament' | 'year'
+>;
+
+/**
+ * Check if a question matches the filters, an empty filter matches everything
+ * like it does for the API.
+ */
+export const matchesParams = (
+  question: Question,
+  params: Partial<PackParams>,
+) => {
+  const matches = <T>(values: T[] | undefined, value: T) =>
+    values === undefined || values.length === 0 || values.includes(value);
+
+  return (
+    matches(params.categories, question.category) &&
+    matches(params.subcategories, question.subcategory) &&
+    matches(params.difficulties, question.difficulty) &&
+    matches(params.tournaments, question.tournament) &&
+    (params.fromYear === undefined || question.year >= params.fromYear)
+  );
+};
+
+/**
+ * Pick random questions matching the filters, skipping questions that appear
+ * in several packs.
+ */
+export const sampleQuestions = <T extends Question>(
+  questions: T[],
+  getKey: (question: T) => string,
+  params: Partial<PackParams>,
+  limit: number,
+) => {
+  const unique = new Map(
+    questions
+      .filter((question) => matchesParams(question, params))
+      .map((question) => [getKey(question), question]),
+  );
+  return sample([...unique.values()], limit);
+};
+
+/**
+ * Strip the questions from a pack, for listing packs.
+ */
+export const getPackInfo = ({
+  id,
+  name,
+  params,
+  tossupCount,
+  bonusCount,
+  size,
+  downloadedAt,
+}: Pack): PackInfo => ({
+  id,
+  name,
+  params,
+  tossupCount,
+  bonusCount,
+  size,
+  downloadedAt,
+});
+
+export const createPack = (
+  name: string,
+  params: PackParams,
+  tossups: Tossup[],
+  bonuses: Bonus[],
+  id?: string,
+): Pack => {
+  const downloadedAt = Date.now();
+  return {
+    id:
+      id ??
+      `${downloadedAt.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    params,
+    tossupCount: tossups.length,
+    bonusCount: bonuses.length,
+    size: new Blob([JSON.stringify({ tossups, bonuses })]).size,
+    downloadedAt,
+    tossups,
+    bonuses,
+  };
+};
+
+export const savePack = (pack: Pack) => db.put(PACKS_STORE, pack);
+
+export const deletePack = (id: string) => db.remove(PACKS_STORE, id);
+
+/**
+ * Restore all saved packs, an unavailable database has no packs.
+ */
+export const restorePacks = async () => {
+  try {
+    return await db.getAll<Pack>(PACKS_STORE);
+  } catch (err) {
+    return [];
+  }
+};
+
+export const getPackTossups = async (
+  params: Partial<PackParams>,
+  limit: number,
+) => {
+  const packs = await restorePacks();
+  return sampleQuestions(
+    packs.flatMap(({ tossups }) => tossups),
+    ({ text }) => text,
+    params,
+    limit,
+  );
+};
+
+export const getPackBonuses = async (
+  params: Partial<PackParams>,
+  limit: number,
+) => {
+  const packs = await restorePacks();
+  return sampleQuestions(
+    packs.flatMap(({ bonuses }) => bonuses),
+    ({ leadin }) => leadin,
+    params,
+    limit,
+  );
+};
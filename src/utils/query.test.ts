@@ -0,0 +1,62 @@
+import { Category, Difficulty, Tournament } from '../types/questions';
+import { MIN_TOURNAMENT_YEAR } from './constants';
+import {
+  isShareablePath,
+  parseQuestionSettings,
+  serializeQuestionSettings,
+} from './query';
+
+const settings = {
+  categories: [Category.Literature],
+  subcategories: [],
+  difficulties: [Difficulty['Hard College']],
+  tournaments: [],
+  fromYear: 2015,
+};
+
+describe('Question settings query', () => {
+  test('empty filters are left out', () => {
+    expect(serializeQuestionSettings(settings)).toBe(
+      `categories=15&difficulties=${Difficulty['Hard College']}&from=2015`,
+    );
+    expect(
+      serializeQuestionSettings({
+        ...settings,
+        categories: [],
+        difficulties: [],
+        fromYear: MIN_TOURNAMENT_YEAR,
+      }),
+    ).toBe('');
+  });
+
+  test('serialized settings are parsed back', () => {
+    expect(
+      parseQuestionSettings(`?${serializeQuestionSettings(settings)}`),
+    ).toEqual(settings);
+  });
+
+  test('invalid values are dropped', () => {
+    expect(
+      parseQuestionSettings(
+        `?categories=15,999,abc&tournaments=${Tournament['2019 ACF Fall']}&from=1800`,
+      ),
+    ).toEqual({
+      categories: [Category.Literature],
+      subcategories: [],
+      difficulties: [],
+      tournaments: [Tournament['2019 ACF Fall']],
+      fromYear: MIN_TOURNAMENT_YEAR,
+    });
+  });
+
+  test('links without settings are ignored', () => {
+    expect(parseQuestionSettings('')).toBeNull();
+    expect(parseQuestionSettings('?foo=bar')).toBeNull();
+  });
+
+  test('only question pages are shareable', () => {
+    expect(isShareablePath('/reader/tossup')).toBe(true);
+    expect(isShareablePath('/clues/display/foo')).toBe(true);
+    expect(isShareablePath('/stats')).toBe(false);
+  });
+});
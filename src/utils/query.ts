@@ -0,0 +1,88 @@
+import { QuestionParameter, QuestionSettings } from '../types/questions';
+import {
+  CATEGORIES,
+  DIFFICULTIES,
+  MIN_TOURNAMENT_YEAR,
+  SUBCATEGORIES,
+  TOURNAMENTS,
+} from './constants';
+import { ROUTES } from './routes';
+import { validateFromYear } from './settings';
+
+const QUERY_KEYS = [
+  'categories',
+  'subcategories',
+  'difficulties',
+  'tournaments',
+  'from',
+];
+
+/**
+ * Pages whose questions depend on the question settings, these pages keep the
+ * settings in their url so they can be shared.
+ */
+const SHAREABLE_PATHS = [
+  ROUTES.reader.tossup,
+  ROUTES.reader.bonus,
+  ROUTES.freq.root,
+  ROUTES.clues.root,
+];
+
+export const isShareablePath = (pathname: string) =>
+  SHAREABLE_PATHS.some((path) => pathname.startsWith(path));
+
+const serializeList = (key: string, values: QuestionParameter[]) =>
+  values.length > 0 ? `${key}=${values.join(',')}` : '';
+
+/**
+ * Serialize question settings into a query string, e.g.
+ * categories=15&difficulties=7&from=2015. Empty filters are left out.
+ */
+export const serializeQuestionSettings = ({
+  categories,
+  subcategories,
+  difficulties,
+  tournaments,
+  fromYear,
+}: QuestionSettings) =>
+  [
+    serializeList('categories', categories),
+    serializeList('subcategories', subcategories),
+    serializeList('difficulties', difficulties),
+    serializeList('tournaments', tournaments),
+    fromYear !== MIN_TOURNAMENT_YEAR ? `from=${fromYear}` : '',
+  ]
+    .filter(Boolean)
+    .join('&');
+
+const parseList = <T extends QuestionParameter>(
+  params: URLSearchParams,
+  key: string,
+  validValues: T[],
+) =>
+  (params.get(key) ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map(Number)
+    .filter((value): value is T => validValues.includes(value as T));
+
+/**
+ * Parse question settings from a query string, invalid values are dropped.
+ * Returns null if the query string has no question settings at all, filters
+ * missing from an otherwise valid query string are cleared.
+ */
+export const parseQuestionSettings = (
+  search: string,
+): QuestionSettings | null => {
+  const params = new URLSearchParams(search);
+  if (QUERY_KEYS.every((key) => !params.has(key))) return null;
+
+  const fromYear = Number(params.get('from') ?? MIN_TOURNAMENT_YEAR);
+  return {
+    categories: parseList(params, 'categories', CATEGORIES),
+    subcategories: parseList(params, 'subcategories', SUBCATEGORIES),
+    difficulties: parseList(params, 'difficulties', DIFFICULTIES),
+    tournaments: parseList(params, 'tournaments', TOURNAMENTS),
+    fromYear: validateFromYear(fromYear) ? fromYear : MIN_TOURNAMENT_YEAR,
+  };
+};
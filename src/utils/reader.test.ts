@@ -1,4 +1,22 @@
-import { parseAcceptableAnswers, parsePromptableAnswers } from './reader';
+import {
+  AnswerClause,
+  AnswerPrompt,
+  ClauseType,
+  ConditionKind,
+  NormalizationStep,
+} from '../types/answerline';
+import { JudgeResult, JudgeStrategy } from '../types/tossups';
+import {
+  answerPrompt,
+  describeClause,
+  describeCondition,
+  describeMatch,
+  describePrompt,
+  getClueStartIndex,
+  isConditionMet,
+  Judge,
+  parseAnswerline,
+} from './reader';
 
 const acceptableAnswerlines = [
   {
@@ -16,7 +34,6 @@ const acceptableAnswerlines = [
       'parallel motion',
       'parallel movement',
       'harmonic parallelism',
-      'lowering the third scale degree',
     ],
   },
   {
@@ -45,7 +62,7 @@ const acceptableAnswerlines = [
       'convergence [or word forms such as convergent sequence; accept dominated convergence theorem or uniform convergence or pointwise convergence]',
     answers: [
       'convergence',
-      'word forms such as convergent sequence',
+      'convergent sequence',
       'dominated convergence theorem',
       'uniform convergence',
       'pointwise convergence',
@@ -56,9 +73,8 @@ const acceptableAnswerlines = [
       'Princes in the Tower [accept Edward V and Richard of Shrewsbury, Duke of York; accept any answer referring to the two princes possibly murdered by Richard III in the Tower of London] <LC>',
     answers: [
       'princes in the tower',
-      'edward v and richard of shrewsbury',
-      'any answer referring to the two princes possibly murdered by richard iii in the tower of london',
-      'v and richard of shrewsbury',
+      'edward v and richard of shrewsbury duke of york',
+      'the two princes possibly murdered by richard iii in the tower of london',
     ],
   },
   {
@@ -70,18 +86,12 @@ const acceptableAnswerlines = [
       'william the bastard',
       'william i the bad',
       'william ii the good',
-      'ii the good',
     ],
   },
   {
     answerline:
       'John Dos Passos [or John Roderigo Dos Passos; do not accept or prompt on "Passos"]',
-    answers: [
-      'john dos passos',
-      'john roderigo dos passos',
-      'dos passos',
-      'roderigo dos passos',
-    ],
+    answers: ['john dos passos', 'john roderigo dos passos'],
   },
   {
     answerline:
@@ -94,7 +104,7 @@ const acceptableAnswerlines = [
     answers: [
       'pharmaceutical industry',
       'prescription drug industry',
-      'answers mentioning pharmaceuticals',
+      'pharmaceuticals',
       'prescription drugs',
       'prescription medications such as drug companies',
       'pharma',
@@ -102,10 +112,15 @@ const acceptableAnswerlines = [
   },
 ];
 
+const getAlternates = (answerline: string, types: ClauseType[]) =>
+  parseAnswerline(answerline)
+    .clauses.filter(({ type }) => types.includes(type))
+    .flatMap(({ alternates }) => alternates.map(({ answer }) => answer));
+
 describe('Parsing acceptable answers', () => {
   acceptableAnswerlines.forEach(({ answerline, answers }) => {
     test('testing answerline', () => {
-      const correctAnswers = parseAcceptableAnswers(answerline);
+      const correctAnswers = getAlternates(answerline, [ClauseType.accept]);
       expect(correctAnswers).toEqual(answers);
     });
   });
@@ -123,10 +138,12 @@ const promptableAnswerlines = [
     answers: [
       'p',
       'altering',
+      'raising',
+      'lowering the third scale degree',
       'modulating',
       'moving between major and minor',
       'into major',
-      'into minor by asking what is the name of the relationship between the keys',
+      'into minor',
       'changing keys',
       'changing modes',
       'mode',
@@ -142,12 +159,14 @@ const promptableAnswerlines = [
     answerline:
       'chiral resolution [or optical resolution or kinetic resolution; or chiral derivatization or derivatizing chiral compounds; or descriptions like separating chiral compounds or mixtures; or determining enantiomeric excess or determining optical purity; or determining absolute configuration; or analysis of enantiomers or analysis of diastereomers or analysis of chiral mixtures; accept separating stereoisomers or enantiomers or diastereomers before the end of the tossup, and prompt after; prompt on resolution or separation or equivalents; prompt on performing NMR or HPLC or chromatography by asking what is the goal of that experiment?]',
     answers: [
+      'separating stereoisomers',
+      'enantiomers',
+      'diastereomers',
       'resolution',
       'separation',
-      'equivalents',
       'performing nmr',
       'hplc',
-      'chromatography by asking what is the goal of that experiment',
+      'chromatography',
     ],
   },
   {
@@ -160,8 +179,8 @@ const promptableAnswerlines = [
       'decreasing m1',
       'decreasing m2',
       'contractionary monetary policy',
-      'tightening monetary policy and obvious equivalents',
-      'answers like combating inflation',
+      'tightening monetary policy',
+      'combating inflation',
       'open market operations',
     ],
   },
@@ -170,10 +189,8 @@ const promptableAnswerlines = [
       'English Conquest of Delaware [accept logical equivalents that include "English" and "Delaware", such as "English Taking Delaware from the Dutch"; accept "English Conquest of New Amstel" or logical equivalents; accept "English Conquest of New Castle" or logical equivalents; accept "Robert Carr\'s Conquest of Delaware" before "Carr" is said; accept "Destruction of Plockhoy\'s Settlement" or "Destruction of Zwannendael" before "Plockhoy" is said;  prompt on "Dutch Loss of Delaware" or logically equivalent answers; prompt on "English Conquest of New Netherland" and logical equivalents until "New Amsterdam" is said; prompt on "English Conquest of New Sweden" or logical equivalents; do not prompt on or accept "English Conquest of New York" or "English Conquest of New Amsterdam"]',
     answers: [
       'dutch loss of delaware',
-      'logically equivalent answers',
-      'english conquest of new netherland and logical equivalents',
+      'english conquest of new netherland',
       'english conquest of new sweden',
-      'logical equivalents',
     ],
   },
   { answerline: 'entropy [prompt on ent or e]', answers: ['ent', 'e'] },
@@ -181,9 +198,9 @@ const promptableAnswerlines = [
     answerline:
       'reunification of Germany [accept word forms and obvious equivalents that mention "unifying East Germany and West Germany"; or deutsche einheit; or deutsche Wiedervereinigung; or herstellung der Einheit Deutschlands; accept the dissolution of East Germany or word forms or obvious equivalents; prompt on anything mentioning "fall of the Berlin Wall" or the "opening of the Brandenburg Gate" before mentioned; prompt on anything mentioning "fall of the Iron Curtain" or "Soviet withdrawal from East Germany"; prompt on "die Wende"; accept "German Democratic Republic" or "Deutsche Demokratische Republik" or "DDR" for "East Germany" anywhere; accept "Federal Republic of Germany" or "Bundesrepublik Deutschland" or "BRD" for "West Germany" anywhere]',
     answers: [
-      'anything mentioning fall of the berlin wall',
+      'fall of the berlin wall',
       'the opening of the brandenburg gate',
-      'anything mentioning fall of the iron curtain',
+      'fall of the iron curtain',
       'soviet withdrawal from east germany',
       'die wende',
     ],
@@ -191,7 +208,23 @@ const promptableAnswerlines = [
   {
     answerline:
       'security vulnerabilities [or exploits or security bugs or security holes; accept zero-days until read; prompt on bugs, issues, weaknesses, defects, flaws, anomalies, threats, attacks, cyberattacks, breaches, or hacks by asking “what general impact do they have?” and accept answers like “weakens security” or “vulnerable to attack”; prompt on specific types of bugs, such as software bugs or buffer over-read or memory leaks, by asking “can you be less specific?”; do not accept or prompt on “glitches” or “viruses” or “malware” or “data breaches”]',
-    answers: ['bugs', 'specific types of bugs'],
+    answers: [
+      'bugs',
+      'issues',
+      'weaknesses',
+      'defects',
+      'flaws',
+      'anomalies',
+      'threats',
+      'attacks',
+      'cyberattacks',
+      'breaches',
+      'hacks',
+      'specific types of bugs',
+      'software bugs',
+      'buffer overread',
+      'memory leaks',
+    ],
   },
   {
     answerline:
@@ -201,20 +234,434 @@ const promptableAnswerlines = [
   {
     answerline:
       'pharmaceutical industry [or prescription drug industry; accept answers mentioning pharmaceuticals or prescription drugs or prescription medications such as drug companies or pharma; prompt on answers mentioning “healthcare” or “medical” or “pharmacies” or similar terms]',
-    answers: [
-      'answers mentioning healthcare',
-      'medical',
-      'pharmacies',
-      'similar terms',
-    ],
+    answers: ['healthcare', 'medical', 'pharmacies'],
   },
 ];
 
 describe('Parsing promptable answers', () => {
   promptableAnswerlines.forEach(({ answerline, answers }) => {
     test('testing answerline', () => {
-      const promptableAnswers = parsePromptableAnswers(answerline);
+      const promptableAnswers = getAlternates(answerline, [
+        ClauseType.prompt,
+        ClauseType.directedPrompt,
+      ]);
       expect(promptableAnswers).toEqual(answers);
     });
   });
 });
+
+const getAnswerlineByText = (text: string) => {
+  const answerline = [...acceptableAnswerlines, ...promptableAnswerlines].find(
+    (e) => e.answerline.startsWith(text),
+  );
+  if (answerline === undefined) throw new Error(`No answerline for ${text}`);
+  return answerline.answerline;
+};
+
+const summarizeClause = ({
+  type,
+  alternates,
+  question,
+  condition,
+}: AnswerClause) => ({
+  type,
+  answers: alternates.map(({ answer }) => answer),
+  question,
+  condition: condition && { kind: condition.kind, word: condition.word },
+});
+
+describe('Parsing answerlines', () => {
+  test('the main answer is split into alternates', () => {
+    expect(
+      parseAnswerline('nitric oxide or no').clauses.map(summarizeClause),
+    ).toEqual([
+      {
+        type: ClauseType.accept,
+        answers: ['nitric oxide', 'no'],
+        question: null,
+        condition: null,
+      },
+    ]);
+  });
+
+  test('directed prompts keep their question and condition', () => {
+    const { clauses } = parseAnswerline(getAnswerlineByText('parallel'));
+    const question = 'what is the name of the relationship between the keys?';
+    expect(clauses.map(summarizeClause).slice(6)).toEqual([
+      {
+        type: ClauseType.prompt,
+        answers: ['p'],
+        question: null,
+        condition: null,
+      },
+      {
+        type: ClauseType.directedPrompt,
+        answers: ['altering', 'raising', 'lowering the third scale degree'],
+        question,
+        condition: { kind: ConditionKind.before, word: 'third' },
+      },
+      {
+        type: ClauseType.directedPrompt,
+        answers: [
+          'modulating',
+          'moving between major and minor',
+          'into major',
+          'into minor',
+        ],
+        question,
+        condition: null,
+      },
+      {
+        type: ClauseType.prompt,
+        answers: ['changing keys', 'changing modes'],
+        question: null,
+        condition: null,
+      },
+      {
+        type: ClauseType.prompt,
+        answers: ['mode', 'modal transformation'],
+        question: null,
+        condition: { kind: ConditionKind.before, word: 'Mode' },
+      },
+    ]);
+  });
+
+  test('negated directives become reject clauses', () => {
+    const { clauses } = parseAnswerline(getAnswerlineByText('Kingdom'));
+    expect(
+      clauses
+        .filter(({ type }) => type === ClauseType.reject)
+        .map(summarizeClause)
+        .map(({ answers }) => answers),
+    ).toEqual([
+      ['flanders', 'county of flanders', 'vlaanderen', 'graafschap vlaanderen'],
+      ['belgium', 'kingdom of belgium'],
+    ]);
+    expect(
+      parseAnswerline(getAnswerlineByText('knowledge')).clauses.map(
+        summarizeClause,
+      ),
+    ).toEqual([
+      {
+        type: ClauseType.accept,
+        answers: ['knowledge'],
+        question: null,
+        condition: null,
+      },
+      {
+        type: ClauseType.reject,
+        answers: ['belief'],
+        question: null,
+        condition: null,
+      },
+      {
+        type: ClauseType.prompt,
+        answers: ['justified true belief'],
+        question: null,
+        condition: null,
+      },
+    ]);
+  });
+
+  test('conditions name the word that has to be read', () => {
+    const { clauses } = parseAnswerline(
+      'Sicilian Expedition [prompt on Siege of Syracuse before "Syracuse" is read; accept zero-days until read; accept separating enantiomers before the end of the tossup, and prompt after]',
+    );
+    expect(clauses.slice(1).map(summarizeClause)).toEqual([
+      {
+        type: ClauseType.prompt,
+        answers: ['siege of syracuse'],
+        question: null,
+        condition: { kind: ConditionKind.before, word: 'Syracuse' },
+      },
+      {
+        type: ClauseType.accept,
+        answers: ['zero days'],
+        question: null,
+        condition: { kind: ConditionKind.before, word: null },
+      },
+      {
+        type: ClauseType.accept,
+        answers: ['separating enantiomers'],
+        question: null,
+        condition: { kind: ConditionKind.before, word: null },
+      },
+      {
+        type: ClauseType.prompt,
+        answers: ['separating enantiomers'],
+        question: null,
+        condition: { kind: ConditionKind.after, word: null },
+      },
+    ]);
+  });
+
+  test('lead-ins and equivalents are not part of the answer', () => {
+    const { clauses } = parseAnswerline(
+      getAnswerlineByText('pharmaceutical industry'),
+    );
+    expect(clauses.map(summarizeClause).map(({ answers }) => answers)).toEqual([
+      ['pharmaceutical industry'],
+      ['prescription drug industry'],
+      [
+        'pharmaceuticals',
+        'prescription drugs',
+        'prescription medications such as drug companies',
+        'pharma',
+      ],
+      ['healthcare', 'medical', 'pharmacies'],
+    ]);
+  });
+
+  test('clauses are described as written for the moderator', () => {
+    const { clauses } = parseAnswerline(
+      getAnswerlineByText('security vulnerabilities'),
+    );
+    const descriptions = clauses.map(describeClause);
+    expect(descriptions[0]).toBe('security vulnerabilities');
+    expect(descriptions[2]).toBe('zero-days (until read)');
+    expect(descriptions[3]).toBe(
+      'bugs or issues or weaknesses or defects or flaws or anomalies or threats or attacks or cyberattacks or breaches or hacks (by asking "what general impact do they have?")',
+    );
+  });
+
+  test('bold and underlined parts are kept', () => {
+    const [main] = parseAnswerline(
+      '<strong><u>Dos Passos</u></strong> [or John Roderigo Dos Passos]',
+    ).clauses;
+    expect(main.alternates).toEqual([
+      {
+        text: 'Dos Passos',
+        answer: 'dos passos',
+        required: ['dos passos'],
+        underlined: ['dos passos'],
+      },
+    ]);
+  });
+});
+
+describe('Judging answers', () => {
+  test('acceptable answers are correct', () => {
+    const judge = new Judge(getAnswerlineByText('John Dos Passos'));
+    expect(judge.judge('dos passos').result).toBe(JudgeResult.correct);
+    expect(judge.judge('john roderigo dos passos').result).toBe(
+      JudgeResult.correct,
+    );
+    expect(judge.judge('hemingway').result).toBe(JudgeResult.incorrect);
+  });
+
+  test('promptable answers are prompted once', () => {
+    const judge = new Judge(getAnswerlineByText('knowledge'));
+    expect(judge.judge('justified true belief').result).toBe(
+      JudgeResult.prompt,
+    );
+    expect(judge.judge('justified true belief').result).toBe(
+      JudgeResult.incorrect,
+    );
+  });
+
+  test('directed prompts ask their question', () => {
+    const judge = new Judge(getAnswerlineByText('parallel'));
+    const directed = judge.judge('moving between major and minor');
+    expect(directed.result).toBe(JudgeResult.prompt);
+    expect(directed.prompt).toEqual({
+      answer: 'moving between major and minor',
+      question: 'what is the name of the relationship between the keys?',
+    });
+    const undirected = judge.judge('changing keys');
+    expect(undirected.result).toBe(JudgeResult.prompt);
+    expect(undirected.prompt).toEqual({
+      answer: 'changing keys',
+      question: null,
+    });
+    expect(judge.judge('parallel').prompt).toBeNull();
+  });
+
+  test('prompts record their response', () => {
+    const prompts: AnswerPrompt[] = [
+      { userAnswer: 'p', answer: 'P', question: null, response: null },
+    ];
+    answerPrompt(prompts, 'parallel');
+    answerPrompt(prompts, 'parallel key');
+    expect(prompts[0].response).toBe('parallel');
+    expect(describePrompt(prompts[0])).toBe('Prompted on “P”');
+  });
+
+  test('underlined parts are prompted', () => {
+    const judge = new Judge(
+      '<strong>International <u>Space</u> Station</strong> [or ISS]',
+    );
+    expect(judge.judge('international space station').result).toBe(
+      JudgeResult.correct,
+    );
+    expect(judge.judge('space').result).toBe(JudgeResult.prompt);
+  });
+});
+
+describe('Judge verdicts', () => {
+  test('the verdict names the matching answer and its rating', () => {
+    const verdict = new Judge('nitric oxide or NO', {
+      strategy: JudgeStrategy.dice,
+      threshold: 0.6,
+    }).judge('Nitric Oxide!');
+    expect(verdict).toEqual({
+      result: JudgeResult.correct,
+      userAnswer: 'nitric oxide',
+      match: { answer: 'nitric oxide', type: ClauseType.accept, rating: 1 },
+      threshold: 0.6,
+      steps: [],
+      condition: null,
+      prompt: null,
+    });
+    expect(describeMatch(verdict)).toBe(
+      'Closest acceptable answer “nitric oxide”: 1.00 > 0.60',
+    );
+  });
+
+  test('incorrect answers show the closest answer', () => {
+    const verdict = new Judge('mitochondria').judge('chloroplast');
+    expect(verdict.result).toBe(JudgeResult.incorrect);
+    expect(verdict.match?.answer).toBe('mitochondria');
+    expect(verdict.match?.rating).toBeLessThan(verdict.threshold);
+  });
+
+  test('normalization steps that changed the answers are listed', () => {
+    const numbers = new Judge('World War Two').judge('World War 2');
+    expect(numbers.result).toBe(JudgeResult.correct);
+    expect(numbers.steps).toEqual([NormalizationStep.numberToWords]);
+
+    const firstNames = new Judge('John Dos Passos').judge('Dos Passos');
+    expect(firstNames.steps).toEqual([NormalizationStep.firstNameRemoval]);
+    expect(describeMatch(firstNames)).toBe(
+      'Closest acceptable answer “John Dos Passos”: 1.00 > 0.60, first names removed',
+    );
+  });
+
+  test('rejected answers are named in the verdict', () => {
+    const verdict = new Judge(getAnswerlineByText('Kingdom')).judge('Belgium');
+    expect(verdict.match).toEqual({
+      answer: 'Belgium',
+      type: ClauseType.reject,
+      rating: 1,
+    });
+  });
+});
+
+describe('Judging rejected answers', () => {
+  test('answers on the reject list are never accepted', () => {
+    const judge = new Judge(getAnswerlineByText('Kingdom'));
+    [
+      'belgium',
+      'kingdom of belgium',
+      'flanders',
+      'county of flanders',
+      'vlaanderen',
+      'graafschap vlaanderen',
+    ].forEach((answer) => {
+      expect(judge.judge(answer).result).toBe(JudgeResult.incorrect);
+    });
+    expect(judge.judge('netherlands').result).toBe(JudgeResult.correct);
+    expect(judge.judge('belgica foederata').result).toBe(JudgeResult.correct);
+  });
+
+  test('answers on the reject list are never prompted', () => {
+    const judge = new Judge(
+      'knowledge [do not prompt or accept "belief"; prompt on belief systems]',
+    );
+    expect(judge.judge('belief').result).toBe(JudgeResult.incorrect);
+    expect(judge.judge('belief systems').result).toBe(JudgeResult.prompt);
+  });
+
+  test('better matching acceptable answers are not rejected', () => {
+    const judge = new Judge(getAnswerlineByText('John Dos Passos'));
+    expect(judge.judge('passos').result).toBe(JudgeResult.incorrect);
+    expect(judge.judge('dos passos').result).toBe(JudgeResult.correct);
+  });
+});
+
+describe('Judging conditional answers', () => {
+  const words =
+    'This key relationship can be found by raising the third scale degree. Mode mixture uses it. For 10 points, name this relationship'.split(
+      ' ',
+    );
+  const thirdIndex = words.indexOf('third');
+  const answerline = getAnswerlineByText('parallel');
+
+  test('conditions are met relative to the buzz', () => {
+    const { clauses } = parseAnswerline(answerline);
+    const thirdClause = clauses[7];
+    const condition = thirdClause.condition!;
+    expect(
+      isConditionMet(condition, thirdClause.alternates, {
+        words,
+        index: thirdIndex - 1,
+      }),
+    ).toBe(true);
+    expect(
+      isConditionMet(condition, thirdClause.alternates, {
+        words,
+        index: thirdIndex,
+      }),
+    ).toBe(false);
+  });
+
+  test('conditional prompts only apply before the word is read', () => {
+    const early = new Judge(answerline);
+    early.setBuzz({ words, index: 2 });
+    const prompted = early.judge('mode');
+    expect(prompted.result).toBe(JudgeResult.prompt);
+    expect(prompted.condition && describeCondition(prompted.condition)).toBe(
+      'Prompted until “Mode” is read',
+    );
+
+    const late = new Judge(answerline);
+    late.setBuzz({ words, index: words.length - 1 });
+    const unmet = late.judge('mode');
+    expect(unmet.result).toBe(JudgeResult.incorrect);
+    expect(unmet.condition && describeCondition(unmet.condition)).toBe(
+      'Only prompted until “Mode” is read',
+    );
+  });
+
+  test('answers accepted before the end of the tossup are prompted after', () => {
+    const chiral =
+      'chiral resolution [accept separating enantiomers before the end of the tossup, and prompt after]';
+    const early = new Judge(chiral);
+    early.setBuzz({ words, index: 2 });
+    expect(early.judge('separating enantiomers').result).toBe(
+      JudgeResult.correct,
+    );
+
+    const late = new Judge(chiral);
+    late.setBuzz({ words, index: words.length - 1 });
+    const verdict = late.judge('separating enantiomers');
+    expect(verdict.result).toBe(JudgeResult.prompt);
+    expect(verdict.condition?.isMet).toBe(true);
+  });
+
+  test('conditions are ignored until the buzz is known', () => {
+    const judge = new Judge(answerline);
+    const verdict = judge.judge('mode');
+    expect(verdict.result).toBe(JudgeResult.prompt);
+    expect(verdict.condition?.isMet).toBe(true);
+  });
+});
+
+describe('Finding the start of a clue', () => {
+  const words =
+    'This man was exiled. He wrote "Ulysses." For 10 points, name'.split(' ');
+
+  test('re-reading starts after the previous sentence', () => {
+    expect(getClueStartIndex(words, 6)).toBe(4);
+    expect(getClueStartIndex(words, 11)).toBe(7);
+  });
+
+  test('the end of a sentence belongs to its clue', () => {
+    expect(getClueStartIndex(words, 3)).toBe(0);
+    expect(getClueStartIndex(words, 6)).toBe(4);
+  });
+
+  test('the first clue starts at the beginning', () => {
+    expect(getClueStartIndex(words, -1)).toBe(0);
+    expect(getClueStartIndex([], 5)).toBe(0);
+  });
+});
@@ -2,26 +2,43 @@ import { BellIcon } from '@chakra-ui/icons';
 import { Container, Text } from '@chakra-ui/react';
 import nlp from 'compromise';
 import { Fragment } from 'react';
-import ss from 'string-similarity';
+import {
+  AnswerAlternate,
+  AnswerClause,
+  AnswerCondition,
+  Answerline,
+  AnswerPrompt,
+  BuzzPosition,
+  ClauseType,
+  ConditionKind,
+  JudgedCondition,
+  NormalizationStep,
+} from '../types/answerline';
 import { BonusPartResult, BonusScore } from '../types/bonus';
-import { JudgeResult, TossupScore, TossupWord } from '../types/tossups';
-import { combine, emptyStringFilter, getUnique } from './array';
+import {
+  AnswerMatch,
+  JudgeResult,
+  JudgeStrategy,
+  JudgeVerdict,
+  TossupScore,
+  TossupWord,
+} from '../types/tossups';
+import { combine, emptyStringFilter } from './array';
+import { DEFAULT_JUDGE_STRATEGY, DEFAULT_JUDGE_THRESHOLDS } from './constants';
 import logger from './logger';
 import {
-  anyTag,
-  getCaptureGroups,
   ltgt,
   quotes,
-  remove,
   removeNonAlphanumeric,
   removeTags,
+  sentenceEnd,
 } from './regex';
+import { findBestMatch } from './similarity';
 import {
   convertNumberToWords,
   getTextBetweenTags,
   getWords,
   getWordsBetweenTags,
-  multipleLastIndexOf,
   normalizeSpacing,
   parseHTMLString,
   removeFirstNames,
@@ -55,6 +72,27 @@ export const getPowerIndex = (tossupWords: TossupWord[]) => {
   return tossupWords.findIndex(({ word }) => word === POWER_MARKER);
 };
 
+/**
+ * Get the index of the first word of the clue containing a word, clues are
+ * separated by sentence ends.
+ * e.g. [It, was., Named, after] and after => Named
+ */
+export const getClueStartIndex = (words: string[], index: number) => {
+  for (let i = Math.min(index, words.length) - 1; i >= 0; i -= 1) {
+    if (sentenceEnd.test(words[i])) return i + 1;
+  }
+  return 0;
+};
+
+/**
+ * Get the index of the word ending the first clue, which is the first point
+ * a pyramidal tossup is meant to uniquely identify its answer.
+ */
+export const getFirstClueEndIndex = (words: string[]) => {
+  const index = words.findIndex((word) => sentenceEnd.test(word));
+  return index === -1 ? words.length - 1 : index;
+};
+
 /**
  * Calculate tossup score based on buzz.
  */
@@ -159,175 +197,572 @@ export const normalizeAnswer = (s: string) =>
     ),
   );
 
+// directives opening each clause of an answerline, most specific first
+const clauseDirectives: [RegExp, ClauseType][] = [
+  [
+    /^do not (?:accept or prompt(?: on)?|prompt(?: on)? or accept)\b/i,
+    ClauseType.reject,
+  ],
+  [/^do not (?:accept|prompt(?: on)?)\b/i, ClauseType.reject],
+  [/^(?:also )?prompt(?: on)?\b/i, ClauseType.prompt],
+  [/^(?:also )?(?:accept|or)\b/i, ClauseType.accept],
+];
+
+// lead-ins describing the kind of answer rather than the answer itself
+const answerLeadIn =
+  /^(?:(?:any )?(?:answers?|anything|descriptions?) (?:mentioning|like|involving|referring to|that mention|saying that)|(?:(?:other |obvious )*(?:word forms|equivalents) )?such as)\s+/i;
+// placeholders for answers the moderator has to rule on
+const answerFiller =
+  /^(?:and |or )?(?:other |obvious |logical |logically |similar )*(?:equivalents?|equivalent answers|word forms|terms)\b.*$/i;
+// notes on where an alternate can replace part of the main answer
+const answerSubstitution = /\s+(?:in place of|for)\s+["“].*$/i;
+const answerFillerSuffix =
+  /\s+(?:and|or) (?:other |obvious |logical |similar )*(?:equivalents?|word forms)$/i;
+const conditionEnd =
+  /^(?:(?:["“](.+?)["”]|(.+?))\s+(?:is |are )?)?(?:read|said|mentioned|given)$/i;
+
 /**
- * Filters out negated answers such as 'do not accept foo' or 'do not prompt on
- * or accept bar'. Used as a drop-in replacement for lookbehind assertions
- * (not supported in Safari) in the answer parser regex.
- * Answerlines often take the form 'do not accept foo or bar' and the answer
- * regex will match at 'accept' or 'or' so a lookup has to be performed to ensure
- * that an answer isn't proceeded by 'do not' or some other form of negation.
+ * Parse a condition ending a clause, e.g. 'until "Mode" is read' or 'before
+ * the end of the tossup'.
+ * @returns The text before the condition and the condition, if any.
  */
-const filterNegativeAnswers = (
-  matchArray: RegExpExecArray,
-  answerType: 'accept' | 'prompt',
-) => {
-  const { 0: match, index, input } = matchArray;
-  const answerPrefix = match.slice(1).split(' ')[0];
-
-  if (answerType === 'accept' && answerPrefix === 'accept') {
-    const negatives = ['do not', 'do not prompt on or', 'do not prompt or'];
-    return negatives.every((neg) => !input.endsWith(neg, index));
+const parseCondition = (text: string): [string, AnswerCondition | null] => {
+  const keywords = Array.from(text.matchAll(/\b(until|before|after)\b/gi));
+  for (let i = 0; i < keywords.length; i += 1) {
+    const { 0: keyword, index = 0 } = keywords[i];
+    const rest = text.slice(index + keyword.length).trim();
+    const end = rest.match(conditionEnd);
+    if (rest === '' || end !== null || /^the end of the/i.test(rest)) {
+      return [
+        text.slice(0, index).replace(/[\s,]+$/, ''),
+        {
+          kind: /^after$/i.test(keyword)
+            ? ConditionKind.after
+            : ConditionKind.before,
+          word: end?.[1] ?? end?.[2] ?? null,
+          text: text.slice(index).trim(),
+        },
+      ];
+    }
   }
 
-  if (answerType === 'prompt' && answerPrefix === 'prompt') {
-    const negatives = ['do not', 'do not accept or'];
-    return negatives.every((neg) => !input.endsWith(neg, index));
-  }
+  return [text, null];
+};
 
-  const startIndex = multipleLastIndexOf(input, [';', ',', '['], index);
-  const prevString = input.slice(startIndex, index);
+/**
+ * Parse the question asked on a directed prompt, e.g. 'by asking "what is the
+ * name of the relationship between the keys?"'.
+ * @returns The text before the question and the question, if any.
+ */
+const parseQuestion = (text: string): [string, string | null] => {
+  const match = text.match(/[\s,]*\bby asking\b\s*(.*)$/i);
+  if (match === null || match.index === undefined) return [text, null];
 
-  if (answerType === 'accept' && answerPrefix === 'or') {
-    const negatives = ['do not accept', 'prompt on', 'prompt'];
-    return negatives.every((neg) => !prevString.includes(neg));
-  }
+  const question = match[1].match(/^["“](.+?)["”]/)?.[1] ?? match[1];
+  return [text.slice(0, match.index), question.trim()];
+};
 
-  if (answerType === 'prompt' && answerPrefix === 'or') {
-    const promptIndex = prevString.lastIndexOf('prompt on');
-    if (promptIndex === -1) return false;
+/**
+ * Parse an alternate answer, keeping its bold and underlined parts.
+ */
+const parseAlternate = (alternate: string): AnswerAlternate => {
+  const text = removeTags(alternate)
+    .replace(answerLeadIn, '')
+    .replace(answerSubstitution, '')
+    .replace(answerFillerSuffix, '')
+    .trim()
+    .replace(/^["“](.*)["”]$/, '$1');
+  return {
+    text,
+    answer: normalizeAnswer(text),
+    required: getTextBetweenTags(alternate, 'strong')
+      .map(removeTags)
+      .map(normalizeAnswer),
+    underlined: getTextBetweenTags(alternate, 'u')
+      .map(removeTags)
+      .map(normalizeAnswer),
+  };
+};
+
+/**
+ * Split a list of alternates, e.g. 'bugs, issues, or hacks'. Commas only
+ * separate alternates in such lists or before examples, otherwise they are
+ * part of the answer, e.g. 'Richard of Shrewsbury, Duke of York'.
+ */
+const parseAlternates = (text: string) =>
+  text
+    .split(
+      /,\s*or\s+/i.test(text)
+        ? /\s*,\s*(?:or\s+)?|\s+or\s+/i
+        : /\s*,\s*(?=such as\s)|\s+or\s+/i,
+    )
+    .filter(
+      (alternate) =>
+        !answerFiller.test(
+          removeTags(alternate).trim().replace(answerLeadIn, ''),
+        ),
+    )
+    .map(parseAlternate)
+    .filter(({ answer }) => answer !== '');
 
-    const negatives = ['do not ', 'do not accept or '];
-    return negatives.every((neg) => !prevString.endsWith(neg, promptIndex));
+/**
+ * Parse one directive of an answerline, e.g. 'prompt on P until "third" is
+ * read'. Directives without a known directive, such as notes, are skipped.
+ */
+const parseClause = (
+  directive: string,
+  previous: AnswerClause | undefined,
+): AnswerClause | null => {
+  const text = directive.trim().replace(/^and\s+/i, '');
+  const match = clauseDirectives.find(([regex]) => regex.test(text));
+  if (match === undefined) return null;
+
+  const [regex, directiveType] = match;
+  const [withoutQuestion, question] = parseQuestion(text.replace(regex, ''));
+  const [answers, condition] = parseCondition(withoutQuestion.trim());
+  let alternates = parseAlternates(answers);
+  // e.g. 'accept X before the end of the tossup, and prompt after'
+  if (alternates.length === 0 && condition !== null && previous) {
+    alternates = previous.alternates;
+    condition.word = previous.condition?.word ?? null;
   }
+  if (alternates.length === 0) return null;
+
+  const isDirected = directiveType === ClauseType.prompt && question !== null;
+  return {
+    type: isDirected ? ClauseType.directedPrompt : directiveType,
+    alternates,
+    question: isDirected ? question : null,
+    condition,
+  };
+};
 
-  return true;
+/**
+ * Parse an answerline into its main answer and the clauses of its directives,
+ * roughly following the acf answerline guidelines.
+ */
+export const parseAnswerline = (answerline: string): Answerline => {
+  const cleaned = cleanAnswerline(answerline);
+  const bracketIndex = cleaned.indexOf('[');
+  const main = bracketIndex === -1 ? cleaned : cleaned.slice(0, bracketIndex);
+  const directives =
+    bracketIndex === -1
+      ? ''
+      : cleaned
+          .slice(bracketIndex + 1)
+          .replace(/\][^\]]*$/, '')
+          // nested brackets are read as separate directives
+          .replaceAll(/[[\]]/g, ';');
+
+  const clauses: AnswerClause[] = [
+    {
+      type: ClauseType.accept,
+      alternates: main
+        .split(/\s+or\s+/i)
+        .map(parseAlternate)
+        .filter(({ answer }) => answer !== ''),
+      question: null,
+      condition: null,
+    },
+  ];
+  directives
+    // 'do not' starts a new directive even without a separator
+    .split(/;|\s+(?=do not\s)|,\s*(?=and (?:accept|prompt)\b)/i)
+    .forEach((directive) => {
+      const clause = parseClause(directive, clauses[clauses.length - 1]);
+      if (clause !== null) clauses.push(clause);
+    });
+
+  return { clauses };
 };
 
 /**
- * Parse all valid answers from an answerline.
+ * Get the index of the word a condition refers to, conditions without a word
+ * such as "until read" refer to the first mention of one of the alternates,
+ * or the end of the tossup.
+ * @returns The index of the word, or the word count if it is never read.
  */
-export const parseAcceptableAnswers = (answerline: string): string[] => {
-  let normalizedAnswer = cleanAnswerline(answerline);
+export const getConditionIndex = (
+  { word }: AnswerCondition,
+  alternates: AnswerAlternate[],
+  words: string[],
+) => {
+  const normalizedWords = words.map(normalizeAnswer);
+  const phrases = (
+    word === null
+      ? alternates.map(({ answer }) => answer)
+      : [normalizeAnswer(word)]
+  )
+    .filter(emptyStringFilter)
+    .map((phrase) => phrase.split(' '));
 
-  // get bolded answers
-  const boldAnswers = getTextBetweenTags(normalizedAnswer, 'strong').map(
-    removeTags,
+  const index = normalizedWords.findIndex((_, i) =>
+    phrases.some((phrase) =>
+      phrase.every((token, j) => normalizedWords[i + j] === token),
+    ),
   );
+  if (index !== -1) return index;
+  return word === null ? words.length - 1 : words.length;
+};
 
-  // remove tags since they are not needed anymore
-  normalizedAnswer = remove(normalizedAnswer, anyTag);
-
-  // parse acceptable answers, roughly based on acf guidelines
-  const primaryAnswer = /^(.*?)(?:$|(?:\[| or ).*)/g; // first answer up to '[' or EOL
-  const acceptableAnswers =
-    /(?:[[,; ])(?:accept |or )(.*?)(?= (?:do not|prompt|accept|or|until|before|after) |[,;[\]]|$)/g;
-  const answers = [
-    ...getCaptureGroups(normalizedAnswer, primaryAnswer),
-    ...(
-      Array.from(
-        normalizedAnswer.matchAll(acceptableAnswers),
-      ) as RegExpExecArray[]
-    )
-      .filter((match) => filterNegativeAnswers(match, 'accept'))
-      .map((e) => e[1]),
+/**
+ * Check whether a buzz satisfies the condition of a clause.
+ */
+export const isConditionMet = (
+  condition: AnswerCondition,
+  alternates: AnswerAlternate[],
+  { words, index }: BuzzPosition,
+) => {
+  const conditionIndex = getConditionIndex(condition, alternates, words);
+  return condition.kind === ConditionKind.before
+    ? index < conditionIndex
+    : index >= conditionIndex;
+};
+
+const clauseLabels: Record<ClauseType, string> = {
+  [ClauseType.accept]: 'Accepted',
+  [ClauseType.prompt]: 'Prompted',
+  [ClauseType.directedPrompt]: 'Prompted',
+  [ClauseType.reject]: 'Rejected',
+};
+
+/**
+ * Describe the condition that decided a ruling, e.g. 'Prompted until "Mode"
+ * is read' or 'Only accepted before the end of the tossup'.
+ */
+export const describeCondition = ({
+  type,
+  condition,
+  isMet,
+}: JudgedCondition) =>
+  isMet
+    ? `${clauseLabels[type]} ${condition.text}`
+    : `Only ${clauseLabels[type].toLowerCase()} ${condition.text}`;
+
+/**
+ * Describe a clause for the moderator, e.g. 'mode or modal transformation
+ * (until "Mode" is read)'.
+ */
+export const describeClause = ({
+  alternates,
+  question,
+  condition,
+}: AnswerClause) => {
+  const notes = [
+    ...(condition === null ? [] : [condition.text]),
+    ...(question === null ? [] : [`by asking "${question}"`]),
   ];
+  const answers = alternates.map(({ text }) => text).join(' or ');
+  return notes.length === 0 ? answers : `${answers} (${notes.join(', ')})`;
+};
 
-  let allAnswers = combine(boldAnswers, answers);
-  const answersWithoutFirstNames = allAnswers.map(removeFirstNames);
-  allAnswers = combine(allAnswers, answersWithoutFirstNames)
-    .map(normalizeAnswer)
-    .filter(emptyStringFilter);
+const matchLabels: Record<ClauseType, string> = {
+  [ClauseType.accept]: 'acceptable answer',
+  [ClauseType.prompt]: 'promptable answer',
+  [ClauseType.directedPrompt]: 'promptable answer',
+  [ClauseType.reject]: 'rejected answer',
+};
 
-  return getUnique(allAnswers);
+const normalizationLabels: Record<NormalizationStep, string> = {
+  [NormalizationStep.numberToWords]: 'numbers spelled out',
+  [NormalizationStep.firstNameRemoval]: 'first names removed',
 };
 
 /**
- * Parse all promptable answers from an answerline.
+ * Describe the answer that decided a ruling and how similar it was, e.g.
+ * 'Closest acceptable answer “Bach”: 0.92 > 0.60, first names removed'.
+ * @returns The description, or null if there was nothing to compare to.
  */
-export const parsePromptableAnswers = (answer: string) => {
-  let normalizedAnswer = cleanAnswerline(answer);
-
-  // get underlined answers
-  const underlinedAnswers = getTextBetweenTags(normalizedAnswer, 'u').map(
-    removeTags,
-  );
+export const describeMatch = ({ match, threshold, steps }: JudgeVerdict) => {
+  if (match === null) return null;
+
+  const { answer, type, rating } = match;
+  const comparison = rating > threshold ? '>' : '≤';
+  return [
+    `Closest ${matchLabels[type]} “${answer}”: ${rating.toFixed(
+      2,
+    )} ${comparison} ${threshold.toFixed(2)}`,
+    ...steps.map((step) => normalizationLabels[step]),
+  ].join(', ');
+};
 
-  // remove tags since they are not needed anymore
-  normalizedAnswer = remove(normalizedAnswer, anyTag);
+/**
+ * Record the response to the last prompt, if it is still unanswered.
+ */
+export const answerPrompt = (prompts: AnswerPrompt[], response: string) => {
+  const lastPrompt = prompts[prompts.length - 1];
+  if (lastPrompt !== undefined && lastPrompt.response === null) {
+    lastPrompt.response = response;
+  }
+};
 
-  // parse promptable answers, roughly based on acf guidelines
-  const promptRegex =
-    /(?:[[,; ])(?:prompt on |or )(.*?)(?= (?:do not|prompt|accept|or|until|before|after) |[,;[\]]|$)/g;
-  const prompts = (
-    Array.from(normalizedAnswer.matchAll(promptRegex)) as RegExpExecArray[]
-  )
-    .filter((match) => filterNegativeAnswers(match, 'prompt'))
-    .map((e) => e[1]);
+/**
+ * Describe a prompt, e.g. 'Prompted on "P": what is the name of the
+ * relationship between the keys?'.
+ */
+export const describePrompt = ({
+  answer,
+  question,
+}: Pick<AnswerPrompt, 'answer' | 'question'>) =>
+  `Prompted on “${answer}”${question ? `: ${question}` : ''}`;
 
-  const allAnswers = combine(underlinedAnswers, prompts)
-    .map(normalizeAnswer)
-    .filter(emptyStringFilter);
+/**
+ * Get the notes explaining a ruling under the result, the prompt first if
+ * the user is being prompted.
+ */
+export const getVerdictNotes = (
+  verdict: JudgeVerdict | null,
+  currentPrompt?: Pick<AnswerPrompt, 'answer' | 'question'>,
+) =>
+  [
+    currentPrompt && describePrompt(currentPrompt),
+    verdict && describeMatch(verdict),
+    verdict?.condition && describeCondition(verdict.condition),
+  ].filter((note): note is string => !!note);
+
+// an answer to judge against and the clause it comes from
+type JudgeCandidate = {
+  answer: string;
+  // the alternate as written in the answerline
+  text: string;
+  type: ClauseType;
+  clause: AnswerClause;
+  // normalization steps that changed the alternate into the answer
+  steps: NormalizationStep[];
+};
 
-  return getUnique(allAnswers);
+type RatedCandidate = {
+  candidate: JudgeCandidate;
+  rating: number;
 };
 
 /**
- * Check if an answer "approximately" matches any correct answers. Uses Dice's
- * coefficient to compare strings.
+ * Get the answers to judge against from the clauses of the given types, the
+ * bold parts and the answers without first names are accepted as well.
  */
-const checkAnswer = (userAnswer: string, answers: string[]) => {
-  if (answers.length === 0)
-    return {
-      ratings: [],
-      bestMatch: {
-        rating: 0,
-      },
-      bestMatchIndex: -1,
-    };
+const getCandidates = (
+  answerline: Answerline,
+  types: ClauseType[],
+): JudgeCandidate[] =>
+  answerline.clauses
+    .filter(({ type }) => types.includes(type))
+    .flatMap((clause) =>
+      clause.alternates.flatMap(({ text, answer, required }) => {
+        const withoutFirstNames = normalizeAnswer(removeFirstNames(text));
+        return [
+          ...[answer, ...required].map((a) => ({ answer: a, steps: [] })),
+          {
+            answer: withoutFirstNames,
+            steps:
+              withoutFirstNames === answer
+                ? []
+                : [NormalizationStep.firstNameRemoval],
+          },
+        ]
+          .filter(({ answer: a }) => a !== '')
+          .map((a) => ({ ...a, text, type: clause.type, clause }));
+      }),
+    );
+
+/**
+ * Get the underlined parts of the acceptable answers, worth a prompt on their
+ * own.
+ */
+const getUnderlinedCandidates = (answerline: Answerline): JudgeCandidate[] =>
+  answerline.clauses
+    .filter(({ type }) => type === ClauseType.accept)
+    .flatMap((clause) =>
+      clause.alternates
+        .flatMap(({ underlined }) => underlined)
+        .map((answer) => ({
+          answer,
+          text: answer,
+          type: ClauseType.prompt,
+          clause,
+          steps: [],
+        })),
+    );
 
-  return ss.findBestMatch(userAnswer, answers);
+export type JudgeOptions = {
+  strategy: JudgeStrategy;
+  threshold: number;
+};
+
+const defaultJudgeOptions: JudgeOptions = {
+  strategy: DEFAULT_JUDGE_STRATEGY,
+  threshold: DEFAULT_JUDGE_THRESHOLDS[DEFAULT_JUDGE_STRATEGY],
 };
 
 /**
  * Class for judging user answers against an answerline, supports prompts.
+ * Answers "approximately" match if their similarity is above the threshold,
+ * similarity is measured with the configured strategy (Dice's coefficient by
+ * default).
  */
 export class Judge {
-  acceptableAnswers: string[];
+  answerline: Answerline;
+
+  acceptableAnswers: JudgeCandidate[];
+
+  promptableAnswers: JudgeCandidate[];
+
+  // answers the answerline says not to accept, checked first
+  rejectableAnswers: JudgeCandidate[];
+
+  options: JudgeOptions;
+
+  // where the user buzzed, conditions are ignored until it is known
+  buzz: BuzzPosition | null = null;
+
+  constructor(answerline: string, options = defaultJudgeOptions) {
+    this.answerline = parseAnswerline(answerline);
+    this.acceptableAnswers = getCandidates(this.answerline, [
+      ClauseType.accept,
+    ]);
+    const acceptable = this.acceptableAnswers
+      .filter(({ clause }) => clause.condition === null)
+      .map(({ answer }) => answer);
+    this.promptableAnswers = combine(
+      getUnderlinedCandidates(this.answerline),
+      getCandidates(this.answerline, [
+        ClauseType.prompt,
+        ClauseType.directedPrompt,
+      ]),
+    ).filter(({ answer }) => !acceptable.includes(answer));
+    this.rejectableAnswers = getCandidates(this.answerline, [
+      ClauseType.reject,
+    ]);
+    this.options = options;
+    logger.info('Answerline:', this.answerline);
+  }
 
-  promptableAnswers: string[];
+  /**
+   * Set where the user buzzed, for judging "until read" conditions.
+   */
+  setBuzz(buzz: BuzzPosition) {
+    this.buzz = buzz;
+  }
 
-  constructor(answerline: string) {
-    this.acceptableAnswers = parseAcceptableAnswers(answerline);
-    this.promptableAnswers = parsePromptableAnswers(answerline);
-    logger.info('Correct answers:', this.acceptableAnswers);
-    logger.info('Promptable answers:', this.promptableAnswers);
+  private isApplicable({ clause: { condition, alternates } }: JudgeCandidate) {
+    return (
+      condition === null ||
+      this.buzz === null ||
+      isConditionMet(condition, alternates, this.buzz)
+    );
   }
 
-  judge(userAnswer: string): JudgeResult {
-    const MIN_RATING = 0.6;
+  /**
+   * Find the candidate most similar to the user answer, matching or not.
+   */
+  private findBest(
+    userAnswer: string,
+    candidates: JudgeCandidate[],
+  ): RatedCandidate | null {
+    if (candidates.length === 0) return null;
+
+    const ratings = findBestMatch(
+      userAnswer,
+      candidates.map(({ answer }) => answer),
+      this.options.strategy,
+    );
+    logger.info(`Answer ratings for "${userAnswer}":`, ratings.ratings);
+    if (ratings.bestMatchIndex === -1) return null;
 
-    let ratings = checkAnswer(userAnswer, this.acceptableAnswers);
-    logger.info(
-      `Acceptable answer ratings for "${userAnswer}":`,
-      ratings.ratings,
+    return {
+      candidate: candidates[ratings.bestMatchIndex],
+      rating: ratings.bestMatch.rating,
+    };
+  }
+
+  judge(input: string): JudgeVerdict {
+    const userAnswer = normalizeAnswer(input);
+    const { threshold } = this.options;
+    const isMatch = (rated: RatedCandidate | null): rated is RatedCandidate =>
+      rated !== null && rated.rating > threshold;
+
+    // explain the ruling with the answer that decided it, the condition of its
+    // clause only counts if the answer matched
+    const verdict = (
+      result: JudgeResult,
+      rated: RatedCandidate | null,
+      isMet: boolean | null = true,
+    ): JudgeVerdict => {
+      const condition = rated?.candidate.clause.condition ?? null;
+      const match: AnswerMatch | null = rated && {
+        answer: rated.candidate.text,
+        type: rated.candidate.type,
+        rating: rated.rating,
+      };
+      return {
+        result,
+        userAnswer,
+        match,
+        threshold,
+        steps: combine(
+          convertNumberToWords(input) === input
+            ? []
+            : [NormalizationStep.numberToWords],
+          rated?.candidate.steps ?? [],
+        ),
+        condition:
+          rated === null || condition === null || isMet === null
+            ? null
+            : { type: rated.candidate.type, condition, isMet },
+        prompt: null,
+      };
+    };
+
+    // a rejected answer only loses to answers matching at least as well, so
+    // "Dos Passos" is still accepted when "Passos" is rejected
+    const reject = this.findBest(
+      userAnswer,
+      this.rejectableAnswers.filter((c) => this.isApplicable(c)),
     );
-    if (ratings.bestMatch.rating > MIN_RATING) {
-      return JudgeResult.correct;
+    const isRejected = ({ rating }: { rating: number }) =>
+      isMatch(reject) && reject.rating >= rating;
+
+    const accept = this.findBest(
+      userAnswer,
+      this.acceptableAnswers.filter((c) => this.isApplicable(c)),
+    );
+    if (isMatch(accept) && !isRejected(accept)) {
+      return verdict(JudgeResult.correct, accept);
     }
 
-    if (this.promptableAnswers.length > 0) {
-      ratings = checkAnswer(userAnswer, this.promptableAnswers);
-      logger.info(
-        `Promptable answer ratings for "${userAnswer}":`,
-        ratings.ratings,
+    const prompt = this.findBest(
+      userAnswer,
+      this.promptableAnswers.filter((c) => this.isApplicable(c)),
+    );
+    if (isMatch(prompt) && !isRejected(prompt)) {
+      // remove promptable answer, so it does not get prompted again
+      this.promptableAnswers = this.promptableAnswers.filter(
+        ({ answer }) => answer !== prompt.candidate.answer,
       );
-      if (ratings.bestMatch.rating > MIN_RATING) {
-        // remove promptable answer, so it does not get prompted again
-        this.promptableAnswers.splice(ratings.bestMatchIndex, 1);
-        return JudgeResult.prompt;
-      }
+      return {
+        ...verdict(JudgeResult.prompt, prompt),
+        prompt: {
+          answer: prompt.candidate.text,
+          question: prompt.candidate.clause.question,
+        },
+      };
     }
 
-    return JudgeResult.incorrect;
+    if (isMatch(reject)) return verdict(JudgeResult.incorrect, reject);
+
+    // explain why an answer matching a conditional clause was not ruled on it
+    const unmet = this.findBest(
+      userAnswer,
+      combine(this.acceptableAnswers, this.promptableAnswers).filter(
+        (c) => !this.isApplicable(c),
+      ),
+    );
+    if (isMatch(unmet)) return verdict(JudgeResult.incorrect, unmet, false);
+
+    // otherwise show how close the closest answer came
+    const closest =
+      prompt !== null && (accept === null || prompt.rating > accept.rating)
+        ? prompt
+        : accept;
+    return verdict(JudgeResult.incorrect, closest, null);
   }
 }
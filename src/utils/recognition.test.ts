@@ -0,0 +1,60 @@
+import { JudgeResult } from '../types/tossups';
+import { Judge } from './reader';
+import { answerByVoice, AnswerRecognizer } from './recognition';
+
+// hears the given transcripts one after the other, then nothing
+const createFakeRecognizer = (transcripts: string[]): AnswerRecognizer => {
+  const queue = [...transcripts];
+  let isAborted = false;
+  return {
+    recognize: async () => (isAborted ? null : queue.shift() ?? null),
+    abort: () => {
+      isAborted = true;
+    },
+  };
+};
+
+describe('Voice answers', () => {
+  const answerline = 'mitochondria [prompt on organelle]';
+
+  test('a spoken answer is normalized and judged', async () => {
+    const onJudged = jest.fn();
+    const answer = await answerByVoice(
+      createFakeRecognizer(['Mitochondria!']),
+      new Judge(answerline),
+      onJudged,
+    );
+    expect(answer?.userAnswer).toBe('mitochondria');
+    expect(answer?.result).toBe(JudgeResult.correct);
+    expect(onJudged).toHaveBeenCalledTimes(1);
+  });
+
+  test('prompts keep listening until the answer is judged', async () => {
+    const onJudged = jest.fn();
+    const answer = await answerByVoice(
+      createFakeRecognizer(['an organelle', 'the mitochondria']),
+      new Judge(answerline),
+      onJudged,
+    );
+    expect(
+      onJudged.mock.calls.map(([{ userAnswer, result }]) => [
+        userAnswer,
+        result,
+      ]),
+    ).toEqual([
+      ['an organelle', JudgeResult.prompt],
+      ['the mitochondria', JudgeResult.correct],
+    ]);
+    expect(answer?.result).toBe(JudgeResult.correct);
+  });
+
+  test('nothing is judged once listening is aborted', async () => {
+    const recognizer = createFakeRecognizer(['mitochondria']);
+    const onJudged = jest.fn();
+    recognizer.abort();
+    expect(
+      await answerByVoice(recognizer, new Judge(answerline), onJudged),
+    ).toBeNull();
+    expect(onJudged).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { JudgeResult, JudgeVerdict } from '../types/tossups';
+import { Judge } from './reader';
+
+/**
+ * Anything that can listen for a spoken answer, e.g. the browser's speech
+ * recognition or a fake one in tests.
+ */
+export interface AnswerRecognizer {
+  // resolves with what was said, or null if nothing was heard or it was aborted
+  recognize: () => Promise<string | null>;
+  abort: () => void;
+}
+
+// the Web Speech API is missing from TypeScript's dom types
+type SpeechRecognitionResultEvent = {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+};
+type SpeechRecognition = {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((e: SpeechRecognitionResultEvent) => void) | null;
+  onerror: (() => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+};
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const isRecognitionSupported = () =>
+  getSpeechRecognition() !== undefined;
+
+/**
+ * Create a recognizer backed by the browser's speech recognition, null if the
+ * browser does not support it.
+ */
+export const createSpeechRecognizer = (): AnswerRecognizer | null => {
+  const Recognition = getSpeechRecognition();
+  if (Recognition === undefined) return null;
+
+  const recognition = new Recognition();
+  recognition.lang = 'en-US';
+  recognition.interimResults = false;
+  recognition.maxAlternatives = 1;
+
+  let isAborted = false;
+  let finish: (transcript: string | null) => void = () => {};
+  recognition.onresult = (e) => finish(e.results[0]?.[0]?.transcript ?? null);
+  recognition.onerror = () => finish(null);
+  recognition.onend = () => finish(null);
+
+  return {
+    recognize: () =>
+      new Promise((resolve) => {
+        if (isAborted) {
+          resolve(null);
+          return;
+        }
+
+        // only the first result, error or end settles each recognition
+        finish = (transcript) => {
+          finish = () => {};
+          resolve(transcript);
+        };
+        recognition.start();
+      }),
+    abort: () => {
+      isAborted = true;
+      finish(null);
+      recognition.abort();
+    },
+  };
+};
+
+/**
+ * Listen for an answer and judge it, listening again for as long as the judge
+ * prompts. `onJudged` is called with every judged answer, prompts included.
+ * @returns The final answer, or null if listening stopped before it.
+ */
+export const answerByVoice = async (
+  recognizer: AnswerRecognizer,
+  judge: Judge,
+  onJudged: (verdict: JudgeVerdict) => void,
+): Promise<JudgeVerdict | null> => {
+  const transcript = await recognizer.recognize();
+  if (transcript === null) return null;
+
+  const verdict = judge.judge(transcript);
+  onJudged(verdict);
+
+  if (verdict.result === JudgeResult.prompt) {
+    return answerByVoice(recognizer, judge, onJudged);
+  }
+  return verdict;
+};
@@ -5,6 +5,8 @@ export const betweenParentheses = /\(.*?\)/g;
 export const duplicateSpace = /\s\s+/g;
 export const ltgt = /&lt;.*?&gt;/g;
 export const quotes = /["'\u2018\u2019\u201C\u201D]/g;
+// a word ending a sentence, possibly followed by closing quotes or brackets
+export const sentenceEnd = /[.?!]["'\u2019\u201D)\]]*$/;
 
 /**
  * Get all regex capture groups from a string. Assumes only one capture group per
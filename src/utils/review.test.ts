@@ -0,0 +1,105 @@
+import { Bonus } from '../types/bonus';
+import {
+  Category,
+  Difficulty,
+  Subcategory,
+  Tournament,
+} from '../types/questions';
+import { Tossup, TossupScore } from '../types/tossups';
+import { getBonusKey, getDueItems, getRecallQuality, schedule } from './review';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Scheduling reviews', () => {
+  test('missed tossups are due the next day', () => {
+    const next = schedule(undefined, getRecallQuality(TossupScore.neg), 0);
+    expect(next.repetitions).toBe(0);
+    expect(next.interval).toBe(1);
+    expect(next.due).toBe(DAY);
+    expect(next.easeFactor).toBeCloseTo(1.96);
+  });
+
+  test('intervals grow with consecutive correct answers', () => {
+    const quality = getRecallQuality(TossupScore.ten);
+    const first = schedule(undefined, quality, 0);
+    const second = schedule(first, quality, 0);
+    const third = schedule(second, quality, 0);
+    expect([first.interval, second.interval, third.interval]).toEqual([
+      1, 6, 15,
+    ]);
+    expect(third.repetitions).toBe(3);
+  });
+
+  test('missing a tossup resets repetitions', () => {
+    const learned = { repetitions: 4, interval: 30, easeFactor: 2.5, due: 0 };
+    const next = schedule(learned, getRecallQuality(TossupScore.incorrect), 0);
+    expect(next.repetitions).toBe(0);
+    expect(next.interval).toBe(1);
+  });
+
+  test('ease factor never drops below 1.3', () => {
+    let next = schedule(undefined, 0, 0);
+    for (let i = 0; i < 10; i += 1) next = schedule(next, 0, 0);
+    expect(next.easeFactor).toBe(1.3);
+  });
+});
+
+describe('Getting due items', () => {
+  test('only due items are returned, most overdue first', () => {
+    const items = [3, 1, 5, 2].map((due) => ({
+      key: `${due}`,
+      due,
+      repetitions: 0,
+      interval: 1,
+      easeFactor: 2.5,
+      tossup: {} as Tossup,
+      judgedAt: 0,
+      previous: null,
+    }));
+    expect(getDueItems(items, 3).map(({ key }) => key)).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+});
+
+describe('Identifying bonuses', () => {
+  const createBonus = (
+    texts: string[],
+    round?: number,
+    number?: number,
+  ): Bonus => ({
+    leadin: 'For 10 points each:',
+    formattedLeadin: 'For 10 points each:',
+    category: Category.Science,
+    subcategory: Subcategory['Science Chemistry'],
+    difficulty: Difficulty['Regular College'],
+    tournament: Tournament['2013 ACF Fall'],
+    year: 2013,
+    round,
+    number,
+    parts: texts.map((text, i) => ({
+      number: i + 1,
+      text,
+      answer: '',
+      formattedText: text,
+      formattedAnswer: '',
+    })),
+  });
+
+  test('bonuses sharing a generic leadin are told apart', () => {
+    expect(getBonusKey(createBonus(['Name this gas.'], 1, 2))).not.toBe(
+      getBonusKey(createBonus(['Name this gas.'], 1, 3)),
+    );
+    expect(getBonusKey(createBonus(['Name this gas.']))).not.toBe(
+      getBonusKey(createBonus(['Name this metal.'])),
+    );
+  });
+
+  test('the same bonus has the same key', () => {
+    expect(getBonusKey(createBonus(['Name this gas.'], 1, 2))).toBe(
+      getBonusKey(createBonus(['Name this metal.'], 1, 2)),
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { Bonus } from '../types/bonus';
+import { ReviewItem, ReviewSchedule } from '../types/review';
+import { Tossup, TossupScore } from '../types/tossups';
+import { REVIEW_QUEUE_LS_KEY } from './constants';
+import { restore, save } from './settings';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+
+/**
+ * Identify a tossup across fetches, tossups don't have ids so use the text.
+ */
+export const getTossupKey = (tossup: Tossup) => tossup.text;
+
+/**
+ * Identify a bonus across fetches by its place in a packet, leadins are often
+ * generic so bonuses without one fall back to the text of their parts.
+ */
+export const getBonusKey = ({
+  tournament,
+  year,
+  round,
+  number,
+  leadin,
+  parts,
+}: Bonus) =>
+  round !== undefined && number !== undefined
+    ? [tournament, year, round, number].join('|')
+    : [leadin, ...parts.map(({ text }) => text)].join('|');
+
+/**
+ * Convert a tossup score into an SM-2 recall quality from 0 - 5.
+ */
+export const getRecallQuality = (score: TossupScore) => {
+  if (score === TossupScore.power) return 5;
+  if (score === TossupScore.ten) return 4;
+  if (score === TossupScore.neg) return 1;
+  return 0;
+};
+
+/**
+ * Compute the next review schedule using the SM-2 algorithm.
+ * Failed recalls (quality < 3) restart the repetitions, successful recalls
+ * grow the interval by the ease factor.
+ */
+export const schedule = (
+  previous: ReviewSchedule | undefined,
+  quality: number,
+  now: number,
+): ReviewSchedule => {
+  const {
+    repetitions = 0,
+    interval = 0,
+    easeFactor = INITIAL_EASE_FACTOR,
+  } = previous ?? {};
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+
+  if (quality < 3) {
+    return {
+      repetitions: 0,
+      interval: 1,
+      easeFactor: nextEaseFactor,
+      due: now + DAY,
+    };
+  }
+
+  let nextInterval;
+  if (repetitions === 0) nextInterval = 1;
+  else if (repetitions === 1) nextInterval = 6;
+  else nextInterval = Math.round(interval * easeFactor);
+
+  return {
+    repetitions: repetitions + 1,
+    interval: nextInterval,
+    easeFactor: nextEaseFactor,
+    due: now + nextInterval * DAY,
+  };
+};
+
+/**
+ * Get review items that are due, most overdue first.
+ */
+export const getDueItems = (items: ReviewItem[], now: number) =>
+  items.filter(({ due }) => due <= now).sort((a, b) => a.due - b.due);
+
+export const saveReviewQueue = (items: ReviewItem[]) =>
+  save(REVIEW_QUEUE_LS_KEY, items);
+
+export const restoreReviewQueue = () => {
+  const items = restore(REVIEW_QUEUE_LS_KEY);
+
+  let parsedItems;
+  try {
+    parsedItems = items === null ? null : JSON.parse(items);
+  } catch (e) {
+    parsedItems = null;
+  }
+
+  if (!Array.isArray(parsedItems)) {
+    saveReviewQueue([]);
+    return [];
+  }
+  return parsedItems as ReviewItem[];
+};
@@ -4,6 +4,15 @@ export const ROUTES = {
     tossup: '/reader/tossup',
     bonus: '/reader/bonus',
   },
+  packet: {
+    root: '/packet',
+  },
+  drill: {
+    root: '/drill',
+  },
+  moderator: {
+    root: '/moderator',
+  },
   freq: {
     root: '/freq',
   },
@@ -13,6 +22,15 @@ export const ROUTES = {
     searchResults: (answer: string) => `/clues/search/${answer}`,
     display: (answer: string) => `/clues/display/${answer}`,
   },
+  room: {
+    root: '/room',
+  },
+  packs: {
+    root: '/packs',
+  },
+  stats: {
+    root: '/stats',
+  },
   about: {
     root: '/about',
   },
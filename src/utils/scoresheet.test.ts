@@ -0,0 +1,50 @@
+import { MatchPlayer, ScoresheetRow } from '../types/moderator';
+import { Tossup, TossupScore } from '../types/tossups';
+import { getMatchScores, getScoreLine, getTeamBuzzes } from './scoresheet';
+
+const players: MatchPlayer[] = [
+  { id: 'a', name: 'Alice', team: 'Red' },
+  { id: 'b', name: 'Bob', team: 'Blue' },
+  { id: 'c', name: 'Carol', team: 'Red' },
+];
+
+const rows: ScoresheetRow[] = [
+  {
+    tossup: {} as Tossup,
+    buzzes: [
+      { playerId: 'b', buzzIndex: 3, score: TossupScore.neg },
+      { playerId: 'a', buzzIndex: 9, score: TossupScore.ten },
+    ],
+  },
+  {
+    tossup: {} as Tossup,
+    buzzes: [{ playerId: 'c', buzzIndex: 2, score: TossupScore.power }],
+  },
+  { tossup: {} as Tossup, buzzes: [] },
+];
+
+describe('Scoring a match', () => {
+  test('tallies a score line', () => {
+    expect(getScoreLine(rows[0].buzzes)).toEqual({
+      powers: 0,
+      tens: 1,
+      negs: 1,
+      points: 5,
+    });
+  });
+
+  test('attributes buzzes to teams', () => {
+    expect(getTeamBuzzes(rows[0].buzzes, players, 'Red')).toEqual([
+      rows[0].buzzes[1],
+    ]);
+  });
+
+  test('totals players and teams', () => {
+    const scores = getMatchScores(players, rows);
+    expect(scores.players.map(({ line }) => line.points)).toEqual([10, -5, 15]);
+    expect(scores.teams).toEqual([
+      { team: 'Red', line: { powers: 1, tens: 1, negs: 0, points: 25 } },
+      { team: 'Blue', line: { powers: 0, tens: 0, negs: 1, points: -5 } },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { MatchBuzz, MatchPlayer, ScoresheetRow } from '../types/moderator';
+import { TossupScore } from '../types/tossups';
+
+export type ScoreLine = {
+  powers: number;
+  tens: number;
+  negs: number;
+  points: number;
+};
+
+const emptyLine: ScoreLine = { powers: 0, tens: 0, negs: 0, points: 0 };
+
+/**
+ * Tally a list of buzzes into a powers/tens/negs line.
+ */
+export const getScoreLine = (buzzes: MatchBuzz[]): ScoreLine =>
+  buzzes.reduce(
+    (line, { score }) => ({
+      powers: line.powers + (score === TossupScore.power ? 1 : 0),
+      tens: line.tens + (score === TossupScore.ten ? 1 : 0),
+      negs: line.negs + (score === TossupScore.neg ? 1 : 0),
+      points: line.points + score,
+    }),
+    emptyLine,
+  );
+
+/**
+ * Get every team in the match, in the order they were added.
+ */
+export const getTeams = (players: MatchPlayer[]) =>
+  Array.from(new Set(players.map(({ team }) => team)));
+
+/**
+ * Get the buzzes of the players in a team.
+ */
+export const getTeamBuzzes = (
+  buzzes: MatchBuzz[],
+  players: MatchPlayer[],
+  team: string,
+) => {
+  const members = new Set(
+    players.filter((p) => p.team === team).map(({ id }) => id),
+  );
+  return buzzes.filter(({ playerId }) => members.has(playerId));
+};
+
+/**
+ * Get the score lines of every player and team across a scoresheet.
+ */
+export const getMatchScores = (
+  players: MatchPlayer[],
+  rows: ScoresheetRow[],
+) => {
+  const buzzes = rows.flatMap((row) => row.buzzes);
+  return {
+    players: players.map((player) => ({
+      player,
+      line: getScoreLine(buzzes.filter((b) => b.playerId === player.id)),
+    })),
+    teams: getTeams(players).map((team) => ({
+      team,
+      line: getScoreLine(getTeamBuzzes(buzzes, players, team)),
+    })),
+  };
+};
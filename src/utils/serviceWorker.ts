@@ -0,0 +1,16 @@
+import logger from './logger';
+
+/**
+ * Register the service worker caching the app shell. Only done in production
+ * builds, since a cached shell gets in the way of the dev server.
+ */
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator))
+    return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch((err) => logger.error('Service worker registration failed.', err));
+  });
+};
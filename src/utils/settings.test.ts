@@ -0,0 +1,62 @@
+import { Category, Difficulty } from '../types/questions';
+import { MIN_TOURNAMENT_YEAR } from './constants';
+import { createPreset, parsePresets } from './settings';
+
+const preset = createPreset(
+  'Literature',
+  {
+    readingSpeed: 50,
+    categories: [Category.Literature],
+    subcategories: [],
+    difficulties: [Difficulty['Easy College']],
+    tournaments: [],
+    fromYear: MIN_TOURNAMENT_YEAR,
+  },
+  'preset',
+);
+
+describe('Importing presets', () => {
+  test('exported presets are imported back', () => {
+    expect(parsePresets(JSON.stringify([preset]))).toEqual([preset]);
+    expect(parsePresets('[]')).toEqual([]);
+  });
+
+  test('malformed imports are rejected', () => {
+    [
+      '',
+      '{',
+      'null',
+      '"presets"',
+      JSON.stringify(preset),
+      '[null]',
+      '[1]',
+    ].forEach((json) => expect(parsePresets(json)).toBeNull());
+  });
+
+  test('presets with fields of the wrong type are rejected', () => {
+    [
+      { id: 1 },
+      { name: '' },
+      { readingSpeed: '50' },
+      { readingSpeed: 42 },
+      { categories: Category.Literature },
+      { difficulties: ['Easy College'] },
+      { fromYear: String(MIN_TOURNAMENT_YEAR) },
+      { fromYear: MIN_TOURNAMENT_YEAR - 1 },
+    ].forEach((fields) =>
+      expect(
+        parsePresets(JSON.stringify([{ ...preset, ...fields }])),
+      ).toBeNull(),
+    );
+  });
+
+  test('presets with unknown categories are rejected', () => {
+    const { categories, ...rest } = preset;
+    expect(
+      parsePresets(
+        JSON.stringify([{ ...preset, categories: [...categories, 99] }]),
+      ),
+    ).toBeNull();
+    expect(parsePresets(JSON.stringify([rest]))).toBeNull();
+  });
+});
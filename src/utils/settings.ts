@@ -1,22 +1,56 @@
+import { Preset } from '../types/presets';
 import {
   Category,
   Difficulty,
+  QuestionParameter,
+  QuestionSettings,
   Subcategory,
   Tournament,
 } from '../types/questions';
 import {
+  AnswerTimer,
+  PacingSettings,
+  ReadingPacing,
+  SpeechSettings,
+} from '../types/settings';
+import { JudgeStrategy } from '../types/tossups';
+import {
+  ANSWER_TIMES_LS_KEY,
+  CATEGORIES,
   CATEGORIES_LS_KEY,
+  CATEGORY_WEIGHTS_LS_KEY,
+  DEFAULT_ANSWER_TIMES,
+  DEFAULT_CATEGORY_WEIGHTS,
+  DEFAULT_JUDGE_STRATEGY,
+  DEFAULT_JUDGE_THRESHOLDS,
+  DEFAULT_PACING_SETTINGS,
   DEFAULT_READING_SPEED,
+  DEFAULT_SPEECH_SETTINGS,
+  DIFFICULTIES,
   DIFFICULTIES_LS_KEY,
   FROM_YEAR_LS_KEY,
+  JUDGE_STRATEGY_LS_KEY,
+  JUDGE_THRESHOLDS_LS_KEY,
+  MAX_ANSWER_TIME,
+  MAX_CATEGORY_WEIGHT,
+  MAX_READING_PAUSE,
+  MAX_SPEECH_RATE,
   MAX_TOURNAMENT_YEAR,
+  MIN_CATEGORY_WEIGHT,
+  MIN_SPEECH_RATE,
   MIN_TOURNAMENT_YEAR,
+  PACING_LS_KEY,
+  PRESETS_LS_KEY,
   READING_SPEED_LS_KEY,
+  SPEECH_LS_KEY,
+  SUBCATEGORIES,
   SUBCATEGORIES_LS_KEY,
+  TOURNAMENTS,
   TOURNAMENTS_LS_KEY,
+  VOICE_INPUT_LS_KEY,
 } from './constants';
 
-const save = (key: string, data: any) =>
+export const save = (key: string, data: any) =>
   window.localStorage.setItem(key, JSON.stringify(data));
 
 export const saveReadingSpeed = (speed: number) =>
@@ -36,7 +70,31 @@ export const saveTournaments = (tournaments: Tournament[]) =>
 
 export const saveFromYear = (from: number) => save(FROM_YEAR_LS_KEY, from);
 
-const restore = (key: string) => window.localStorage.getItem(key);
+export const saveJudgeStrategy = (strategy: JudgeStrategy) =>
+  save(JUDGE_STRATEGY_LS_KEY, strategy);
+
+export const saveJudgeThresholds = (
+  thresholds: Record<JudgeStrategy, number>,
+) => save(JUDGE_THRESHOLDS_LS_KEY, thresholds);
+
+export const savePresets = (presets: Preset[]) => save(PRESETS_LS_KEY, presets);
+
+export const saveCategoryWeights = (weights: Record<Category, number>) =>
+  save(CATEGORY_WEIGHTS_LS_KEY, weights);
+
+export const saveAnswerTimes = (times: Record<AnswerTimer, number>) =>
+  save(ANSWER_TIMES_LS_KEY, times);
+
+export const saveSpeechSettings = (speech: SpeechSettings) =>
+  save(SPEECH_LS_KEY, speech);
+
+export const saveVoiceInput = (isEnabled: boolean) =>
+  save(VOICE_INPUT_LS_KEY, isEnabled);
+
+export const savePacingSettings = (pacing: PacingSettings) =>
+  save(PACING_LS_KEY, pacing);
+
+export const restore = (key: string) => window.localStorage.getItem(key);
 
 const validateReadingSpeed = (speed: number) =>
   speed >= 0 && speed <= 100 && speed % 5 === 0;
@@ -114,6 +172,297 @@ export const restoreFromYear = () => {
   return parsedYear;
 };
 
+const validateJudgeStrategy = (strategy: number) =>
+  JudgeStrategy[strategy] !== undefined;
+
+export const restoreJudgeStrategy = () => {
+  const strategy = restore(JUDGE_STRATEGY_LS_KEY);
+  const parsedStrategy = Number(strategy);
+
+  const isInvalid =
+    strategy === null ||
+    Number.isNaN(parsedStrategy) ||
+    !validateJudgeStrategy(parsedStrategy);
+  if (isInvalid) {
+    saveJudgeStrategy(DEFAULT_JUDGE_STRATEGY);
+    return DEFAULT_JUDGE_STRATEGY;
+  }
+
+  return parsedStrategy as JudgeStrategy;
+};
+
+export const validateJudgeThreshold = (threshold: number) =>
+  threshold >= 0 && threshold <= 1;
+
+/**
+ * Restore each strategy's threshold, falling back to the default threshold of
+ * any strategy whose saved threshold is missing or invalid.
+ */
+export const restoreJudgeThresholds = () => {
+  const thresholds = restore(JUDGE_THRESHOLDS_LS_KEY);
+
+  let parsedThresholds: Record<string, unknown>;
+  try {
+    parsedThresholds = thresholds === null ? {} : JSON.parse(thresholds);
+  } catch (e) {
+    parsedThresholds = {};
+  }
+
+  const restoredThresholds = { ...DEFAULT_JUDGE_THRESHOLDS };
+  (Object.keys(restoredThresholds) as unknown as JudgeStrategy[]).forEach(
+    (strategy) => {
+      const threshold = parsedThresholds?.[strategy];
+      if (typeof threshold === 'number' && validateJudgeThreshold(threshold)) {
+        restoredThresholds[strategy] = threshold;
+      }
+    },
+  );
+  saveJudgeThresholds(restoredThresholds);
+
+  return restoredThresholds;
+};
+
+export const validateCategoryWeight = (weight: number) =>
+  Number.isInteger(weight) &&
+  weight >= MIN_CATEGORY_WEIGHT &&
+  weight <= MAX_CATEGORY_WEIGHT;
+
+/**
+ * Restore each category's weight, falling back to the default distribution for
+ * any category whose saved weight is missing or invalid.
+ */
+export const restoreCategoryWeights = () => {
+  const weights = restore(CATEGORY_WEIGHTS_LS_KEY);
+
+  let parsedWeights: Record<string, unknown>;
+  try {
+    parsedWeights = weights === null ? {} : JSON.parse(weights);
+  } catch (e) {
+    parsedWeights = {};
+  }
+
+  const restoredWeights = { ...DEFAULT_CATEGORY_WEIGHTS };
+  (Object.keys(restoredWeights) as unknown as Category[]).forEach(
+    (category) => {
+      const weight = parsedWeights?.[category];
+      if (typeof weight === 'number' && validateCategoryWeight(weight)) {
+        restoredWeights[category] = weight;
+      }
+    },
+  );
+  saveCategoryWeights(restoredWeights);
+
+  return restoredWeights;
+};
+
+export const validateAnswerTime = (time: number) =>
+  Number.isInteger(time) && time >= 0 && time <= MAX_ANSWER_TIME;
+
+/**
+ * Restore each answer timer, falling back to the default time of any timer
+ * whose saved time is missing or invalid.
+ */
+export const restoreAnswerTimes = () => {
+  const times = restore(ANSWER_TIMES_LS_KEY);
+
+  let parsedTimes: Record<string, unknown>;
+  try {
+    parsedTimes = times === null ? {} : JSON.parse(times);
+  } catch (e) {
+    parsedTimes = {};
+  }
+
+  const restoredTimes = { ...DEFAULT_ANSWER_TIMES };
+  (Object.keys(restoredTimes) as unknown as AnswerTimer[]).forEach((timer) => {
+    const time = parsedTimes?.[timer];
+    if (typeof time === 'number' && validateAnswerTime(time)) {
+      restoredTimes[timer] = time;
+    }
+  });
+  saveAnswerTimes(restoredTimes);
+
+  return restoredTimes;
+};
+
+/**
+ * Convert an answer time in seconds into milliseconds, an untimed answer has
+ * no duration.
+ */
+export const getAnswerDuration = (time: number) =>
+  time === 0 ? null : time * 1000;
+
+export const validateSpeechRate = (rate: number) =>
+  rate >= MIN_SPEECH_RATE && rate <= MAX_SPEECH_RATE;
+
+/**
+ * Restore the speech settings, falling back to the default of any setting
+ * that is missing or invalid.
+ */
+export const restoreSpeechSettings = () => {
+  const speech = restore(SPEECH_LS_KEY);
+
+  let parsedSpeech: Record<string, unknown>;
+  try {
+    parsedSpeech = speech === null ? {} : JSON.parse(speech);
+  } catch (e) {
+    parsedSpeech = {};
+  }
+
+  const { isEnabled, voice, rate, hideText } = parsedSpeech ?? {};
+  const restoredSpeech: SpeechSettings = {
+    isEnabled:
+      typeof isEnabled === 'boolean'
+        ? isEnabled
+        : DEFAULT_SPEECH_SETTINGS.isEnabled,
+    voice: typeof voice === 'string' ? voice : DEFAULT_SPEECH_SETTINGS.voice,
+    rate:
+      typeof rate === 'number' && validateSpeechRate(rate)
+        ? rate
+        : DEFAULT_SPEECH_SETTINGS.rate,
+    hideText:
+      typeof hideText === 'boolean'
+        ? hideText
+        : DEFAULT_SPEECH_SETTINGS.hideText,
+  };
+  saveSpeechSettings(restoredSpeech);
+
+  return restoredSpeech;
+};
+
+export const restoreVoiceInput = () => {
+  const isEnabled = restore(VOICE_INPUT_LS_KEY);
+  if (isEnabled !== 'true' && isEnabled !== 'false') {
+    saveVoiceInput(false);
+    return false;
+  }
+
+  return isEnabled === 'true';
+};
+
+export const validateReadingPause = (pause: number) =>
+  Number.isInteger(pause) && pause >= 0 && pause <= MAX_READING_PAUSE;
+
+/**
+ * Restore the pacing settings, falling back to the default of any setting that
+ * is missing or invalid.
+ */
+export const restorePacingSettings = () => {
+  const pacing = restore(PACING_LS_KEY);
+
+  let parsedPacing: Record<string, unknown>;
+  try {
+    parsedPacing = pacing === null ? {} : JSON.parse(pacing);
+  } catch (e) {
+    parsedPacing = {};
+  }
+
+  const restoredPacing = { ...DEFAULT_PACING_SETTINGS };
+  if (
+    typeof parsedPacing?.pacing === 'number' &&
+    parsedPacing.pacing in ReadingPacing
+  ) {
+    restoredPacing.pacing = parsedPacing.pacing;
+  }
+  (['commaPause', 'periodPause', 'powerPause'] as const).forEach((key) => {
+    const pause = parsedPacing?.[key];
+    if (typeof pause === 'number' && validateReadingPause(pause)) {
+      restoredPacing[key] = pause;
+    }
+  });
+  savePacingSettings(restoredPacing);
+
+  return restoredPacing;
+};
+
+/**
+ * Create a preset from a snapshot of the reading speed and question settings.
+ */
+export const createPreset = (
+  name: string,
+  settings: QuestionSettings & { readingSpeed: number },
+  id: string,
+): Preset => ({
+  id,
+  name,
+  readingSpeed: settings.readingSpeed,
+  categories: settings.categories,
+  subcategories: settings.subcategories,
+  difficulties: settings.difficulties,
+  tournaments: settings.tournaments,
+  fromYear: settings.fromYear,
+});
+
+const validateParameters = (
+  values: unknown,
+  validValues: QuestionParameter[],
+) =>
+  Array.isArray(values) && values.every((value) => validValues.includes(value));
+
+const validatePreset = (preset: unknown): preset is Preset => {
+  if (typeof preset !== 'object' || preset === null) return false;
+
+  const {
+    id,
+    name,
+    readingSpeed,
+    categories,
+    subcategories,
+    difficulties,
+    tournaments,
+    fromYear,
+  } = preset as Record<keyof Preset, unknown>;
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    name.length > 0 &&
+    typeof readingSpeed === 'number' &&
+    validateReadingSpeed(readingSpeed) &&
+    validateParameters(categories, CATEGORIES) &&
+    validateParameters(subcategories, SUBCATEGORIES) &&
+    validateParameters(difficulties, DIFFICULTIES) &&
+    validateParameters(tournaments, TOURNAMENTS) &&
+    typeof fromYear === 'number' &&
+    validateFromYear(fromYear)
+  );
+};
+
+/**
+ * Parse presets from JSON, e.g. an exported presets file. Returns null if the
+ * JSON isn't a list of valid presets.
+ */
+export const parsePresets = (json: string) => {
+  try {
+    const presets: unknown = JSON.parse(json);
+    if (!Array.isArray(presets) || !presets.every(validatePreset)) return null;
+    return presets;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const restorePresets = () => {
+  const presets = parsePresets(restore(PRESETS_LS_KEY) ?? '[]');
+
+  if (presets === null) {
+    savePresets([]);
+    return [];
+  }
+  return presets;
+};
+
+/**
+ * Check if the current settings are exactly those of a preset.
+ */
+export const isPresetApplied = (
+  preset: Preset,
+  settings: QuestionSettings & { readingSpeed: number },
+) => {
+  const snapshot = createPreset(preset.name, settings, preset.id);
+  return (Object.keys(snapshot) as (keyof Preset)[]).every(
+    (key) => JSON.stringify(snapshot[key]) === JSON.stringify(preset[key]),
+  );
+};
+
 /**
  * Convert speed from percentage into a timeout delay.
  */
@@ -0,0 +1,82 @@
+import { JudgeStrategy } from '../types/tossups';
+import {
+  findBestMatch,
+  levenshteinDistance,
+  levenshteinRatio,
+  phoneticRatio,
+  tokenSetRatio,
+} from './similarity';
+
+describe('Levenshtein similarity', () => {
+  test('distance counts single character edits', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('abc', 'abc')).toBe(0);
+  });
+
+  test('ratio is scaled by the longer string', () => {
+    expect(levenshteinRatio('kitten', 'sitting')).toBeCloseTo(4 / 7);
+    expect(levenshteinRatio('', '')).toBe(1);
+  });
+});
+
+describe('Token set similarity', () => {
+  test('word order does not matter', () => {
+    expect(tokenSetRatio('war of the roses', 'roses the of war')).toBe(1);
+  });
+
+  test('answers containing every significant word of the answer match', () => {
+    expect(
+      tokenSetRatio('the war of roses in england', 'war of the roses'),
+    ).toBe(1);
+    expect(tokenSetRatio('roses war', 'war of the roses')).toBe(1);
+  });
+
+  test('sharing some of the words is not a match', () => {
+    expect(tokenSetRatio('roses', 'war of the roses')).toBeLessThan(0.6);
+  });
+
+  test('a single shared stop word is not a match', () => {
+    expect(tokenSetRatio('of', 'war of the roses')).toBeLessThan(0.6);
+    expect(tokenSetRatio('the', 'the who')).toBeLessThan(0.6);
+  });
+
+  test('unrelated answers do not match', () => {
+    expect(tokenSetRatio('thirty years war', 'war of the roses')).toBeLessThan(
+      0.6,
+    );
+  });
+});
+
+describe('Phonetic similarity', () => {
+  test('misspelled names sound the same', () => {
+    expect(phoneticRatio('tchaikovsky', 'chaikovski')).toBe(1);
+    expect(phoneticRatio('dostoyevsky', 'dostoevski')).toBe(1);
+  });
+
+  test('different names sound different', () => {
+    expect(phoneticRatio('tolstoy', 'chekhov')).toBeLessThan(0.5);
+  });
+});
+
+describe('Finding the best match', () => {
+  test('the most similar answer is returned', () => {
+    const { bestMatch, bestMatchIndex } = findBestMatch(
+      'paralel',
+      ['mode', 'parallel', 'parallel major'],
+      JudgeStrategy.levenshtein,
+    );
+    expect(bestMatch.target).toBe('parallel');
+    expect(bestMatchIndex).toBe(1);
+  });
+
+  test('no answers means no match', () => {
+    const { bestMatch, bestMatchIndex } = findBestMatch(
+      'parallel',
+      [],
+      JudgeStrategy.dice,
+    );
+    expect(bestMatch.rating).toBe(0);
+    expect(bestMatchIndex).toBe(-1);
+  });
+});
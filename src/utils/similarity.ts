@@ -0,0 +1,140 @@
+import doubleMetaphone from 'double-metaphone';
+import ss from 'string-similarity';
+import { JudgeStrategy } from '../types/tossups';
+import { getWords } from './string';
+
+/**
+ * Minimum number of single character edits to turn one string into another.
+ */
+export const levenshteinDistance = (a: string, b: string) => {
+  let prevRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(row[j - 1] + 1, prevRow[j] + 1, prevRow[j - 1] + cost);
+    }
+    prevRow = row;
+  }
+  return prevRow[b.length];
+};
+
+/**
+ * Levenshtein distance scaled to a similarity between 0 and 1.
+ */
+export const levenshteinRatio = (a: string, b: string) => {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+};
+
+// words that don't tell answers apart on their own
+const stopWords = new Set([
+  'a',
+  'an',
+  'and',
+  'at',
+  'by',
+  'for',
+  'from',
+  'in',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+/**
+ * Compare strings by their sets of words, ignoring word order and duplicated
+ * words. The shared words are compared with each string's leftover words, so
+ * an answer containing all the significant words of the answer it is compared
+ * to (`b`) scores highly.
+ * e.g. 'war of the roses' ~ 'the roses war'
+ */
+export const tokenSetRatio = (a: string, b: string) => {
+  const tokensA = new Set(getWords(a));
+  const tokensB = new Set(getWords(b));
+  const intersection = [...tokensA].filter((t) => tokensB.has(t)).sort();
+  const diffA = [...tokensA].filter((t) => !tokensB.has(t)).sort();
+  const diffB = [...tokensB].filter((t) => !tokensA.has(t)).sort();
+
+  const sorted = intersection.join(' ');
+  const combinedA = [...intersection, ...diffA].join(' ');
+  const combinedB = [...intersection, ...diffB].join(' ');
+
+  // only compare the shared words on their own if they cover the answer,
+  // otherwise sharing a single word like 'of' would be a perfect match
+  const significantB = [...tokensB].filter((t) => !stopWords.has(t));
+  const isCovered = (
+    significantB.length > 0 ? significantB : [...tokensB]
+  ).every((t) => tokensA.has(t));
+
+  const ratios = [levenshteinRatio(combinedA, combinedB)];
+  if (sorted.length > 0 && isCovered) {
+    ratios.push(
+      levenshteinRatio(sorted, combinedA),
+      levenshteinRatio(sorted, combinedB),
+    );
+  }
+  return Math.max(...ratios);
+};
+
+/**
+ * Encode each word with Double Metaphone, returning the primary and secondary
+ * encodings of the whole string.
+ * e.g. 'smith' => ['SM0', 'XMT']
+ */
+export const getPhoneticCodes = (s: string) => {
+  const codes = getWords(s)
+    .filter((word) => word.length > 0)
+    .map(doubleMetaphone);
+  return [
+    codes.map(([primary]) => primary).join(' '),
+    codes.map(([, secondary]) => secondary).join(' '),
+  ];
+};
+
+/**
+ * Compare how similar two strings sound, useful for misspelled names.
+ */
+export const phoneticRatio = (a: string, b: string) => {
+  const codesA = getPhoneticCodes(a);
+  const codesB = getPhoneticCodes(b);
+  return Math.max(
+    ...codesA.flatMap((codeA) =>
+      codesB.map((codeB) => levenshteinRatio(codeA, codeB)),
+    ),
+  );
+};
+
+const comparators = {
+  [JudgeStrategy.dice]: ss.compareTwoStrings,
+  [JudgeStrategy.levenshtein]: levenshteinRatio,
+  [JudgeStrategy.tokenSet]: tokenSetRatio,
+  [JudgeStrategy.phonetic]: phoneticRatio,
+};
+
+/**
+ * Find the answer most similar to the user's answer, using the given strategy.
+ */
+export const findBestMatch = (
+  userAnswer: string,
+  answers: string[],
+  strategy: JudgeStrategy,
+) => {
+  const compare = comparators[strategy];
+  const ratings = answers.map((answer) => ({
+    target: answer,
+    rating: compare(userAnswer, answer),
+  }));
+
+  return ratings.reduce(
+    (best, rating, i) =>
+      rating.rating > best.bestMatch.rating
+        ? { ...best, bestMatch: rating, bestMatchIndex: i }
+        : best,
+    { ratings, bestMatch: { target: '', rating: 0 }, bestMatchIndex: -1 },
+  );
+};
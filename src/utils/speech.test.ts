@@ -0,0 +1,27 @@
+import { getWordIndexAt, getWordOffsets } from './speech';
+
+describe('Speech boundaries', () => {
+  const words = ['For', '10', 'points,', 'name', 'this', 'author.'];
+  const offsets = getWordOffsets(words);
+
+  test('word offsets match the joined text', () => {
+    const text = words.join(' ');
+    expect(offsets).toEqual([0, 4, 7, 15, 20, 25]);
+    offsets.forEach((offset, i) =>
+      expect(text.slice(offset).startsWith(words[i])).toBe(true),
+    );
+  });
+
+  test('boundaries map back to the word being spoken', () => {
+    expect(getWordIndexAt(offsets, 0)).toBe(0);
+    expect(getWordIndexAt(offsets, 7)).toBe(2);
+    expect(getWordIndexAt(offsets, 10)).toBe(2);
+    expect(getWordIndexAt(offsets, 25)).toBe(5);
+    expect(getWordIndexAt(offsets, 100)).toBe(5);
+  });
+
+  test('no words have no offsets', () => {
+    expect(getWordOffsets([])).toEqual([]);
+    expect(getWordIndexAt([], 3)).toBe(-1);
+  });
+});
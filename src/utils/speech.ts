@@ -0,0 +1,57 @@
+import { SpeechSettings } from '../types/settings';
+
+export const isSpeechSupported = () =>
+  typeof window !== 'undefined' &&
+  'speechSynthesis' in window &&
+  'SpeechSynthesisUtterance' in window;
+
+/**
+ * Get the character offset each word starts at once the words are joined
+ * with spaces.
+ */
+export const getWordOffsets = (words: string[]) =>
+  words.reduce<number[]>(
+    (offsets, word, i) =>
+      i === 0 ? [0] : [...offsets, offsets[i - 1] + words[i - 1].length + 1],
+    [],
+  );
+
+/**
+ * Get the index of the word containing a character offset, e.g. the offset
+ * reported by a speech boundary event.
+ */
+export const getWordIndexAt = (offsets: number[], charIndex: number) => {
+  let index = -1;
+  offsets.forEach((offset, i) => {
+    if (offset <= charIndex) index = i;
+  });
+  return index;
+};
+
+/**
+ * Create an utterance speaking the words with the chosen voice and rate,
+ * `onWord` is called with the index of every word as it starts being spoken.
+ */
+export const createUtterance = (
+  words: string[],
+  { voice, rate }: Pick<SpeechSettings, 'voice' | 'rate'>,
+  onWord: (index: number) => void,
+) => {
+  const offsets = getWordOffsets(words);
+  const utterance = new SpeechSynthesisUtterance(words.join(' '));
+  utterance.rate = rate;
+  const selectedVoice = window.speechSynthesis
+    .getVoices()
+    .find(({ voiceURI }) => voiceURI === voice);
+  if (selectedVoice !== undefined) {
+    utterance.voice = selectedVoice;
+    utterance.lang = selectedVoice.lang;
+  }
+
+  utterance.onboundary = (e) => {
+    if (e.name !== 'word') return;
+
+    onWord(getWordIndexAt(offsets, e.charIndex));
+  };
+  return utterance;
+};
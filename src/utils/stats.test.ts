@@ -0,0 +1,101 @@
+import { Category, Difficulty, Tournament } from '../types/questions';
+import { Tossup, TossupResult, TossupScore } from '../types/tossups';
+import {
+  aggregateTossupResults,
+  getBuzzPosition,
+  getSessionTrend,
+  StatsGrouping,
+} from './stats';
+
+const createResult = (
+  category: Category,
+  score: TossupScore,
+  buzzIndex: number,
+): TossupResult => ({
+  isCorrect: score > 0,
+  userAnswer: '',
+  score,
+  buzzIndex,
+  words: Array(10).fill({ word: 'word', bold: false }),
+  tossup: {
+    category,
+    difficulty: Difficulty['Regular College'],
+    tournament: Tournament['2013 ACF Fall'],
+  } as Tossup,
+  judgedAt: 0,
+  overridden: false,
+});
+
+describe('Aggregating tossup results', () => {
+  const results = [
+    createResult(Category.Science, TossupScore.power, 3),
+    createResult(Category.Science, TossupScore.neg, 1),
+    createResult(Category.Literature, TossupScore.ten, 9),
+  ];
+
+  test('buzz position is a fraction of the tossup', () => {
+    expect(getBuzzPosition(results[0])).toBe(0.4);
+    expect(getBuzzPosition(results[2])).toBe(1);
+  });
+
+  test('results are grouped by category', () => {
+    const [science, literature] = aggregateTossupResults(
+      results,
+      StatsGrouping.category,
+    );
+    expect(science).toMatchObject({
+      label: 'Science',
+      count: 2,
+      powers: 1,
+      tens: 0,
+      negs: 1,
+      points: 10,
+    });
+    expect(science.buzzPosition).toBeCloseTo(0.3);
+    expect(literature).toEqual({
+      label: 'Literature',
+      count: 1,
+      powers: 0,
+      tens: 1,
+      negs: 0,
+      points: 10,
+      buzzPosition: 1,
+    });
+  });
+
+  test('results are grouped by difficulty', () => {
+    const stats = aggregateTossupResults(results, StatsGrouping.difficulty);
+    expect(stats.map(({ label, count }) => [label, count])).toEqual([
+      ['Regular College', 3],
+    ]);
+  });
+});
+
+describe('Session trends', () => {
+  test('empty sessions are skipped and sessions are ordered by date', () => {
+    const sessions = [
+      {
+        id: 'b',
+        name: 'b',
+        createdAt: 2,
+        tossupResults: [createResult(Category.Science, TossupScore.ten, 3)],
+        bonusResults: [],
+      },
+      {
+        id: 'c',
+        name: 'c',
+        createdAt: 3,
+        tossupResults: [],
+        bonusResults: [],
+      },
+      {
+        id: 'a',
+        name: 'a',
+        createdAt: 1,
+        tossupResults: [createResult(Category.Science, TossupScore.neg, 3)],
+        bonusResults: [],
+      },
+    ];
+    expect(getSessionTrend(sessions).map(({ id }) => id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,183 @@
+import { BonusResult, BonusScore } from '../types/bonus';
+import { Category } from '../types/questions';
+import { Session } from '../types/sessions';
+import { Tossup, TossupResult, TossupScore } from '../types/tossups';
+import {
+  CATEGORIES,
+  CATEGORY_MAP,
+  DIFFICULTY_MAP,
+  SUBCATEGORY_MAP,
+  TOURNAMENT_MAP,
+} from './constants';
+import { ratio } from './number';
+import { getCategoryCounts, getTargetShares } from './weights';
+
+export enum StatsGrouping {
+  category,
+  subcategory,
+  difficulty,
+  tournament,
+}
+
+export type TossupStats = {
+  label: string;
+  count: number;
+  powers: number;
+  tens: number;
+  negs: number;
+  points: number;
+  buzzPosition: number;
+};
+
+export type BonusStats = {
+  label: string;
+  count: number;
+  thirties: number;
+  points: number;
+};
+
+export type SessionStats = {
+  id: string;
+  name: string;
+  createdAt: number;
+  tossups: number;
+  tossupPoints: number;
+  bonuses: number;
+  bonusPoints: number;
+};
+
+export type CategoryMix = {
+  label: string;
+  target: number;
+  tossups: number;
+  bonuses: number;
+};
+
+type Question = Pick<
+  Tossup,
+  'category' | 'subcategory' | 'difficulty' | 'tournament'
+>;
+
+/**
+ * Get the display name of a question's category, subcategory, etc.
+ */
+export const getGroupLabel = (question: Question, grouping: StatsGrouping) => {
+  switch (grouping) {
+    case StatsGrouping.category:
+      return CATEGORY_MAP[question.category]?.name ?? 'None';
+    case StatsGrouping.subcategory:
+      return SUBCATEGORY_MAP[question.subcategory]?.name ?? 'None';
+    case StatsGrouping.difficulty:
+      return DIFFICULTY_MAP[question.difficulty]?.name ?? 'None';
+    default:
+      return TOURNAMENT_MAP[question.tournament]?.name ?? 'None';
+  }
+};
+
+/**
+ * Group elements by a key, preserving the order in which keys first appear.
+ */
+const groupBy = <T>(arr: T[], getKey: (arg: T) => string) =>
+  arr.reduce((groups, element) => {
+    const key = getKey(element);
+    groups.set(key, [...(groups.get(key) ?? []), element]);
+    return groups;
+  }, new Map<string, T[]>());
+
+/**
+ * Fraction of the tossup that was read when the user buzzed, e.g. buzzing on
+ * the last word is 1.
+ */
+export const getBuzzPosition = (result: TossupResult) =>
+  result.words.length > 0 ? (result.buzzIndex + 1) / result.words.length : 1;
+
+export const getTossupStats = (
+  label: string,
+  results: TossupResult[],
+): TossupStats => ({
+  label,
+  count: results.length,
+  powers: results.filter((r) => r.score === TossupScore.power).length,
+  tens: results.filter((r) => r.score === TossupScore.ten).length,
+  negs: results.filter((r) => r.score === TossupScore.neg).length,
+  points: results.reduce((acc, r) => acc + r.score, 0),
+  buzzPosition:
+    results.length > 0
+      ? results.reduce((acc, r) => acc + getBuzzPosition(r), 0) / results.length
+      : 0,
+});
+
+export const getBonusStats = (
+  label: string,
+  results: BonusResult[],
+): BonusStats => ({
+  label,
+  count: results.length,
+  thirties: results.filter((r) => r.score === BonusScore.thirty).length,
+  points: results.reduce((acc, r) => acc + r.score, 0),
+});
+
+/**
+ * Aggregate tossup results by category, subcategory, difficulty or tournament.
+ */
+export const aggregateTossupResults = (
+  results: TossupResult[],
+  grouping: StatsGrouping,
+) =>
+  Array.from(
+    groupBy(results, (r) => getGroupLabel(r.tossup, grouping)),
+    ([label, group]) => getTossupStats(label, group),
+  ).sort((a, b) => b.count - a.count);
+
+/**
+ * Aggregate bonus results by category, subcategory, difficulty or tournament.
+ */
+export const aggregateBonusResults = (
+  results: BonusResult[],
+  grouping: StatsGrouping,
+) =>
+  Array.from(
+    groupBy(results, (r) => getGroupLabel(r.bonus, grouping)),
+    ([label, group]) => getBonusStats(label, group),
+  ).sort((a, b) => b.count - a.count);
+
+/**
+ * Summarize each session, oldest first, for tracking progress over time.
+ */
+export const getSessionTrend = (sessions: Session[]): SessionStats[] =>
+  [...sessions]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .filter((s) => s.tossupResults.length > 0 || s.bonusResults.length > 0)
+    .map((s) => ({
+      id: s.id,
+      name: s.name,
+      createdAt: s.createdAt,
+      tossups: s.tossupResults.length,
+      tossupPoints: s.tossupResults.reduce((acc, r) => acc + r.score, 0),
+      bonuses: s.bonusResults.length,
+      bonusPoints: s.bonusResults.reduce((acc, r) => acc + r.score, 0),
+    }));
+
+/**
+ * Compare the observed share of each category with the target distribution.
+ * Categories that are neither targeted nor played are left out.
+ */
+export const getCategoryMix = (
+  tossupResults: TossupResult[],
+  bonusResults: BonusResult[],
+  // weights of the selected categories
+  weights: Partial<Record<Category, number>>,
+): CategoryMix[] => {
+  const targets = getTargetShares(weights);
+  const tossupCounts = getCategoryCounts(tossupResults.map((r) => r.tossup));
+  const bonusCounts = getCategoryCounts(bonusResults.map((r) => r.bonus));
+
+  return CATEGORIES.map((category) => ({
+    label: CATEGORY_MAP[category].name,
+    target: targets[category] ?? 0,
+    tossups: ratio(tossupCounts[category] ?? 0, tossupResults.length),
+    bonuses: ratio(bonusCounts[category] ?? 0, bonusResults.length),
+  }))
+    .filter((mix) => mix.target > 0 || mix.tossups > 0 || mix.bonuses > 0)
+    .sort((a, b) => b.target - a.target);
+};
@@ -0,0 +1,70 @@
+import { Tossup, TossupResult, TossupScore } from '../types/tossups';
+import { getBuzzTiming, getBuzzTimingSummary } from './timing';
+
+const words = 'He was exiled. He wrote Ulysses. For 10 points, name'
+  .split(' ')
+  .map((word) => ({ word, bold: false }));
+
+const createResult = (
+  buzzIndex: number,
+  timing?: TossupResult['timing'],
+): TossupResult => ({
+  isCorrect: true,
+  userAnswer: '',
+  score: TossupScore.ten,
+  buzzIndex,
+  words,
+  tossup: {} as Tossup,
+  judgedAt: 10000,
+  overridden: false,
+  timing,
+});
+
+// every word becomes visible 100ms after the previous one
+const wordTimes = words.map((_, i) => i * 100);
+
+describe('Buzz timing', () => {
+  test('reaction, answer time and words after the first clue', () => {
+    expect(
+      getBuzzTiming(
+        createResult(5, { startedAt: 1000, wordTimes, buzzedAt: 1800 }),
+      ),
+    ).toEqual({
+      reactionTime: 300,
+      answerTime: 8200,
+      wordsAfterFirstClue: 3,
+      firstClueEndIndex: 2,
+    });
+  });
+
+  test('buzzing before the first word has no reaction time', () => {
+    const timing = getBuzzTiming(
+      createResult(-1, { startedAt: 1000, wordTimes: [], buzzedAt: 1200 }),
+    );
+    expect(timing?.reactionTime).toBeNull();
+    expect(timing?.wordsAfterFirstClue).toBe(-3);
+  });
+
+  test('results without timing are left out of the summary', () => {
+    const summary = getBuzzTimingSummary([
+      createResult(5, { startedAt: 1000, wordTimes, buzzedAt: 1800 }),
+      createResult(9, { startedAt: 1000, wordTimes, buzzedAt: 2100 }),
+      createResult(3),
+    ]);
+    expect(summary).toEqual({
+      count: 2,
+      reactionTime: 250,
+      answerTime: 8050,
+      wordsAfterFirstClue: 5,
+    });
+  });
+
+  test('an empty history summarizes to zero', () => {
+    expect(getBuzzTimingSummary([])).toEqual({
+      count: 0,
+      reactionTime: 0,
+      answerTime: 0,
+      wordsAfterFirstClue: 0,
+    });
+  });
+});
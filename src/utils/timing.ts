@@ -0,0 +1,72 @@
+import { TossupResult } from '../types/tossups';
+import { ratio } from './number';
+import { getFirstClueEndIndex } from './reader';
+
+export type BuzzTiming = {
+  // ms from the buzzed word becoming visible to the buzz
+  reactionTime: number | null;
+  // ms from the buzz to submitting the answer
+  answerTime: number;
+  // negative when buzzing before the first clue was finished
+  wordsAfterFirstClue: number;
+  firstClueEndIndex: number;
+};
+
+export type BuzzTimingSummary = {
+  count: number;
+  reactionTime: number;
+  answerTime: number;
+  wordsAfterFirstClue: number;
+};
+
+/**
+ * Get the timing of a buzz, null for results without recorded timing.
+ */
+export const getBuzzTiming = (result: TossupResult): BuzzTiming | null => {
+  const { timing } = result;
+  if (timing === undefined || timing.buzzedAt === 0) return null;
+
+  const firstClueEndIndex = getFirstClueEndIndex(
+    result.words.map(({ word }) => word),
+  );
+  const visibleTime = timing.wordTimes[result.buzzIndex];
+  return {
+    reactionTime:
+      visibleTime === undefined
+        ? null
+        : timing.buzzedAt - (timing.startedAt + visibleTime),
+    answerTime: result.judgedAt - timing.buzzedAt,
+    wordsAfterFirstClue: result.buzzIndex - firstClueEndIndex,
+    firstClueEndIndex,
+  };
+};
+
+/**
+ * Average the buzz timing of results with recorded timing, a slow reaction
+ * points to hesitation while buzzing late after the first clue points to
+ * missing knowledge.
+ */
+export const getBuzzTimingSummary = (
+  results: TossupResult[],
+): BuzzTimingSummary => {
+  const timings = results
+    .map(getBuzzTiming)
+    .filter((timing): timing is BuzzTiming => timing !== null);
+  const reactionTimes = timings
+    .map(({ reactionTime }) => reactionTime)
+    .filter((time): time is number => time !== null);
+  const sum = (arr: number[]) => arr.reduce((acc, n) => acc + n, 0);
+
+  return {
+    count: timings.length,
+    reactionTime: ratio(sum(reactionTimes), reactionTimes.length),
+    answerTime: ratio(
+      sum(timings.map(({ answerTime }) => answerTime)),
+      timings.length,
+    ),
+    wordsAfterFirstClue: ratio(
+      sum(timings.map(({ wordsAfterFirstClue }) => wordsAfterFirstClue)),
+      timings.length,
+    ),
+  };
+};
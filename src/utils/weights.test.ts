@@ -0,0 +1,79 @@
+import { Category } from '../types/questions';
+import { DEFAULT_CATEGORY_WEIGHTS } from './constants';
+import {
+  getCategoryCounts,
+  getSelectedWeights,
+  getTargetShares,
+  sampleByWeight,
+} from './weights';
+
+const createPool = (category: Category, count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${category}-${i}`,
+    category,
+  }));
+
+describe('Category weights', () => {
+  test('target shares add up to 1', () => {
+    const shares = getTargetShares(DEFAULT_CATEGORY_WEIGHTS);
+    expect(shares[Category.Literature]).toBeCloseTo(4 / 22);
+    expect(shares[Category['Fine Arts']]).toBeCloseTo(3 / 22);
+    expect(shares[Category.Trash]).toBeCloseTo(1 / 22);
+    expect(
+      Object.values(shares).reduce((acc, share) => acc + share, 0),
+    ).toBeCloseTo(1);
+  });
+
+  test('a lopsided pool is sampled to match the weights', () => {
+    const pool = [
+      ...createPool(Category.Science, 30),
+      ...createPool(Category.Literature, 5),
+      ...createPool(Category['Fine Arts'], 5),
+    ];
+    const sample = sampleByWeight(pool, DEFAULT_CATEGORY_WEIGHTS, 11);
+    expect(getCategoryCounts(sample)).toEqual({
+      [Category.Science]: 4,
+      [Category.Literature]: 4,
+      [Category['Fine Arts']]: 3,
+    });
+  });
+
+  test('questions already seen count towards the distribution', () => {
+    const pool = [
+      ...createPool(Category.Science, 5),
+      ...createPool(Category.Literature, 5),
+    ];
+    const sample = sampleByWeight(pool, DEFAULT_CATEGORY_WEIGHTS, 4, {
+      [Category.Science]: 4,
+    });
+    expect(getCategoryCounts(sample)).toEqual({ [Category.Literature]: 4 });
+  });
+
+  test('only selected categories are weighted, each with some weight', () => {
+    const weights = getSelectedWeights(
+      { ...DEFAULT_CATEGORY_WEIGHTS, [Category.Trash]: 0 },
+      [Category.Science, Category.Trash],
+    );
+    expect(weights).toEqual({ [Category.Science]: 4, [Category.Trash]: 1 });
+    expect(getTargetShares(weights)[Category.Science]).toBeCloseTo(0.8);
+    expect(
+      Object.keys(getSelectedWeights(DEFAULT_CATEGORY_WEIGHTS, [])),
+    ).toHaveLength(Object.keys(DEFAULT_CATEGORY_WEIGHTS).length);
+  });
+
+  test('a selected category at weight 0 is still sampled', () => {
+    const trash = createPool(Category.Trash, 3);
+    const sample = sampleByWeight(
+      [...trash, ...createPool(Category.History, 3)],
+      getSelectedWeights({ ...DEFAULT_CATEGORY_WEIGHTS, [Category.Trash]: 0 }, [
+        Category.History,
+        Category.Trash,
+      ]),
+      5,
+    );
+    expect(getCategoryCounts(sample)).toEqual({
+      [Category.History]: 3,
+      [Category.Trash]: 2,
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { Category } from '../types/questions';
+import { MIN_CATEGORY_WEIGHT } from './constants';
+
+type CategoryCounts = Partial<Record<Category, number>>;
+type CategoryWeights = Partial<Record<Category, number>>;
+
+export const getCategoryCounts = (questions: { category: Category }[]) =>
+  questions.reduce((counts, { category }) => {
+    counts[category] = (counts[category] ?? 0) + 1;
+    return counts;
+  }, {} as CategoryCounts);
+
+/**
+ * Get the weights of the categories the user selected, no selection means
+ * every category. A selected category always gets some weight, so it isn't
+ * filtered in only to never be picked.
+ */
+export const getSelectedWeights = (
+  weights: Record<Category, number>,
+  categories: Category[],
+) =>
+  Object.fromEntries(
+    Object.entries(weights)
+      .filter(
+        ([category]) =>
+          categories.length === 0 || categories.includes(Number(category)),
+      )
+      .map(([category, weight]) => [
+        category,
+        Math.max(weight, MIN_CATEGORY_WEIGHT),
+      ]),
+  ) as CategoryWeights;
+
+/**
+ * Get each category's share of the distribution, e.g. 4/4/4/3 gives Fine Arts
+ * a share of 0.2.
+ */
+export const getTargetShares = (weights: CategoryWeights) => {
+  const total = Object.values(weights).reduce((acc, w) => acc + w, 0);
+  return Object.fromEntries(
+    Object.entries(weights).map(([category, weight]) => [
+      category,
+      total > 0 ? weight / total : 0,
+    ]),
+  ) as CategoryWeights;
+};
+
+/**
+ * Sample questions from a pool so that, together with the questions already
+ * seen, categories follow the weights. Each pick goes to the category that is
+ * furthest behind its weight.
+ */
+export const sampleByWeight = <T extends { category: Category }>(
+  pool: T[],
+  weights: CategoryWeights,
+  count: number,
+  seen: CategoryCounts = {},
+) => {
+  const getWeight = (category: Category) =>
+    Math.max(weights[category] ?? 0, MIN_CATEGORY_WEIGHT);
+
+  const remaining = [...pool];
+  const counts = { ...seen };
+  const sample: T[] = [];
+
+  while (sample.length < count && remaining.length > 0) {
+    // the question from the category with the lowest count relative to its weight
+    let bestIndex = 0;
+    let bestLoad = Infinity;
+    remaining.forEach(({ category }, i) => {
+      const load = ((counts[category] ?? 0) + 1) / getWeight(category);
+      if (load < bestLoad) {
+        bestIndex = i;
+        bestLoad = load;
+      }
+    });
+
+    const [question] = remaining.splice(bestIndex, 1);
+    counts[question.category] = (counts[question.category] ?? 0) + 1;
+    sample.push(question);
+  }
+
+  return sample;
+};